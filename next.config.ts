@@ -22,7 +22,9 @@ const baseConfig: NextConfig = {
       }
     ]
   },
-  transpilePackages: ['geist']
+  transpilePackages: ['geist'],
+  // pdf-parse 依賴 pdfjs-dist 的 worker，需保留為 Node 外部套件
+  serverExternalPackages: ['pdf-parse', 'pdfjs-dist']
 };
 
 let configWithPlugins = baseConfig;
@@ -0,0 +1,54 @@
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+
+// 以子行程實際執行 CLI，確保匯入鏈不會碰到只能在 Next.js 內載入的模組
+function runCli(args: string[], env: Record<string, string> = {}) {
+  return spawnSync(
+    'node_modules/.bin/vite-node',
+    ['-c', 'vitest.config.ts', 'scripts/rag-eval.ts', '--', ...args],
+    {
+      cwd: root,
+      encoding: 'utf8',
+      timeout: 60_000,
+      env: { ...process.env, ...env }
+    }
+  );
+}
+
+describe('rag-eval CLI', () => {
+  it('印出用法', () => {
+    const result = runCli(['--help']);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('--golden');
+  });
+
+  it('缺少 service role key 時直接失敗', () => {
+    const result = runCli(
+      ['--golden', 'scripts/rag-eval.golden.example.json'],
+      { SUPABASE_SERVICE_ROLE_KEY: '' }
+    );
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('SUPABASE_SERVICE_ROLE_KEY');
+  });
+
+  it('資料庫無法連線時仍完成評估並逐題回報錯誤', () => {
+    const result = runCli(
+      [
+        '--golden',
+        'scripts/rag-eval.golden.example.json',
+        '--embedding',
+        'hash'
+      ],
+      {
+        SUPABASE_SERVICE_ROLE_KEY: 'smoke-test',
+        NEXT_PUBLIC_SUPABASE_URL: 'http://127.0.0.1:9'
+      }
+    );
+    expect(result.stderr).not.toContain('server-only');
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('grounding-resistance');
+  }, 60_000);
+});
@@ -0,0 +1,146 @@
+/**
+ * 離線檢索評估命令列 - 以標準問答集評估目前的 chunk、門檻與模型設定
+ *
+ * 用法（在專案根目錄執行，會讀取 .env / .env.local）：
+ *   bun run rag:eval --golden eval/golden.json
+ *   bun run rag:eval --golden eval/golden.json --config eval/hybrid.json --config eval/rerank.json
+ *   bun run rag:eval --golden eval/golden.json --baseline before.json --out after.json
+ *
+ * 參數：
+ *   --golden <file>     標準問答集（格式見 docs/rag-eval.md）
+ *   --config <file>     搜尋設定，可重複指定以並排比較；未指定時使用預設混合搜尋
+ *   --baseline <file>   先前以 --out 儲存的報告，加入比較（例如重新切塊前的結果）
+ *   --out <file>        儲存報告 JSON（多組設定時存為陣列）
+ *   --k <list>          評估的 k 值，預設 1,3,5,10
+ *   --embedding hash    改用確定性 hash 向量，不需 Ollama（資料庫需已用 hash 模型重新生成向量）
+ *
+ * 需要 SUPABASE_SERVICE_ROLE_KEY；連線由這裡建立後注入，不經過 Next.js 專用的 server-only client
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import * as z from 'zod';
+import { createRagDatabase, setRagDatabase } from '@/lib/rag/db';
+import {
+  DEFAULT_KS,
+  evalConfigSchema,
+  formatComparison,
+  formatMisses,
+  goldenSetSchema,
+  runEvaluation,
+  type EvalConfig,
+  type EvalReport
+} from '@/lib/rag/evaluation';
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`無法讀取 ${path}: ${message}`);
+  }
+}
+
+function parseFile<T extends z.ZodType>(path: string, schema: T): z.output<T> {
+  const result = schema.safeParse(readJson(path));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`${path} 格式錯誤：\n${issues}`);
+  }
+  return result.data;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      golden: { type: 'string' },
+      config: { type: 'string', multiple: true },
+      baseline: { type: 'string', multiple: true },
+      out: { type: 'string' },
+      k: { type: 'string' },
+      embedding: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help || !values.golden) {
+    console.log(
+      '用法：bun run rag:eval --golden <file> [--config <file>]... [--baseline <report>]... [--out <file>] [--k 1,3,5,10] [--embedding hash]'
+    );
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceKey) {
+    throw new Error(
+      '請設定 SUPABASE_SERVICE_ROLE_KEY（supabase status 可查詢本地的 key）'
+    );
+  }
+  setRagDatabase(
+    createRagDatabase(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || 'http://127.0.0.1:54321',
+      serviceKey
+    )
+  );
+
+  if (values.embedding) {
+    if (values.embedding !== 'hash') {
+      throw new Error('--embedding 目前只支援 hash');
+    }
+    process.env.EMBEDDING_PROVIDER = 'hash';
+  }
+
+  const ks = values.k
+    ? values.k.split(',').map((k) => Number(k.trim()))
+    : DEFAULT_KS;
+  if (ks.some((k) => !Number.isInteger(k) || k < 1 || k > 50)) {
+    throw new Error('--k 必須是 1～50 的整數，以逗號分隔');
+  }
+
+  const golden = parseFile(values.golden, goldenSetSchema);
+  const configs: EvalConfig[] =
+    values.config && values.config.length > 0
+      ? values.config.map((path) => parseFile(path, evalConfigSchema))
+      : [evalConfigSchema.parse({})];
+  const baselines = (values.baseline ?? []).map(
+    (path) => readJson(path) as EvalReport | EvalReport[]
+  );
+
+  const reports: EvalReport[] = [];
+  for (const config of configs) {
+    console.error(`▶ ${config.name}（${golden.cases.length} 題）`);
+    const report = await runEvaluation(golden, config, {
+      ks,
+      onProgress: (done, total, result) => {
+        const status = result.error
+          ? `錯誤：${result.error}`
+          : `RR ${result.reciprocal_rank.toFixed(2)}`;
+        console.error(`  [${done}/${total}] ${result.id} ${status}`);
+      }
+    });
+    reports.push(report);
+  }
+
+  const all = [...baselines.flat(), ...reports];
+  console.log(`\n標準問答集：${golden.name}\n`);
+  console.log(formatComparison(all));
+  console.log('');
+  for (const report of reports) {
+    console.log(formatMisses(report, Math.max(...ks)));
+  }
+
+  if (values.out) {
+    writeFileSync(
+      values.out,
+      JSON.stringify(reports.length === 1 ? reports[0] : reports, null, 2)
+    );
+    console.error(`\n報告已儲存至 ${values.out}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/materials/api';
+import { validate } from '@/lib/rag/api';
+import { getMaterial } from '@/lib/materials/materials';
+import { listPriceHistory } from '@/lib/materials/prices';
+import {
+  materialIdSchema,
+  type PriceHistoryResponse
+} from '@/lib/materials/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(materialIdSchema, (await context.params).id);
+    // 材料不存在時回傳 404，而不是空的紀錄
+    await getMaterial(id);
+    const data = await listPriceHistory(id);
+
+    return NextResponse.json<PriceHistoryResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '單價紀錄');
+  }
+}
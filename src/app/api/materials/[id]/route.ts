@@ -0,0 +1,52 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/materials/api';
+import { parseJson, validate } from '@/lib/rag/api';
+import {
+  deleteMaterial,
+  getMaterial,
+  updateMaterial
+} from '@/lib/materials/materials';
+import {
+  materialIdSchema,
+  materialRequestSchema,
+  type MaterialDeleteResponse,
+  type MaterialResponse
+} from '@/lib/materials/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(materialIdSchema, (await context.params).id);
+    const data = await getMaterial(id);
+
+    return NextResponse.json<MaterialResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '材料');
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(materialIdSchema, (await context.params).id);
+    const body = await parseJson(request, materialRequestSchema);
+    const { userId } = await auth();
+    const data = await updateMaterial(id, body, userId);
+
+    return NextResponse.json<MaterialResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '更新材料');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(materialIdSchema, (await context.params).id);
+    const data = await deleteMaterial(id);
+
+    return NextResponse.json<MaterialDeleteResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '刪除材料');
+  }
+}
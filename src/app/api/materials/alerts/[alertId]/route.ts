@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/materials/api';
+import { validate } from '@/lib/rag/api';
+import { deletePriceAlert } from '@/lib/materials/prices';
+import {
+  priceAlertIdSchema,
+  type PriceAlertDeleteResponse
+} from '@/lib/materials/schemas';
+
+type RouteContext = { params: Promise<{ alertId: string }> };
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(priceAlertIdSchema, (await context.params).alertId);
+    const data = await deletePriceAlert(id);
+
+    return NextResponse.json<PriceAlertDeleteResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '刪除價格警示');
+  }
+}
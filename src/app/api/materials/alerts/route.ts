@@ -0,0 +1,48 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/materials/api';
+import { parseJson, parseQuery } from '@/lib/rag/api';
+import { getMaterial } from '@/lib/materials/materials';
+import { createPriceAlert, listPriceAlerts } from '@/lib/materials/prices';
+import {
+  priceAlertListQuerySchema,
+  priceAlertRequestSchema,
+  type PriceAlertListResponse,
+  type PriceAlertResponse
+} from '@/lib/materials/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(
+      request.nextUrl.searchParams,
+      priceAlertListQuerySchema
+    );
+    const data = await listPriceAlerts({
+      materialId: query.material_id,
+      triggered: query.triggered
+    });
+
+    return NextResponse.json<PriceAlertListResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '價格警示');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseJson(request, priceAlertRequestSchema);
+    const { userId } = await auth();
+    await getMaterial(body.material_id);
+    const data = await createPriceAlert({
+      ...body,
+      created_by: userId
+    });
+
+    return NextResponse.json<PriceAlertResponse>(
+      { success: true, data },
+      { status: 201 }
+    );
+  } catch (err) {
+    return errorResponse(err, '新增價格警示');
+  }
+}
@@ -0,0 +1,46 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/materials/api';
+import { parseJson, parseQuery } from '@/lib/rag/api';
+import { createMaterial, listMaterials } from '@/lib/materials/materials';
+import {
+  materialListQuerySchema,
+  materialRequestSchema,
+  type MaterialListResponse,
+  type MaterialResponse
+} from '@/lib/materials/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(
+      request.nextUrl.searchParams,
+      materialListQuerySchema
+    );
+    const { materials, total } = await listMaterials(query);
+
+    return NextResponse.json<MaterialListResponse>({
+      success: true,
+      data: materials,
+      total,
+      page: query.page,
+      per_page: query.per_page
+    });
+  } catch (err) {
+    return errorResponse(err, '材料列表');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseJson(request, materialRequestSchema);
+    const { userId } = await auth();
+    const data = await createMaterial(body, userId);
+
+    return NextResponse.json<MaterialResponse>(
+      { success: true, data },
+      { status: 201 }
+    );
+  } catch (err) {
+    return errorResponse(err, '新增材料');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { listSearchLogs, toCsv } from '@/lib/rag/analytics';
+import { errorResponse, parseQuery } from '@/lib/rag/api';
+import { analyticsExportQuerySchema } from '@/lib/rag/schemas';
+
+/**
+ * 匯出區間內的原始搜尋紀錄（CSV）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const range = parseQuery(
+      request.nextUrl.searchParams,
+      analyticsExportQuerySchema
+    );
+    const rows = await listSearchLogs(range);
+    const filename = `search-logs-${range.from.slice(0, 10)}-${range.to.slice(0, 10)}.csv`;
+
+    return new Response(toCsv(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (err) {
+    return errorResponse(err, '匯出搜尋紀錄');
+  }
+}
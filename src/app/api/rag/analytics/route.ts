@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchAnalytics } from '@/lib/rag/analytics';
+import { errorResponse, parseQuery } from '@/lib/rag/api';
+import {
+  analyticsQuerySchema,
+  type AnalyticsResponse
+} from '@/lib/rag/schemas';
+
+/**
+ * 區間內的搜尋總覽、延遲百分位數與查詢排行
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseQuery(
+      request.nextUrl.searchParams,
+      analyticsQuerySchema
+    );
+    const data = await getSearchAnalytics(query);
+
+    return NextResponse.json<AnalyticsResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '搜尋分析');
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase-server';
+import { errorResponse, parseJson, toErrorCode } from '@/lib/rag/api';
+import { DatabaseError } from '@/lib/rag/errors';
+import {
+  CHAT_MODEL,
+  extractCitations,
+  generateAnswer,
+  streamAnswer,
+  type ChatMessage,
+  type Citation,
+  type ContextChunk
+} from '@/lib/rag/generate';
+import { answerRequestSchema, type AnswerResponse } from '@/lib/rag/schemas';
+import { searchRegulations } from '@/lib/rag/search';
+import { encodeEvent, EVENT_STREAM_HEADERS } from '@/lib/rag/sse';
+
+const NO_RESULT_ANSWER = '參考資料中未找到相關規定，請嘗試其他關鍵字。';
+
+/**
+ * 依 id 載入 chunks，並維持傳入的順序（即引用編號順序）
+ */
+async function loadChunks(ids: string[]): Promise<ContextChunk[]> {
+  const { data, error } = await supabase
+    .from('regulations')
+    .select('id, content, source, article_no, chunk_idx')
+    .in('id', ids);
+
+  if (error) throw new DatabaseError(`載入法規失敗: ${error.message}`);
+
+  const byId = new Map<string, ContextChunk>(
+    (data || []).map((row) => [String(row.id), row])
+  );
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * 以 SSE 串流回答：token 逐段送出，新出現的引用標記另以 citation 事件送出
+ *
+ * 事件：token { content }、citation { citation }、done { answer, citations, model }、error { error, code }
+ */
+function streamResponse(
+  query: string,
+  chunks: ContextChunk[],
+  history: ChatMessage[],
+  requestSignal: AbortSignal
+): Response {
+  const upstream = new AbortController();
+  const abort = () => upstream.abort();
+  requestSignal.addEventListener('abort', abort);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let answer = '';
+      const emitted = new Map<number, Citation>();
+
+      try {
+        if (chunks.length === 0) {
+          answer = NO_RESULT_ANSWER;
+          controller.enqueue(encodeEvent('token', { content: answer }));
+        } else {
+          for await (const token of streamAnswer(
+            query,
+            chunks,
+            history,
+            upstream.signal
+          )) {
+            answer += token;
+            controller.enqueue(encodeEvent('token', { content: token }));
+
+            for (const citation of extractCitations(answer, chunks)) {
+              if (emitted.has(citation.marker)) continue;
+              emitted.set(citation.marker, citation);
+              controller.enqueue(encodeEvent('citation', { citation }));
+            }
+          }
+        }
+
+        controller.enqueue(
+          encodeEvent('done', {
+            answer,
+            citations: Array.from(emitted.values()),
+            model: chunks.length > 0 ? CHAT_MODEL : null
+          })
+        );
+      } catch (err) {
+        // 使用者按下停止時上游被中止，不視為錯誤
+        if (!upstream.signal.aborted) {
+          console.error('串流回答錯誤:', err);
+          const message = err instanceof Error ? err.message : '未知錯誤';
+          controller.enqueue(
+            encodeEvent('error', { error: message, code: toErrorCode(err) })
+          );
+        }
+      } finally {
+        requestSignal.removeEventListener('abort', abort);
+        try {
+          controller.close();
+        } catch {
+          // 用戶端已取消串流
+        }
+      }
+    },
+    cancel() {
+      abort();
+    }
+  });
+
+  return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { chunk_ids, stream, ...options } = await parseJson(
+      request,
+      answerRequestSchema
+    );
+    const { query, history } = options;
+
+    // 頁面已完成搜尋時直接帶入 chunk_ids，避免重複檢索
+    let chunks: ContextChunk[];
+    if (chunk_ids && chunk_ids.length > 0) {
+      chunks = await loadChunks(chunk_ids);
+    } else {
+      const outcome = await searchRegulations(options);
+      chunks = outcome.data;
+    }
+
+    if (stream) {
+      return streamResponse(query, chunks, history, request.signal);
+    }
+
+    if (chunks.length === 0) {
+      return NextResponse.json<AnswerResponse>({
+        success: true,
+        data: {
+          answer: NO_RESULT_ANSWER,
+          citations: [],
+          model: null
+        },
+        query
+      });
+    }
+
+    const { answer, citations } = await generateAnswer(query, chunks, history);
+
+    return NextResponse.json<AnswerResponse>({
+      success: true,
+      data: { answer, citations, model: CHAT_MODEL },
+      query
+    });
+  } catch (err) {
+    return errorResponse(err, '回答');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJson } from '@/lib/rag/api';
+import {
+  canEdit,
+  createSessionToken,
+  findApiKeyUser,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE
+} from '@/lib/rag/auth';
+import { errorJson } from '@/lib/rag/errors';
+import { loginRequestSchema, type LoginResponse } from '@/lib/rag/schemas';
+
+/**
+ * 以本地 API key 換取簽章 session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { api_key } = await parseJson(request, loginRequestSchema);
+    const user = findApiKeyUser(api_key);
+
+    if (!user) {
+      return errorJson('UNAUTHORIZED', 'API key 無效');
+    }
+
+    const response = NextResponse.json<LoginResponse>({
+      success: true,
+      data: { user: user.name, role: user.role, can_edit: canEdit(user) }
+    });
+
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_MAX_AGE
+    });
+
+    return response;
+  } catch (err) {
+    return errorResponse(err, '登入');
+  }
+}
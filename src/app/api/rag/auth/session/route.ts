@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticate,
+  canEdit,
+  getAuthConfig,
+  SESSION_COOKIE
+} from '@/lib/rag/auth';
+import type { SessionResponse } from '@/lib/rag/schemas';
+
+/**
+ * 目前的驗證模式與登入身分，供頁面決定是否顯示編輯功能
+ */
+export async function GET(request: NextRequest) {
+  const config = getAuthConfig();
+  const user =
+    config.mode === 'off'
+      ? null
+      : await authenticate(
+          request.headers,
+          request.cookies.get(SESSION_COOKIE)?.value
+        );
+
+  return NextResponse.json<SessionResponse>({
+    success: true,
+    data: {
+      mode: config.mode,
+      user: user?.name ?? null,
+      role: user?.role ?? null,
+      can_edit: canEdit(user, config),
+      public_search: config.publicSearch
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, validate } from '@/lib/rag/api';
+import { restoreChunk } from '@/lib/rag/chunks';
+import { chunkIdSchema, type ChunkResponse } from '@/lib/rag/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(chunkIdSchema, (await context.params).id);
+    const data = await restoreChunk(id);
+
+    return NextResponse.json<ChunkResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '復原 Chunk');
+  }
+}
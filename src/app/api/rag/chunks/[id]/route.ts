@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, validate } from '@/lib/rag/api';
+import { deleteChunk, getChunk, UNDO_WINDOW_MS } from '@/lib/rag/chunks';
+import {
+  chunkIdSchema,
+  type ChunkDeleteResponse,
+  type ChunkResponse
+} from '@/lib/rag/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(chunkIdSchema, (await context.params).id);
+    const data = await getChunk(id);
+
+    return NextResponse.json<ChunkResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, 'Chunk');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(chunkIdSchema, (await context.params).id);
+    const data = await deleteChunk(id);
+
+    return NextResponse.json<ChunkDeleteResponse>({
+      success: true,
+      data,
+      undo_window_ms: UNDO_WINDOW_MS
+    });
+  } catch (err) {
+    return errorResponse(err, '刪除 Chunk');
+  }
+}
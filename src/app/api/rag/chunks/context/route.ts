@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseQuery } from '@/lib/rag/api';
+import { getChunkContext } from '@/lib/rag/chunks';
+import {
+  chunkContextQuerySchema,
+  type ChunkContextResponse
+} from '@/lib/rag/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { source, chunk_idx, before, after } = parseQuery(
+      request.nextUrl.searchParams,
+      chunkContextQuerySchema
+    );
+
+    const data = await getChunkContext({
+      source,
+      chunkIdx: chunk_idx,
+      before,
+      after
+    });
+
+    return NextResponse.json<ChunkContextResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '前後文');
+  }
+}
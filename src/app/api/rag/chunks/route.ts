@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJson, parseQuery } from '@/lib/rag/api';
+import { createChunk, listChunks } from '@/lib/rag/chunks';
+import { normalizeText } from '@/lib/rag/normalize';
+import {
+  chunkCreateRequestSchema,
+  chunkListQuerySchema,
+  type ChunkListResponse,
+  type ChunkResponse
+} from '@/lib/rag/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { page, page_size, source, doc_type } = parseQuery(
+      request.nextUrl.searchParams,
+      chunkListQuerySchema
+    );
+
+    const { data, total } = await listChunks({
+      page,
+      pageSize: page_size,
+      source: source || undefined,
+      docType: doc_type || undefined
+    });
+
+    return NextResponse.json<ChunkListResponse>({
+      success: true,
+      data,
+      total,
+      page,
+      page_size
+    });
+  } catch (err) {
+    return errorResponse(err, 'Chunk 列表');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseJson(request, chunkCreateRequestSchema);
+    const data = await createChunk({
+      ...body,
+      // 與匯入時相同的正規化
+      content: normalizeText(body.content, { multiline: true }).text,
+      doc_type: body.doc_type || null,
+      article_no: body.article_no || null
+    });
+
+    return NextResponse.json<ChunkResponse>(
+      { success: true, data },
+      { status: 201 }
+    );
+  } catch (err) {
+    return errorResponse(err, '新增 Chunk');
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase-server';
+import { errorResponse, parseJson, RagApiError } from '@/lib/rag/api';
+import {
+  embedTexts,
+  getEmbeddingConfig,
+  getEmbeddingProvider,
+  probeEmbeddingDimension,
+  toVectorLiteral
+} from '@/lib/rag/embedding';
+import {
+  getEmbeddingStats,
+  invalidateEmbeddingStats
+} from '@/lib/rag/embedding-stats';
+import { DatabaseError } from '@/lib/rag/errors';
+import {
+  reembedRequestSchema,
+  type EmbeddingStatusResponse,
+  type ReembedResponse
+} from '@/lib/rag/schemas';
+
+/**
+ * 尚未以目標模型產生向量的 chunk（含舊資料的 null）
+ */
+function notOnModel(model: string) {
+  return `embedding_model.is.null,embedding_model.neq."${model.replace(/"/g, '')}"`;
+}
+
+/**
+ * 目前設定的 embedding 模型與資料庫各模型的 chunk 數
+ */
+export async function GET() {
+  try {
+    const config = getEmbeddingConfig();
+    const stats = await getEmbeddingStats({ fresh: true });
+
+    return NextResponse.json<EmbeddingStatusResponse>({
+      success: true,
+      data: {
+        provider: config.provider,
+        model: config.model,
+        dimension: config.dimension,
+        stats
+      }
+    });
+  } catch (err) {
+    return errorResponse(err, '向量統計');
+  }
+}
+
+/**
+ * 以指定模型重新生成一批 chunk 的向量
+ *
+ * 每次只處理一批尚未使用目標模型的 chunk，前端重複呼叫直到 remaining 為 0；
+ * 中斷後再次呼叫即從剩下的 chunk 繼續
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { model, dimension, batch_size } = await parseJson(
+      request,
+      reembedRequestSchema
+    );
+
+    // EMBEDDING_DIMENSION 即資料庫 vector 欄位的維度，欄位維度固定不隨模型改變
+    const current = getEmbeddingConfig();
+    const provider = getEmbeddingProvider({ ...current, model });
+
+    // hash 等提供者不依 model 產生向量，標記為 model 會與實際向量不符
+    if (provider.model !== model) {
+      throw new RagApiError(
+        'VALIDATION_ERROR',
+        `${provider.name} 提供者無法產生 ${model} 的向量，只能使用 ${provider.model}`
+      );
+    }
+    const targetDimension =
+      dimension ??
+      (model === current.model
+        ? current.dimension
+        : await probeEmbeddingDimension(provider));
+
+    if (targetDimension !== current.dimension) {
+      throw new RagApiError(
+        'EMBEDDING_DIMENSION_MISMATCH',
+        `${model} 輸出 ${targetDimension} 維向量，但資料庫 regulations.embedding 欄位為 vector(${current.dimension})；請先以 migration 將欄位改為 vector(${targetDimension}) 並重建向量索引，再將 EMBEDDING_DIMENSION 設為 ${targetDimension}`
+      );
+    }
+
+    const config = { ...current, model, dimension: targetDimension };
+
+    const { data: rows, error } = await supabase
+      .from('regulations')
+      .select('id, content')
+      .or(notOnModel(config.model))
+      .order('id')
+      .limit(batch_size);
+
+    if (error) throw new DatabaseError(`讀取資料失敗: ${error.message}`);
+
+    let processed = 0;
+
+    if (rows && rows.length > 0) {
+      const embeddings = await embedTexts(
+        rows.map((row) => row.content),
+        provider,
+        config
+      );
+
+      const results = await Promise.all(
+        rows.map((row, i) =>
+          supabase
+            .from('regulations')
+            .update({
+              embedding: toVectorLiteral(embeddings[i]),
+              embedding_model: provider.model,
+              embedding_dim: embeddings[i].length
+            })
+            .eq('id', row.id)
+        )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed?.error) {
+        throw new DatabaseError(`更新向量失敗: ${failed.error.message}`);
+      }
+
+      processed = rows.length;
+      invalidateEmbeddingStats();
+    }
+
+    const [remainingResult, totalResult] = await Promise.all([
+      supabase
+        .from('regulations')
+        .select('id', { count: 'exact', head: true })
+        .or(notOnModel(config.model)),
+      supabase.from('regulations').select('id', { count: 'exact', head: true })
+    ]);
+
+    const countError = remainingResult.error || totalResult.error;
+    if (countError) {
+      throw new DatabaseError(`統計剩餘數量失敗: ${countError.message}`);
+    }
+
+    const remaining = remainingResult.count ?? 0;
+
+    return NextResponse.json<ReembedResponse>({
+      success: true,
+      data: {
+        model: config.model,
+        dimension: config.dimension,
+        processed,
+        remaining,
+        total: totalResult.count ?? 0,
+        done: remaining === 0
+      }
+    });
+  } catch (err) {
+    return errorResponse(err, '重新生成向量');
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, validate } from '@/lib/rag/api';
+import { getRequestUser } from '@/lib/rag/auth';
+import { resolveFeedback } from '@/lib/rag/feedback';
+import { feedbackIdSchema, type FeedbackResponse } from '@/lib/rag/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(feedbackIdSchema, (await context.params).id);
+    const data = await resolveFeedback(id, getRequestUser(request.headers));
+
+    return NextResponse.json<FeedbackResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '處理回饋');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJson, parseQuery } from '@/lib/rag/api';
+import { getRequestUser } from '@/lib/rag/auth';
+import { createFeedback, listNegativeFeedback } from '@/lib/rag/feedback';
+import {
+  feedbackCreateRequestSchema,
+  feedbackListQuerySchema,
+  type FeedbackListResponse,
+  type FeedbackResponse
+} from '@/lib/rag/schemas';
+
+/**
+ * 負面回饋的審核佇列
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { status, page, page_size } = parseQuery(
+      request.nextUrl.searchParams,
+      feedbackListQuerySchema
+    );
+
+    const { data, total } = await listNegativeFeedback({
+      status,
+      page,
+      pageSize: page_size
+    });
+
+    return NextResponse.json<FeedbackListResponse>({
+      success: true,
+      data,
+      total,
+      page,
+      page_size
+    });
+  } catch (err) {
+    return errorResponse(err, '回饋列表');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseJson(request, feedbackCreateRequestSchema);
+    const data = await createFeedback({
+      ...body,
+      user_name: getRequestUser(request.headers)
+    });
+
+    return NextResponse.json<FeedbackResponse>(
+      { success: true, data },
+      { status: 201 }
+    );
+  } catch (err) {
+    return errorResponse(err, '回饋');
+  }
+}
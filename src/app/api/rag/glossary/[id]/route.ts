@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJson, validate } from '@/lib/rag/api';
+import { getRequestUser } from '@/lib/rag/auth';
+import { deleteGlossaryTerm, updateGlossaryTerm } from '@/lib/rag/glossary';
+import {
+  glossaryIdSchema,
+  glossaryTermRequestSchema,
+  type GlossaryDeleteResponse,
+  type GlossaryTermResponse
+} from '@/lib/rag/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(glossaryIdSchema, (await context.params).id);
+    const body = await parseJson(request, glossaryTermRequestSchema);
+    const data = await updateGlossaryTerm(id, {
+      ...body,
+      updated_by: getRequestUser(request.headers)
+    });
+
+    return NextResponse.json<GlossaryTermResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '更新詞彙');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const id = validate(glossaryIdSchema, (await context.params).id);
+    const data = await deleteGlossaryTerm(id);
+
+    return NextResponse.json<GlossaryDeleteResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '刪除詞彙');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseQuery } from '@/lib/rag/api';
+import { expandQuery, listGlossaryTerms } from '@/lib/rag/glossary';
+import {
+  glossaryPreviewQuerySchema,
+  type GlossaryPreviewResponse
+} from '@/lib/rag/schemas';
+
+// 以目前的詞彙表試算查詢改寫結果，不執行搜尋
+export async function GET(request: NextRequest) {
+  try {
+    const { query } = parseQuery(
+      request.nextUrl.searchParams,
+      glossaryPreviewQuerySchema
+    );
+    const data = expandQuery(query, await listGlossaryTerms({ fresh: true }));
+
+    return NextResponse.json<GlossaryPreviewResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '詞彙改寫預覽');
+  }
+}
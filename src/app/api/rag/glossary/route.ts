@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJson } from '@/lib/rag/api';
+import { getRequestUser } from '@/lib/rag/auth';
+import { createGlossaryTerm, listGlossaryTerms } from '@/lib/rag/glossary';
+import {
+  glossaryTermRequestSchema,
+  type GlossaryListResponse,
+  type GlossaryTermResponse
+} from '@/lib/rag/schemas';
+
+export async function GET() {
+  try {
+    const data = await listGlossaryTerms({ fresh: true });
+
+    return NextResponse.json<GlossaryListResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '詞彙表');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseJson(request, glossaryTermRequestSchema);
+    const data = await createGlossaryTerm({
+      ...body,
+      updated_by: getRequestUser(request.headers)
+    });
+
+    return NextResponse.json<GlossaryTermResponse>(
+      { success: true, data },
+      { status: 201 }
+    );
+  } catch (err) {
+    return errorResponse(err, '新增詞彙');
+  }
+}
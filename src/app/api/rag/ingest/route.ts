@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase-server';
+import { errorResponse, RagApiError, validate } from '@/lib/rag/api';
+import { chunkRegulation } from '@/lib/rag/article-chunker';
+import {
+  embedTexts,
+  getEmbeddingProvider,
+  toVectorLiteral
+} from '@/lib/rag/embedding';
+import { invalidateEmbeddingStats } from '@/lib/rag/embedding-stats';
+import { DatabaseError } from '@/lib/rag/errors';
+import { extractText } from '@/lib/rag/extract';
+import { normalizeText } from '@/lib/rag/normalize';
+import { ingestFormSchema, type IngestResponse } from '@/lib/rag/schemas';
+
+export const runtime = 'nodejs';
+
+// 每批寫入 Supabase 的 chunk 數量
+const BATCH_SIZE = 16;
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// 以 id 刪除時每批的數量，避免 URL 過長
+const DELETE_BATCH_SIZE = 200;
+
+async function listSourceIds(source: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('regulations')
+    .select('id')
+    .eq('source', source);
+
+  if (error) throw new DatabaseError(`讀取既有資料失敗: ${error.message}`);
+  return (data || []).map((row) => String(row.id));
+}
+
+async function deleteByIds(ids: string[]) {
+  for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('regulations')
+      .delete()
+      .in('id', ids.slice(i, i + DELETE_BATCH_SIZE));
+
+    if (error) throw new DatabaseError(`刪除舊資料失敗: ${error.message}`);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData().catch(() => {
+      throw new RagApiError(
+        'VALIDATION_ERROR',
+        '請以 multipart/form-data 上傳檔案'
+      );
+    });
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      throw new RagApiError('VALIDATION_ERROR', '缺少上傳檔案', [
+        { path: 'file', message: '缺少上傳檔案' }
+      ]);
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      throw new RagApiError('FILE_TOO_LARGE', '檔案超過 20MB 上限');
+    }
+
+    const fields = validate(ingestFormSchema, {
+      source: formData.get('source') ?? undefined,
+      doc_type: formData.get('doc_type') ?? undefined,
+      tags: formData.get('tags') ?? undefined,
+      effective_date: formData.get('effective_date') ?? undefined,
+      replace: formData.get('replace') ?? undefined
+    });
+    const source = fields.source || file.name.replace(/\.[^.]+$/, '');
+    const docType = fields.doc_type || null;
+    const replaceExisting = fields.replace;
+    // 標籤與施行日期套用到整份文件的每個 chunk，供搜尋篩選
+    const documentMetadata = {
+      ...(fields.tags.length > 0 && { tags: fields.tags }),
+      ...(fields.effective_date && { effective_date: fields.effective_date })
+    };
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const extracted = await extractText(file.name, file.type, buffer);
+    // 與搜尋查詢相同的正規化，讓兩邊寫法一致
+    const { text, rules } = normalizeText(extracted.text, { multiline: true });
+
+    if (!text) {
+      throw new RagApiError('EMPTY_DOCUMENT', '無法從檔案擷取文字內容');
+    }
+
+    const chunks = chunkRegulation(text);
+
+    // 同來源已有資料時必須選擇取代，否則 chunk_idx 會重複
+    const oldIds = await listSourceIds(source);
+    if (oldIds.length > 0 && !replaceExisting) {
+      throw new RagApiError(
+        'CONFLICT',
+        `來源「${source}」已有 ${oldIds.length} 個 chunk，請選擇取代舊資料或改用其他來源名稱`
+      );
+    }
+
+    // 先完成所有向量生成，Ollama 失敗時不會動到既有資料
+    const provider = getEmbeddingProvider();
+    const rows = [];
+
+    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+      const batch = chunks.slice(i, i + BATCH_SIZE);
+      const embeddings = await embedTexts(
+        batch.map((chunk) => chunk.content),
+        provider
+      );
+
+      rows.push(
+        ...batch.map((chunk, j) => ({
+          content: chunk.content,
+          source,
+          chunk_idx: chunk.chunk_idx,
+          article_no: chunk.article_no,
+          doc_type: docType,
+          metadata: { ...chunk.metadata, ...documentMetadata },
+          embedding: toVectorLiteral(embeddings[j]),
+          embedding_model: provider.model,
+          embedding_dim: embeddings[j].length
+        }))
+      );
+    }
+
+    // 寫入新資料；中途失敗時移除已寫入的部分，舊資料保持不變
+    const newIds: string[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('regulations')
+        .insert(rows.slice(i, i + BATCH_SIZE))
+        .select('id');
+
+      if (error) {
+        await deleteByIds(newIds).catch((cleanupErr) =>
+          console.error('清除未完成的匯入資料失敗:', cleanupErr)
+        );
+        throw new DatabaseError(`寫入失敗，已還原本次匯入: ${error.message}`);
+      }
+
+      newIds.push(...(data || []).map((row) => String(row.id)));
+    }
+
+    // 新資料完整寫入後才移除舊資料
+    await deleteByIds(oldIds);
+    const inserted = newIds.length;
+
+    invalidateEmbeddingStats();
+
+    return NextResponse.json<IngestResponse>({
+      success: true,
+      data: {
+        source,
+        doc_type: docType,
+        format: extracted.format,
+        chunk_count: chunks.length,
+        article_count: new Set(
+          chunks.map((chunk) => chunk.article_no).filter(Boolean)
+        ).size,
+        inserted,
+        replaced: oldIds.length > 0,
+        normalization_rules: rules
+      }
+    });
+  } catch (err) {
+    return errorResponse(err, '匯入');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseJson, RagApiError } from '@/lib/rag/api';
+import { getRequestUser } from '@/lib/rag/auth';
+import { getRevision, updateRegulationContent } from '@/lib/rag/revisions';
+import { restoreRequestSchema, type RestoreResponse } from '@/lib/rag/schemas';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { revision_id, editor } = await parseJson(
+      request,
+      restoreRequestSchema
+    );
+
+    const revision = await getRevision(revision_id);
+
+    if (!revision) {
+      throw new RagApiError('NOT_FOUND', '找不到修訂紀錄');
+    }
+
+    // 還原也會先保存目前內容，所以還原本身可以再被還原
+    const data = await updateRegulationContent({
+      id: revision.regulation_id,
+      content: revision.content,
+      // 啟用驗證時以登入身分為準，否則才採用請求帶入的名稱
+      editor: getRequestUser(request.headers) ?? editor ?? null,
+      action: 'restore'
+    });
+
+    return NextResponse.json<RestoreResponse>({
+      success: true,
+      data,
+      restored_from: revision.id
+    });
+  } catch (err) {
+    return errorResponse(err, '還原');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseQuery } from '@/lib/rag/api';
+import { listRevisions } from '@/lib/rag/revisions';
+import {
+  revisionListQuerySchema,
+  type RevisionListResponse
+} from '@/lib/rag/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { regulation_id } = parseQuery(
+      request.nextUrl.searchParams,
+      revisionListQuerySchema
+    );
+    const data = await listRevisions(regulation_id);
+
+    return NextResponse.json<RevisionListResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '修訂紀錄');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, parseQuery } from '@/lib/rag/api';
+import { getSourceDocument } from '@/lib/rag/sources';
+import {
+  sourceDocumentQuerySchema,
+  type SourceDocumentResponse
+} from '@/lib/rag/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { source } = parseQuery(
+      request.nextUrl.searchParams,
+      sourceDocumentQuerySchema
+    );
+    const data = await getSourceDocument(source);
+
+    return NextResponse.json<SourceDocumentResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '文件');
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/rag/api';
+import { listSources } from '@/lib/rag/sources';
+import type { SourceListResponse } from '@/lib/rag/schemas';
+
+export async function GET() {
+  try {
+    const data = await listSources();
+
+    return NextResponse.json<SourceListResponse>({ success: true, data });
+  } catch (err) {
+    return errorResponse(err, '來源清單');
+  }
+}
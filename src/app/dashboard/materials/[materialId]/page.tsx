@@ -0,0 +1,23 @@
+import FormCardSkeleton from '@/components/form-card-skeleton';
+import PageContainer from '@/components/layout/page-container';
+import { Suspense } from 'react';
+import MaterialViewPage from '@/features/materials/components/material-view-page';
+
+export const metadata = {
+  title: 'Dashboard : 材料'
+};
+
+type PageProps = { params: Promise<{ materialId: string }> };
+
+export default async function Page(props: PageProps) {
+  const params = await props.params;
+  return (
+    <PageContainer scrollable>
+      <div className='flex-1 space-y-4'>
+        <Suspense fallback={<FormCardSkeleton />}>
+          <MaterialViewPage materialId={params.materialId} />
+        </Suspense>
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,47 @@
+import PageContainer from '@/components/layout/page-container';
+import { buttonVariants } from '@/components/ui/button';
+import { DataTableSkeleton } from '@/components/ui/table/data-table-skeleton';
+import MaterialListingPage from '@/features/materials/components/material-listing';
+import { searchParamsCache } from '@/lib/searchparams';
+import { cn } from '@/lib/utils';
+import { IconPlus } from '@tabler/icons-react';
+import Link from 'next/link';
+import { SearchParams } from 'nuqs/server';
+import { Suspense } from 'react';
+
+export const metadata = {
+  title: 'Dashboard : 材料'
+};
+
+type pageProps = {
+  searchParams: Promise<SearchParams>;
+};
+
+export default async function Page(props: pageProps) {
+  const searchParams = await props.searchParams;
+  searchParamsCache.parse(searchParams);
+
+  return (
+    <PageContainer
+      scrollable={false}
+      pageTitle='材料'
+      pageDescription='管理材料單價與規格，可依分類、電壓與單價範圍篩選'
+      pageHeaderAction={
+        <Link
+          href='/dashboard/materials/new'
+          className={cn(buttonVariants(), 'text-xs md:text-sm')}
+        >
+          <IconPlus className='mr-2 h-4 w-4' /> 新增材料
+        </Link>
+      }
+    >
+      <Suspense
+        fallback={
+          <DataTableSkeleton columnCount={7} rowCount={10} filterCount={4} />
+        }
+      >
+        <MaterialListingPage />
+      </Suspense>
+    </PageContainer>
+  );
+}
@@ -8,6 +8,7 @@ import {
   CardAction,
   CardFooter
 } from '@/components/ui/card';
+import { PriceAlertSummary } from '@/features/materials/components/price-alert-summary';
 import { IconTrendingDown, IconTrendingUp } from '@tabler/icons-react';
 import React from 'react';
 
@@ -31,6 +32,8 @@ export default function OverViewLayout({
           </h2>
         </div>
 
+        <PriceAlertSummary />
+
         <div className='*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs md:grid-cols-2 lg:grid-cols-4'>
           <Card className='@container/card'>
             <CardHeader>
@@ -0,0 +1,17 @@
+import PageContainer from '@/components/layout/page-container';
+import { GlossaryEditor } from '@/features/rag/components/glossary-editor';
+
+export const metadata = {
+  title: 'Dashboard : 詞彙表'
+};
+
+export default function Page() {
+  return (
+    <PageContainer
+      pageTitle='詞彙表'
+      pageDescription='維護現場用語與法規用語的對應，搜尋時自動改寫查詢'
+    >
+      <GlossaryEditor />
+    </PageContainer>
+  );
+}
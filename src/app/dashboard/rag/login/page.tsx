@@ -0,0 +1,19 @@
+import { Suspense } from 'react';
+import PageContainer from '@/components/layout/page-container';
+import { LoginForm } from '@/features/rag/components/login-form';
+
+export const metadata = {
+  title: 'Dashboard : RAG 登入'
+};
+
+export default function Page() {
+  return (
+    <PageContainer>
+      <div className='flex flex-1 items-center justify-center py-12'>
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </PageContainer>
+  );
+}
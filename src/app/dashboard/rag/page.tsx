@@ -1,84 +1,112 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import PageContainer from '@/components/layout/page-container';
 import { Badge } from '@/components/ui/badge';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Card,
   CardHeader,
   CardTitle,
   CardDescription,
-  CardContent,
-  CardFooter
+  CardContent
 } from '@/components/ui/card';
+import { IconDatabase, IconAlertCircle } from '@tabler/icons-react';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { IngestPanel } from '@/features/rag/components/ingest-panel';
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle
-} from '@/components/ui/dialog';
+  ReembedPanel,
+  type EmbeddingStatus
+} from '@/features/rag/components/reembed-panel';
+import { ChatPanel } from '@/features/rag/components/chat-panel';
+import { SessionBadge } from '@/features/rag/components/session-badge';
+import { SearchAnalytics } from '@/features/rag/components/search-analytics';
+import { FeedbackQueue } from '@/features/rag/components/feedback-queue';
+import { ArticleReaderSheet } from '@/features/rag/components/chunk-context';
+import { SearchFilterSidebar } from '@/features/rag/components/search-filter-sidebar';
+import { SearchForm } from '@/features/rag/components/search-form';
+import { AnswerCard } from '@/features/rag/components/answer-card';
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow
-} from '@/components/ui/table';
+  SearchResultList,
+  type NewChunkDefaults
+} from '@/features/rag/components/search-result-list';
+import { MatchedMaterials } from '@/features/rag/components/matched-materials';
 import {
-  IconSearch,
-  IconDatabase,
-  IconFileText,
-  IconBolt,
-  IconLoader2,
-  IconAlertCircle,
-  IconPencil,
-  IconCheck,
-  IconX
-} from '@tabler/icons-react';
-import { supabase } from '@/lib/supabase';
-
-interface SearchResult {
-  id: string;
-  content: string;
-  source: string;
-  similarity: number;
-  article_no?: string;
-  chunk_idx?: number;
-  doc_type?: string;
-}
-
-interface Material {
-  id: string;
-  name: string;
-  unit: string;
-  price: number;
-  spec?: string;
-}
+  RecentMaterials,
+  type RecentMaterial
+} from '@/features/rag/components/recent-materials';
+import { ChunkEditDialog } from '@/features/rag/components/chunk-edit-dialog';
+import { DeleteChunkDialog } from '@/features/rag/components/delete-chunk-dialog';
+import {
+  NewChunkDialog,
+  type CreatedChunk
+} from '@/features/rag/components/new-chunk-dialog';
+import { useSearchFilters } from '@/features/rag/hooks/use-search-filters';
+import { useAnswerStream } from '@/features/rag/hooks/use-answer-stream';
+import type { RagSession, SearchMode, SearchResult } from '@/types/rag';
+import { ragClient } from '@/lib/rag/client';
+import { parseQuantities, quantityKey } from '@/lib/rag/query-parser';
+import type {
+  Facets,
+  MatchedMaterial,
+  QueryExpansion,
+  TextNormalization
+} from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { toSearchResults } from '@/features/rag/utils/search-results';
 
 export default function RAGPage() {
   const [query, setQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<SearchMode>('hybrid');
+  const [useRerank, setUseRerank] = useState(false);
+  const [useFeedbackBoost, setUseFeedbackBoost] = useState(false);
+  // 目前結果對應的查詢（輸入框內容可能已被修改），回饋依此記錄
+  const [searchedQuery, setSearchedQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [results, setResults] = useState<SearchResult[]>([]);
-  const [answer, setAnswer] = useState('');
-  const [materials, setMaterials] = useState<Material[]>([]);
+  // 篩選條件保存在網址，分面計數來自最近一次搜尋
+  const {
+    filters,
+    setFilters,
+    request: filterRequest,
+    activeCount: activeFilterCount,
+    resetFilters
+  } = useSearchFilters();
+  const [facets, setFacets] = useState<Facets | null>(null);
+  const [queryExpansion, setQueryExpansion] = useState<QueryExpansion | null>(
+    null
+  );
+  const [textNormalization, setTextNormalization] =
+    useState<TextNormalization | null>(null);
+  // 使用者從解析規格中移除的項目（quantityKey）
+  const [removedQuantities, setRemovedQuantities] = useState<string[]>([]);
+  const [matchedMaterials, setMatchedMaterials] = useState<MatchedMaterial[]>(
+    []
+  );
+  const searchSeqRef = useRef(0);
+  const answer = useAnswerStream();
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // 條文閱讀側欄
+  const [readerItem, setReaderItem] = useState<SearchResult | null>(null);
+  const [materials, setMaterials] = useState<RecentMaterial[]>([]);
   const [stats, setStats] = useState({ regulations: 0, materials: 0 });
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [embeddingStatus, setEmbeddingStatus] =
+    useState<EmbeddingStatus | null>(null);
 
-  // 編輯狀態
+  // 本地驗證身分；驗證關閉時 can_edit 恆為 true
+  const [session, setSession] = useState<RagSession | null>(null);
+  const canEditData = session?.can_edit ?? false;
+  // 開放搜尋時未登入的訪客不能送出回饋
+  const canSendFeedback = session?.mode === 'off' || Boolean(session?.user);
+
+  // 編輯、刪除與新增 chunk
   const [editingItem, setEditingItem] = useState<SearchResult | null>(null);
-  const [editContent, setEditContent] = useState('');
-  const [isSaving, setIsSaving] = useState(false);
-  const [saveMessage, setSaveMessage] = useState<{
-    type: 'success' | 'error';
-    text: string;
-  } | null>(null);
+  const [deletingItem, setDeletingItem] = useState<SearchResult | null>(null);
+  const [newChunkDefaults, setNewChunkDefaults] =
+    useState<NewChunkDefaults | null>(null);
 
   // 載入統計和材料資料
   useEffect(() => {
@@ -88,7 +116,11 @@ export default function RAGPage() {
           supabase
             .from('regulations')
             .select('id', { count: 'exact', head: true }),
-          supabase.from('materials').select('*').limit(10)
+          supabase
+            .from('materials')
+            .select('*', { count: 'exact' })
+            .order('updated_at', { ascending: false })
+            .limit(10)
         ]);
 
         if (regResult.error) throw regResult.error;
@@ -96,7 +128,7 @@ export default function RAGPage() {
 
         setStats({
           regulations: regResult.count || 0,
-          materials: matResult.data?.length || 0
+          materials: matResult.count || 0
         });
         setMaterials(matResult.data || []);
         setIsConnected(true);
@@ -107,137 +139,166 @@ export default function RAGPage() {
       }
     }
     loadData();
+    loadEmbeddingStatus();
+    loadSession();
   }, []);
 
+  const loadSession = async () => {
+    try {
+      const { data } = await ragClient.auth.session();
+      setSession(data);
+    } catch (err) {
+      console.error('載入登入狀態錯誤:', err);
+    }
+  };
+
+  // 載入目前 embedding 模型與各模型的 chunk 數
+  const loadEmbeddingStatus = async () => {
+    try {
+      const { data } = await ragClient.embeddings.status();
+      setEmbeddingStatus(data);
+    } catch (err) {
+      console.error('載入向量統計錯誤:', err);
+    }
+  };
+
+  // 資料庫中有其他模型產生的向量時，向量搜尋會被拒絕
+  const hasModelMismatch =
+    !!embeddingStatus &&
+    embeddingStatus.stats.some(
+      (s) =>
+        s.embedding_model !== embeddingStatus.model ||
+        s.embedding_dim !== embeddingStatus.dimension
+    );
+
   // 向量搜尋
-  const handleSearch = async () => {
-    if (!query.trim()) return;
+  const handleSearch = async (searchText = query) => {
+    if (!searchText.trim()) return;
 
+    // 篩選連續變更時只採用最後一次搜尋的結果
+    const seq = ++searchSeqRef.current;
+    answer.reset();
     setIsSearching(true);
+    setSearchedQuery(searchText);
     setError(null);
     setResults([]);
-    setAnswer('');
+    setHighlightedId(null);
+    setQueryExpansion(null);
+    setTextNormalization(null);
+    setMatchedMaterials([]);
 
     try {
-      const response = await fetch('/api/rag/search', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          query,
-          match_count: 5,
-          match_threshold: 0.0
-        })
+      const result = await ragClient.search({
+        ...filterRequest,
+        query: searchText,
+        match_count: 5,
+        match_threshold: 0.0,
+        mode: searchMode,
+        rerank: useRerank,
+        feedback_boost: useFeedbackBoost,
+        quantities: parseQuantities(searchText).filter(
+          (q) => !removedQuantities.includes(quantityKey(q))
+        )
       });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || '搜尋失敗');
+      if (seq !== searchSeqRef.current) return;
+
+      setFacets(result.facets);
+      setQueryExpansion(result.query_expansion);
+      setTextNormalization(result.text_normalization);
+      setMatchedMaterials(result.materials ?? []);
+      if (result.rerank_error) {
+        setError(`重新排序失敗，已使用原始排序：${result.rerank_error}`);
       }
 
-      if (result.data && result.data.length > 0) {
-        const formattedResults: SearchResult[] = result.data.map(
-          (item: any) => ({
-            id: item.id,
-            content: item.content,
-            source: item.source || '法規資料庫',
-            similarity: item.similarity || 0,
-            article_no: item.article_no,
-            chunk_idx: item.chunk_idx,
-            doc_type: item.doc_type
-          })
-        );
+      if (result.data.length > 0) {
+        const formattedResults = toSearchResults(result.data);
 
         setResults(formattedResults);
-
-        const topResult = formattedResults[0];
-        setAnswer(
-          `根據搜尋結果，${topResult.content}\n\n（來源：${topResult.source}${topResult.article_no ? ` ${topResult.article_no}` : ''}，相似度 ${(topResult.similarity * 100).toFixed(0)}%）`
-        );
+        answer.generate(searchText, formattedResults);
       } else {
-        setAnswer('未找到相關結果，請嘗試其他關鍵字。');
+        answer.reset('未找到相關結果，請嘗試其他關鍵字。');
       }
     } catch (err) {
+      if (seq !== searchSeqRef.current) return;
       console.error('搜尋錯誤:', err);
-      const message = err instanceof Error ? err.message : '搜尋失敗';
+      const message = getErrorMessage(err, '搜尋失敗');
       setError(
-        `搜尋失敗：${message}。請確認 Ollama 已啟動且 bge-m3 模型已安裝。`
+        `搜尋失敗：${message}。請確認 Ollama 已啟動且 ${embeddingStatus?.model ?? 'embedding'} 模型已安裝。`
       );
     } finally {
-      setIsSearching(false);
+      if (seq === searchSeqRef.current) setIsSearching(false);
     }
   };
 
-  // 開啟編輯對話框
-  const handleEdit = (item: SearchResult) => {
-    setEditingItem(item);
-    setEditContent(item.content);
-    setSaveMessage(null);
-  };
+  // 已有搜尋結果時，篩選變更後自動重新搜尋（稍作延遲，避免輸入條號時每個字都搜尋）
+  const filterKey = JSON.stringify(filterRequest);
+  const removedKey = removedQuantities.join(',');
+  useEffect(() => {
+    if (!searchedQuery) return;
+    const timer = setTimeout(() => handleSearch(searchedQuery), 400);
+    return () => clearTimeout(timer);
+  }, [filterKey, removedKey]);
+
+  // 搜尋框下方即時顯示解析出的規格
+  const activeQuantities = useMemo(
+    () =>
+      parseQuantities(query).filter(
+        (q) => !removedQuantities.includes(quantityKey(q))
+      ),
+    [query, removedQuantities]
+  );
 
-  // 關閉編輯對話框
-  const handleCloseEdit = () => {
-    setEditingItem(null);
-    setEditContent('');
-    setSaveMessage(null);
+  // 儲存或還原後同步本地的搜尋結果
+  const handleContentChange = (id: string, content: string) => {
+    setResults((prev) =>
+      prev.map((r) => (r.id === id ? { ...r, content } : r))
+    );
   };
 
-  // 儲存編輯
-  const handleSave = async () => {
-    if (!editingItem || !editContent.trim()) return;
-
-    setIsSaving(true);
-    setSaveMessage(null);
-
-    try {
-      const response = await fetch('/api/rag/update', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          id: editingItem.id,
-          content: editContent,
-          regenerate_embedding: true
-        })
-      });
+  // 刪除後提供限時復原
+  const handleDeleted = (item: SearchResult, undoWindowMs: number) => {
+    const position = results.findIndex((r) => r.id === item.id);
 
-      const result = await response.json();
+    setResults((prev) => prev.filter((r) => r.id !== item.id));
+    setStats((prev) => ({ ...prev, regulations: prev.regulations - 1 }));
 
-      if (!response.ok) {
-        throw new Error(result.error || '儲存失敗');
+    toast('已刪除 chunk', {
+      description: `${item.source}${item.article_no ? ` ${item.article_no}` : ''}`,
+      // 比伺服器端的復原期限短一些，避免按下時剛好過期
+      duration: Math.max(undoWindowMs - 3000, 3000),
+      action: {
+        label: '復原',
+        onClick: () => handleUndoDelete(item, position)
       }
+    });
+  };
 
-      // 更新本地狀態
-      setResults((prev) =>
-        prev.map((r) =>
-          r.id === editingItem.id ? { ...r, content: editContent } : r
-        )
-      );
-
-      // 如果是第一筆結果，也更新 answer
-      if (results[0]?.id === editingItem.id) {
-        setAnswer(
-          `根據搜尋結果，${editContent}\n\n（來源：${editingItem.source}${editingItem.article_no ? ` ${editingItem.article_no}` : ''}，相似度 ${(editingItem.similarity * 100).toFixed(0)}%）`
-        );
-      }
+  const handleUndoDelete = async (item: SearchResult, position: number) => {
+    try {
+      await ragClient.chunks.restore(item.id);
 
-      setSaveMessage({
-        type: 'success',
-        text: '儲存成功！已重新生成 embedding 向量。'
+      // 放回原本的位置
+      setResults((prev) => {
+        const next = [...prev];
+        next.splice(Math.min(position, next.length), 0, item);
+        return next;
       });
-
-      // 2 秒後關閉對話框
-      setTimeout(() => {
-        handleCloseEdit();
-      }, 1500);
+      setStats((prev) => ({ ...prev, regulations: prev.regulations + 1 }));
+      toast.success('已復原 chunk');
     } catch (err) {
-      console.error('儲存錯誤:', err);
-      const message = err instanceof Error ? err.message : '儲存失敗';
-      setSaveMessage({ type: 'error', text: message });
-    } finally {
-      setIsSaving(false);
+      console.error('復原錯誤:', err);
+      toast.error(getErrorMessage(err, '復原失敗'));
     }
   };
 
+  const handleCreated = (chunk: CreatedChunk) => {
+    setStats((prev) => ({ ...prev, regulations: prev.regulations + 1 }));
+    loadEmbeddingStatus();
+    toast.success('已新增 chunk', {
+      description: `${chunk.source}（第 ${(chunk.chunk_idx ?? 0) + 1} 段）`
+    });
+  };
+
   return (
     <PageContainer>
       <div className='flex flex-1 flex-col space-y-4'>
@@ -249,13 +310,16 @@ export default function RAGPage() {
             </h2>
             <p className='text-muted-foreground'>搜尋電氣法規與材料資料</p>
           </div>
-          <Badge
-            variant={isConnected ? 'outline' : 'destructive'}
-            className='gap-1'
-          >
-            <IconDatabase className='size-3' />
-            {isConnected ? 'Supabase 已連線' : 'Supabase 未連線'}
-          </Badge>
+          <div className='flex items-center gap-2'>
+            <SessionBadge session={session} onLogout={loadSession} />
+            <Badge
+              variant={isConnected ? 'outline' : 'destructive'}
+              className='gap-1'
+            >
+              <IconDatabase className='size-3' />
+              {isConnected ? 'Supabase 已連線' : 'Supabase 未連線'}
+            </Badge>
+          </div>
         </div>
 
         {/* 錯誤提示 */}
@@ -285,238 +349,182 @@ export default function RAGPage() {
           <Card>
             <CardHeader className='pb-2'>
               <CardDescription>向量維度</CardDescription>
-              <CardTitle className='text-2xl'>1024</CardTitle>
+              <CardTitle className='text-2xl'>
+                {embeddingStatus?.dimension ?? '-'}
+              </CardTitle>
             </CardHeader>
           </Card>
           <Card>
             <CardHeader className='pb-2'>
               <CardDescription>Embedding 模型</CardDescription>
-              <CardTitle className='text-lg'>bge-m3</CardTitle>
+              <CardTitle className='flex items-center gap-2 text-lg'>
+                {embeddingStatus?.model ?? '-'}
+                {hasModelMismatch && (
+                  <Badge variant='destructive'>與資料不一致</Badge>
+                )}
+              </CardTitle>
             </CardHeader>
           </Card>
         </div>
 
-        {/* 搜尋區 */}
-        <Card>
-          <CardHeader>
-            <CardTitle className='flex items-center gap-2'>
-              <IconSearch className='size-5' />
-              語意搜尋
-            </CardTitle>
-            <CardDescription>
-              輸入問題，系統將從法規與材料庫中搜尋相關內容
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className='flex gap-4'>
-              <Input
-                placeholder='例如：2.0mm² 電線的安培容量是多少？'
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                className='flex-1'
-                disabled={!isConnected}
+        {/* 搜尋／對話模式 */}
+        <Tabs defaultValue='search' className='space-y-4'>
+          <TabsList>
+            <TabsTrigger value='search'>單次搜尋</TabsTrigger>
+            <TabsTrigger value='chat'>對話</TabsTrigger>
+            {canEditData && (
+              <>
+                <TabsTrigger value='analytics'>搜尋分析</TabsTrigger>
+                <TabsTrigger value='feedback'>回饋審核</TabsTrigger>
+              </>
+            )}
+          </TabsList>
+
+          <TabsContent value='search'>
+            <div className='grid grid-cols-1 items-start gap-4 lg:grid-cols-[16rem_1fr]'>
+              <SearchFilterSidebar
+                filters={filters}
+                onFiltersChange={setFilters}
+                onReset={resetFilters}
+                activeCount={activeFilterCount}
+                facets={facets}
               />
-              <Button
-                onClick={handleSearch}
-                disabled={isSearching || !isConnected}
-              >
-                {isSearching ? (
-                  <IconLoader2 className='size-4 animate-spin' />
-                ) : (
-                  <IconSearch className='size-4' />
-                )}
-                搜尋
-              </Button>
+              <div className='min-w-0 space-y-4'>
+                <SearchForm
+                  query={query}
+                  onQueryChange={setQuery}
+                  onSearch={() => handleSearch()}
+                  searchMode={searchMode}
+                  onSearchModeChange={setSearchMode}
+                  rerank={useRerank}
+                  onRerankChange={setUseRerank}
+                  feedbackBoost={useFeedbackBoost}
+                  onFeedbackBoostChange={setUseFeedbackBoost}
+                  quantities={activeQuantities}
+                  removedQuantityCount={removedQuantities.length}
+                  onRemoveQuantity={(quantity) =>
+                    setRemovedQuantities((prev) => [
+                      ...prev,
+                      quantityKey(quantity)
+                    ])
+                  }
+                  onRestoreQuantities={() => setRemovedQuantities([])}
+                  isSearching={isSearching}
+                  disabled={!isConnected}
+                />
+
+                <AnswerCard
+                  answer={answer.answer}
+                  citations={answer.citations}
+                  isAnswering={answer.isAnswering}
+                  error={answer.error}
+                  query={searchedQuery}
+                  sourceCount={results.length}
+                  canSendFeedback={canSendFeedback}
+                  onStop={answer.stop}
+                  onCitationClick={(citation) => setHighlightedId(citation.id)}
+                />
+
+                {/* 換查詢時收合所有前後文 */}
+                <SearchResultList
+                  key={searchedQuery}
+                  results={results}
+                  citations={answer.citations}
+                  highlightedId={highlightedId}
+                  query={searchedQuery}
+                  textNormalization={textNormalization}
+                  queryExpansion={queryExpansion}
+                  canEdit={canEditData}
+                  canSendFeedback={canSendFeedback}
+                  onEdit={setEditingItem}
+                  onDelete={setDeletingItem}
+                  onAddChunk={setNewChunkDefaults}
+                  onOpenReader={setReaderItem}
+                />
+
+                <MatchedMaterials materials={matchedMaterials} />
+              </div>
             </div>
-          </CardContent>
-        </Card>
+          </TabsContent>
 
-        {/* 回答區 */}
-        {answer && (
-          <Card className='border-primary/50 bg-primary/5'>
-            <CardHeader>
-              <CardTitle className='flex items-center gap-2 text-lg'>
-                <IconBolt className='text-primary size-5' />
-                搜尋結果
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className='text-base leading-relaxed whitespace-pre-wrap'>
-                {answer}
-              </p>
-            </CardContent>
-            <CardFooter className='text-muted-foreground text-sm'>
-              基於 {results.length} 個相關來源
-            </CardFooter>
-          </Card>
-        )}
+          {/* forceMount：切換分頁時保留對話紀錄 */}
+          <TabsContent
+            value='chat'
+            forceMount
+            className='data-[state=inactive]:hidden'
+          >
+            <ChatPanel
+              disabled={!isConnected}
+              searchMode={searchMode}
+              rerank={useRerank}
+              filters={filterRequest}
+            />
+          </TabsContent>
+
+          {canEditData && (
+            <TabsContent value='analytics'>
+              <SearchAnalytics />
+            </TabsContent>
+          )}
 
-        {/* 來源引用 */}
-        {results.length > 0 && (
-          <Card>
-            <CardHeader>
-              <CardTitle className='flex items-center gap-2'>
-                <IconFileText className='size-5' />
-                來源引用
-              </CardTitle>
-              <CardDescription>
-                相關度由高到低排序，點擊編輯按鈕可修改內容
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className='space-y-3'>
-                {results.map((result) => (
-                  <div
-                    key={result.id}
-                    className='hover:bg-muted/50 rounded-lg border p-4 transition-colors'
-                  >
-                    <div className='mb-2 flex items-center justify-between'>
-                      <div className='flex items-center gap-2'>
-                        <Badge variant='secondary'>{result.source}</Badge>
-                        {result.doc_type && (
-                          <Badge variant='outline'>{result.doc_type}</Badge>
-                        )}
-                      </div>
-                      <div className='flex items-center gap-2'>
-                        <Badge
-                          variant={
-                            result.similarity > 0.7 ? 'default' : 'secondary'
-                          }
-                        >
-                          相似度 {(result.similarity * 100).toFixed(0)}%
-                        </Badge>
-                        <Button
-                          variant='ghost'
-                          size='sm'
-                          onClick={() => handleEdit(result)}
-                          className='h-8 w-8 p-0'
-                        >
-                          <IconPencil className='size-4' />
-                        </Button>
-                      </div>
-                    </div>
-                    <p className='text-sm whitespace-pre-wrap'>
-                      {result.content}
-                    </p>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          {canEditData && (
+            <TabsContent value='feedback'>
+              <FeedbackQueue onEdit={setEditingItem} />
+            </TabsContent>
+          )}
+        </Tabs>
+
+        <RecentMaterials materials={materials} />
+
+        {/* 文件匯入與重新生成向量需要編輯權限 */}
+        {canEditData && (
+          <IngestPanel
+            disabled={!isConnected}
+            onIngested={(result) => {
+              setStats((prev) => ({
+                ...prev,
+                regulations: result.replaced
+                  ? prev.regulations
+                  : prev.regulations + result.inserted
+              }));
+              loadEmbeddingStatus();
+            }}
+          />
         )}
 
-        {/* 材料表格 */}
-        {materials.length > 0 && (
-          <Card>
-            <CardHeader>
-              <CardTitle>材料資料</CardTitle>
-              <CardDescription>來自 Supabase 的真實資料</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>材料名稱</TableHead>
-                    <TableHead>規格</TableHead>
-                    <TableHead>單位</TableHead>
-                    <TableHead className='text-right'>單價</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {materials.map((material) => (
-                    <TableRow key={material.id}>
-                      <TableCell className='font-medium'>
-                        {material.name}
-                      </TableCell>
-                      <TableCell>{material.spec || '-'}</TableCell>
-                      <TableCell>{material.unit}</TableCell>
-                      <TableCell className='text-right'>
-                        ${material.price}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
+        {/* 重新生成向量 */}
+        {canEditData && (
+          <ReembedPanel
+            status={embeddingStatus}
+            disabled={!isConnected}
+            onProgress={loadEmbeddingStatus}
+          />
         )}
       </div>
 
-      {/* 編輯對話框 */}
-      <Dialog
-        open={!!editingItem}
-        onOpenChange={(open) => !open && handleCloseEdit()}
-      >
-        <DialogContent className='flex max-h-[80vh] max-w-3xl flex-col overflow-hidden'>
-          <DialogHeader>
-            <DialogTitle className='flex items-center gap-2'>
-              <IconPencil className='size-5' />
-              編輯法規內容
-            </DialogTitle>
-            <DialogDescription>
-              修改後會自動重新生成 embedding 向量以確保搜尋準確性
-            </DialogDescription>
-          </DialogHeader>
-
-          {editingItem && (
-            <div className='flex-1 space-y-4 overflow-auto'>
-              <div className='flex items-center gap-2'>
-                <Badge variant='secondary'>{editingItem.source}</Badge>
-                {editingItem.doc_type && (
-                  <Badge variant='outline'>{editingItem.doc_type}</Badge>
-                )}
-              </div>
-
-              <Textarea
-                value={editContent}
-                onChange={(e) => setEditContent(e.target.value)}
-                className='min-h-[300px] font-mono text-sm'
-                placeholder='輸入法規內容...'
-              />
-
-              {saveMessage && (
-                <div
-                  className={`flex items-center gap-2 rounded-lg p-3 ${
-                    saveMessage.type === 'success'
-                      ? 'border border-green-200 bg-green-50 text-green-700'
-                      : 'border border-red-200 bg-red-50 text-red-700'
-                  }`}
-                >
-                  {saveMessage.type === 'success' ? (
-                    <IconCheck className='size-4' />
-                  ) : (
-                    <IconAlertCircle className='size-4' />
-                  )}
-                  {saveMessage.text}
-                </div>
-              )}
-            </div>
-          )}
-
-          <DialogFooter className='gap-2'>
-            <Button
-              variant='outline'
-              onClick={handleCloseEdit}
-              disabled={isSaving}
-            >
-              <IconX className='mr-1 size-4' />
-              取消
-            </Button>
-            <Button
-              onClick={handleSave}
-              disabled={isSaving || !editContent.trim()}
-            >
-              {isSaving ? (
-                <IconLoader2 className='mr-1 size-4 animate-spin' />
-              ) : (
-                <IconCheck className='mr-1 size-4' />
-              )}
-              儲存並更新向量
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ArticleReaderSheet
+        item={readerItem}
+        onClose={() => setReaderItem(null)}
+      />
+
+      <ChunkEditDialog
+        item={editingItem}
+        onClose={() => setEditingItem(null)}
+        onContentChange={handleContentChange}
+      />
+
+      <DeleteChunkDialog
+        item={deletingItem}
+        onClose={() => setDeletingItem(null)}
+        onDeleted={handleDeleted}
+      />
+
+      <NewChunkDialog
+        open={!!newChunkDefaults}
+        onOpenChange={(open) => !open && setNewChunkDefaults(null)}
+        defaults={newChunkDefaults ?? undefined}
+        onCreated={handleCreated}
+      />
     </PageContainer>
   );
 }
@@ -0,0 +1,17 @@
+import PageContainer from '@/components/layout/page-container';
+import { SourceList } from '@/features/rag/components/source-list';
+
+export const metadata = {
+  title: 'Dashboard : 法規瀏覽'
+};
+
+export default function Page() {
+  return (
+    <PageContainer
+      pageTitle='法規瀏覽'
+      pageDescription='依來源逐條閱讀已匯入的法規'
+    >
+      <SourceList />
+    </PageContainer>
+  );
+}
@@ -0,0 +1,24 @@
+import { redirect } from 'next/navigation';
+import PageContainer from '@/components/layout/page-container';
+import { SourceReader } from '@/features/rag/components/source-reader';
+
+export const metadata = {
+  title: 'Dashboard : 法規閱讀'
+};
+
+type PageProps = {
+  searchParams: Promise<{ source?: string | string[] }>;
+};
+
+export default async function Page({ searchParams }: PageProps) {
+  const { source } = await searchParams;
+  const name = Array.isArray(source) ? source[0] : source;
+
+  if (!name) redirect('/dashboard/rag/sources');
+
+  return (
+    <PageContainer>
+      <SourceReader source={name} />
+    </PageContainer>
+  );
+}
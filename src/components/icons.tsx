@@ -38,7 +38,10 @@ import {
   IconBox,
   IconPalette,
   IconSearch,
-  IconDatabase
+  IconDatabase,
+  IconBook2,
+  IconVocabulary,
+  IconPackages
 } from '@tabler/icons-react';
 
 export type Icon = React.ComponentType<IconProps>;
@@ -83,5 +86,8 @@ export const Icons = {
   account: IconUserCircle,
   profile: IconUser,
   search: IconSearch,
-  database: IconDatabase
+  database: IconDatabase,
+  book: IconBook2,
+  glossary: IconVocabulary,
+  material: IconPackages
 };
@@ -49,6 +49,27 @@ export const navItems: NavItem[] = [
     shortcut: ['r', 'r'],
     items: []
   },
+  {
+    title: '法規瀏覽',
+    url: '/dashboard/rag/sources',
+    icon: 'book',
+    isActive: false,
+    items: []
+  },
+  {
+    title: '詞彙表',
+    url: '/dashboard/rag/glossary',
+    icon: 'glossary',
+    isActive: false,
+    items: []
+  },
+  {
+    title: '材料',
+    url: '/dashboard/materials',
+    icon: 'material',
+    isActive: false,
+    items: []
+  },
   {
     title: 'Workspaces',
     url: '/dashboard/workspaces',
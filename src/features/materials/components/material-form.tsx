@@ -0,0 +1,147 @@
+'use client';
+
+import { FormInput } from '@/components/forms/form-input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form } from '@/components/ui/form';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { materialClient } from '@/lib/materials/client';
+import type { Material } from '@/lib/materials/schemas';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import * as z from 'zod';
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, '請輸入材料名稱').max(200),
+  unit: z.string().trim().min(1, '請輸入單位').max(20),
+  price: z.number({ error: '請輸入單價' }).min(0, '單價不可為負數'),
+  category: z.string().trim().max(100),
+  spec: z.string().trim().max(200),
+  voltage: z.number().positive('電壓必須大於 0').optional()
+});
+
+export default function MaterialForm({
+  initialData,
+  pageTitle
+}: {
+  initialData: Material | null;
+  pageTitle: string;
+}) {
+  const defaultValues = {
+    name: initialData?.name || '',
+    unit: initialData?.unit || '',
+    price: initialData?.price ?? undefined,
+    category: initialData?.category || '',
+    spec: initialData?.spec || '',
+    voltage: initialData?.voltage ?? undefined
+  };
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: defaultValues
+  });
+
+  const router = useRouter();
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    const body = { ...values, voltage: values.voltage ?? null };
+    try {
+      if (initialData) {
+        await materialClient.update(initialData.id, body);
+        toast.success('已更新材料', { description: values.name });
+      } else {
+        await materialClient.create(body);
+        toast.success('已新增材料', { description: values.name });
+      }
+      router.push('/dashboard/materials');
+      router.refresh();
+    } catch (err) {
+      toast.error(getErrorMessage(err, '儲存材料失敗'));
+    }
+  }
+
+  return (
+    <Card className='mx-auto w-full'>
+      <CardHeader>
+        <CardTitle className='text-left text-2xl font-bold'>
+          {pageTitle}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form
+          form={form}
+          onSubmit={form.handleSubmit(onSubmit)}
+          className='space-y-8'
+        >
+          <div className='grid grid-cols-1 gap-6 md:grid-cols-2'>
+            <FormInput
+              control={form.control}
+              name='name'
+              label='材料名稱'
+              placeholder='例如：PVC 電線'
+              required
+            />
+
+            <FormInput
+              control={form.control}
+              name='spec'
+              label='規格'
+              placeholder='例如：2.0mm² 銅導體'
+            />
+
+            <FormInput
+              control={form.control}
+              name='category'
+              label='分類'
+              placeholder='例如：電線'
+            />
+
+            <FormInput
+              control={form.control}
+              name='voltage'
+              label='電壓（V）'
+              placeholder='例如：600'
+              type='number'
+              min={0}
+              step='any'
+            />
+
+            <FormInput
+              control={form.control}
+              name='unit'
+              label='單位'
+              placeholder='例如：m'
+              required
+            />
+
+            <FormInput
+              control={form.control}
+              name='price'
+              label='單價'
+              placeholder='輸入單價'
+              required
+              type='number'
+              min={0}
+              step='0.01'
+            />
+          </div>
+
+          <div className='flex gap-2'>
+            <Button type='submit' disabled={form.formState.isSubmitting}>
+              {initialData ? '儲存變更' : '新增材料'}
+            </Button>
+            <Button
+              type='button'
+              variant='outline'
+              onClick={() => router.push('/dashboard/materials')}
+            >
+              取消
+            </Button>
+          </div>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+import { getMaterialFacets, listMaterials } from '@/lib/materials/materials';
+import { materialListQuerySchema } from '@/lib/materials/schemas';
+import { searchParamsCache } from '@/lib/searchparams';
+import { MaterialTable } from './material-tables';
+
+/**
+ * 將表格的 URL 狀態轉為材料列表的查詢條件；格式不合法時改用預設值
+ */
+function getListFilters() {
+  const [priceMin, priceMax] = (searchParamsCache.get('price') ?? '').split(
+    ','
+  );
+  const [sort] = searchParamsCache.get('sort');
+
+  const parsed = materialListQuerySchema.safeParse({
+    page: searchParamsCache.get('page'),
+    per_page: searchParamsCache.get('perPage'),
+    name: searchParamsCache.get('name') ?? undefined,
+    category: searchParamsCache.get('category') ?? undefined,
+    voltage: searchParamsCache.get('voltage') ?? undefined,
+    price_min: priceMin || undefined,
+    price_max: priceMax || undefined,
+    sort: sort?.id,
+    order: sort?.desc ? 'desc' : 'asc'
+  });
+
+  return parsed.success ? parsed.data : materialListQuerySchema.parse({});
+}
+
+export default async function MaterialListingPage() {
+  const filters = getListFilters();
+  const [{ materials, total }, facets] = await Promise.all([
+    listMaterials(filters),
+    getMaterialFacets()
+  ]);
+
+  return <MaterialTable data={materials} totalItems={total} facets={facets} />;
+}
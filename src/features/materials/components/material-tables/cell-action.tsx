@@ -0,0 +1,74 @@
+'use client';
+import { AlertModal } from '@/components/modal/alert-modal';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { materialClient } from '@/lib/materials/client';
+import type { Material } from '@/lib/materials/schemas';
+import { IconEdit, IconDotsVertical, IconTrash } from '@tabler/icons-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+interface CellActionProps {
+  data: Material;
+}
+
+export const CellAction: React.FC<CellActionProps> = ({ data }) => {
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const router = useRouter();
+
+  const onConfirm = async () => {
+    setLoading(true);
+    try {
+      await materialClient.remove(data.id);
+      toast('已刪除材料', { description: data.name });
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      toast.error(getErrorMessage(err, '刪除材料失敗'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <AlertModal
+        isOpen={open}
+        onClose={() => setOpen(false)}
+        onConfirm={onConfirm}
+        loading={loading}
+      />
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant='ghost' className='h-8 w-8 p-0'>
+            <span className='sr-only'>開啟選單</span>
+            <IconDotsVertical className='h-4 w-4' />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align='end'>
+          <DropdownMenuLabel>操作</DropdownMenuLabel>
+
+          <DropdownMenuItem
+            onClick={() =>
+              router.push(`/dashboard/materials/${encodeURIComponent(data.id)}`)
+            }
+          >
+            <IconEdit className='mr-2 h-4 w-4' /> 編輯
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setOpen(true)}>
+            <IconTrash className='mr-2 h-4 w-4' /> 刪除
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
@@ -0,0 +1,117 @@
+'use client';
+import { Badge } from '@/components/ui/badge';
+import { DataTableColumnHeader } from '@/components/ui/table/data-table-column-header';
+import type { Material, MaterialFacets } from '@/lib/materials/schemas';
+import { Column, ColumnDef } from '@tanstack/react-table';
+import { Text } from 'lucide-react';
+import { CellAction } from './cell-action';
+import { formatPrice, formatVoltage } from '@/features/materials/utils/format';
+
+/**
+ * 分類、電壓與單價範圍的篩選選項依資料庫內容產生
+ */
+export function getColumns(facets: MaterialFacets): ColumnDef<Material>[] {
+  return [
+    {
+      id: 'name',
+      accessorKey: 'name',
+      header: ({ column }: { column: Column<Material, unknown> }) => (
+        <DataTableColumnHeader column={column} title='材料名稱' />
+      ),
+      cell: ({ cell }) => (
+        <div className='font-medium'>{cell.getValue<Material['name']>()}</div>
+      ),
+      meta: {
+        label: '材料名稱',
+        placeholder: '搜尋材料...',
+        variant: 'text',
+        icon: Text
+      },
+      enableColumnFilter: true
+    },
+    {
+      id: 'spec',
+      accessorKey: 'spec',
+      header: '規格',
+      cell: ({ cell }) => cell.getValue<Material['spec']>() || '-',
+      enableSorting: false
+    },
+    {
+      id: 'category',
+      accessorKey: 'category',
+      header: ({ column }: { column: Column<Material, unknown> }) => (
+        <DataTableColumnHeader column={column} title='分類' />
+      ),
+      cell: ({ cell }) => {
+        const category = cell.getValue<Material['category']>();
+        return category ? <Badge variant='outline'>{category}</Badge> : '-';
+      },
+      enableColumnFilter: true,
+      meta: {
+        label: '分類',
+        variant: 'multiSelect',
+        options: facets.categories.map((category) => ({
+          value: category,
+          label: category
+        }))
+      }
+    },
+    {
+      id: 'voltage',
+      accessorKey: 'voltage',
+      header: ({ column }: { column: Column<Material, unknown> }) => (
+        <DataTableColumnHeader column={column} title='電壓' />
+      ),
+      cell: ({ cell }) => formatVoltage(cell.getValue<Material['voltage']>()),
+      enableColumnFilter: true,
+      meta: {
+        label: '電壓',
+        variant: 'multiSelect',
+        options: facets.voltages.map((voltage) => ({
+          value: String(voltage),
+          label: formatVoltage(voltage)
+        }))
+      }
+    },
+    {
+      id: 'unit',
+      accessorKey: 'unit',
+      header: '單位',
+      enableSorting: false
+    },
+    {
+      id: 'price',
+      accessorKey: 'price',
+      header: ({ column }: { column: Column<Material, unknown> }) => (
+        <DataTableColumnHeader column={column} title='單價' />
+      ),
+      cell: ({ cell }) => (
+        <div className='tabular-nums'>
+          {formatPrice(cell.getValue<Material['price']>())}
+        </div>
+      ),
+      enableColumnFilter: true,
+      meta: {
+        label: '單價',
+        variant: 'range',
+        range: facets.price_range ?? undefined,
+        unit: '元'
+      }
+    },
+    {
+      id: 'updated_at',
+      accessorKey: 'updated_at',
+      header: ({ column }: { column: Column<Material, unknown> }) => (
+        <DataTableColumnHeader column={column} title='更新時間' />
+      ),
+      cell: ({ cell }) =>
+        new Date(cell.getValue<Material['updated_at']>()).toLocaleString(
+          'zh-TW'
+        )
+    },
+    {
+      id: 'actions',
+      cell: ({ row }) => <CellAction data={row.original} />
+    }
+  ];
+}
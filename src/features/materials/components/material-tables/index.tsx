@@ -0,0 +1,42 @@
+'use client';
+
+import { DataTable } from '@/components/ui/table/data-table';
+import { DataTableToolbar } from '@/components/ui/table/data-table-toolbar';
+import { useDataTable } from '@/hooks/use-data-table';
+import type { Material, MaterialFacets } from '@/lib/materials/schemas';
+import { parseAsInteger, useQueryState } from 'nuqs';
+import { useMemo } from 'react';
+import { getColumns } from './columns';
+
+interface MaterialTableParams {
+  data: Material[];
+  totalItems: number;
+  facets: MaterialFacets;
+}
+
+export function MaterialTable({
+  data,
+  totalItems,
+  facets
+}: MaterialTableParams) {
+  const [pageSize] = useQueryState('perPage', parseAsInteger.withDefault(10));
+
+  const pageCount = Math.ceil(totalItems / pageSize);
+  const columns = useMemo(() => getColumns(facets), [facets]);
+
+  const { table } = useDataTable({
+    data,
+    columns,
+    pageCount: pageCount,
+    initialState: { sorting: [{ id: 'name', desc: false }] },
+    getRowId: (row) => row.id,
+    shallow: false, // 篩選、排序與換頁都由伺服器端重新查詢
+    debounceMs: 500
+  });
+
+  return (
+    <DataTable table={table}>
+      <DataTableToolbar table={table} />
+    </DataTable>
+  );
+}
@@ -0,0 +1,45 @@
+import { getMaterial, MaterialNotFoundError } from '@/lib/materials/materials';
+import { listPriceHistory } from '@/lib/materials/prices';
+import type { Material } from '@/lib/materials/schemas';
+import { notFound } from 'next/navigation';
+import MaterialForm from './material-form';
+import { PriceAlerts } from './price-alerts';
+import { PriceTrendChart } from './price-trend-chart';
+
+type TMaterialViewPageProps = {
+  materialId: string;
+};
+
+async function loadMaterial(materialId: string): Promise<Material> {
+  try {
+    return await getMaterial(materialId);
+  } catch (err) {
+    if (err instanceof MaterialNotFoundError) notFound();
+    throw err;
+  }
+}
+
+export default async function MaterialViewPage({
+  materialId
+}: TMaterialViewPageProps) {
+  if (materialId === 'new') {
+    return <MaterialForm initialData={null} pageTitle='新增材料' />;
+  }
+
+  const material = await loadMaterial(materialId);
+  const history = await listPriceHistory(material.id);
+
+  return (
+    <div className='space-y-4'>
+      <MaterialForm initialData={material} pageTitle='編輯材料' />
+      <div className='grid grid-cols-1 gap-4 xl:grid-cols-2'>
+        <PriceTrendChart
+          history={history}
+          currentPrice={material.price}
+          unit={material.unit}
+        />
+        <PriceAlerts materialId={material.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { IconAlertTriangle } from '@tabler/icons-react';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { formatChange, formatPrice } from '@/features/materials/utils/format';
+import { materialClient } from '@/lib/materials/client';
+import type { PriceAlertStatus } from '@/lib/materials/schemas';
+
+/**
+ * 儀表板上的已觸發價格警示；沒有觸發或無法讀取時不顯示
+ */
+export function PriceAlertSummary() {
+  const [alerts, setAlerts] = useState<PriceAlertStatus[]>([]);
+
+  useEffect(() => {
+    materialClient.alerts
+      .list({ triggered: 'true' })
+      .then(({ data }) => setAlerts(data))
+      .catch((err) => console.error('載入價格警示錯誤:', err));
+  }, []);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className='border-destructive/50'>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <IconAlertTriangle className='text-destructive size-5' />
+          材料價格警示
+        </CardTitle>
+        <CardDescription>
+          {alerts.length} 項關注的材料單價漲跌超過設定的門檻
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className='divide-y'>
+          {alerts.map((alert) => (
+            <li
+              key={alert.id}
+              className='flex flex-wrap items-center justify-between gap-2 py-2 text-sm'
+            >
+              <Link
+                href={`/dashboard/materials/${encodeURIComponent(alert.material_id)}`}
+                className='font-medium hover:underline'
+              >
+                {alert.material?.name ?? alert.material_id}
+              </Link>
+              <div className='text-muted-foreground flex items-center gap-2'>
+                <span>
+                  {alert.period_days} 天內{' '}
+                  {alert.base_price === null
+                    ? '-'
+                    : formatPrice(alert.base_price)}{' '}
+                  → {alert.material ? formatPrice(alert.material.price) : '-'}
+                </span>
+                <Badge variant='destructive'>
+                  {formatChange(alert.change_pct)}
+                </Badge>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { IconBell, IconTrash } from '@tabler/icons-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { formatChange, formatPrice } from '@/features/materials/utils/format';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { materialClient } from '@/lib/materials/client';
+import type { PriceAlertStatus } from '@/lib/materials/schemas';
+
+/**
+ * 單一材料的價格警示：設定期間與漲跌幅門檻，顯示目前是否觸發
+ */
+export function PriceAlerts({ materialId }: { materialId: string }) {
+  const [alerts, setAlerts] = useState<PriceAlertStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [thresholdPct, setThresholdPct] = useState('10');
+  const [periodDays, setPeriodDays] = useState('30');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadAlerts = async () => {
+    try {
+      const { data } = await materialClient.alerts.list({
+        material_id: materialId
+      });
+      setAlerts(data);
+    } catch (err) {
+      toast.error(getErrorMessage(err, '載入價格警示失敗'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAlerts();
+  }, [materialId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const { data } = await materialClient.alerts.create({
+        material_id: materialId,
+        threshold_pct: Number(thresholdPct),
+        period_days: Number(periodDays)
+      });
+      setAlerts((prev) => [data, ...prev]);
+      toast.success('已新增價格警示', {
+        description: data.triggered ? '目前已超過門檻' : undefined
+      });
+    } catch (err) {
+      toast.error(getErrorMessage(err, '新增價格警示失敗'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (alert: PriceAlertStatus) => {
+    try {
+      await materialClient.alerts.remove(alert.id);
+      setAlerts((prev) => prev.filter((a) => a.id !== alert.id));
+      toast('已刪除價格警示');
+    } catch (err) {
+      toast.error(getErrorMessage(err, '刪除價格警示失敗'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <IconBell className='size-5' />
+          價格警示
+        </CardTitle>
+        <CardDescription>
+          單價在期間內漲跌超過門檻時，會顯示在儀表板
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <form
+          onSubmit={handleCreate}
+          className='flex flex-wrap items-end gap-3'
+        >
+          <div className='space-y-1'>
+            <Label htmlFor='alert-period'>期間（天）</Label>
+            <Input
+              id='alert-period'
+              type='number'
+              min={1}
+              max={365}
+              step={1}
+              value={periodDays}
+              onChange={(e) => setPeriodDays(e.target.value)}
+              className='w-28'
+              required
+            />
+          </div>
+          <div className='space-y-1'>
+            <Label htmlFor='alert-threshold'>漲跌幅超過（%）</Label>
+            <Input
+              id='alert-threshold'
+              type='number'
+              min={0.01}
+              step='any'
+              value={thresholdPct}
+              onChange={(e) => setThresholdPct(e.target.value)}
+              className='w-28'
+              required
+            />
+          </div>
+          <Button type='submit' disabled={isSaving}>
+            新增警示
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className='text-muted-foreground text-sm'>載入中...</p>
+        ) : alerts.length === 0 ? (
+          <p className='text-muted-foreground text-sm'>尚未設定價格警示</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>條件</TableHead>
+                <TableHead className='text-right'>期間起點單價</TableHead>
+                <TableHead className='text-right'>漲跌幅</TableHead>
+                <TableHead>狀態</TableHead>
+                <TableHead className='w-10' />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.map((alert) => (
+                <TableRow key={alert.id}>
+                  <TableCell>
+                    {alert.period_days} 天內漲跌超過 {alert.threshold_pct}%
+                  </TableCell>
+                  <TableCell className='text-right tabular-nums'>
+                    {alert.base_price === null
+                      ? '-'
+                      : formatPrice(alert.base_price)}
+                  </TableCell>
+                  <TableCell className='text-right tabular-nums'>
+                    {formatChange(alert.change_pct)}
+                  </TableCell>
+                  <TableCell>
+                    {alert.triggered ? (
+                      <Badge variant='destructive'>已觸發</Badge>
+                    ) : (
+                      <Badge variant='outline'>監控中</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant='ghost'
+                      size='icon'
+                      className='size-8'
+                      onClick={() => handleDelete(alert)}
+                    >
+                      <IconTrash className='size-4' />
+                      <span className='sr-only'>刪除</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
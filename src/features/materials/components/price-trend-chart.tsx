@@ -0,0 +1,178 @@
+'use client';
+
+import { IconTrendingDown, IconTrendingUp } from '@tabler/icons-react';
+import * as React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { formatPrice } from '@/features/materials/utils/format';
+import { changePercent, DAY_MS, priceAt } from '@/lib/materials/price-change';
+import type { PriceHistoryEntry } from '@/lib/materials/schemas';
+
+const RANGES = [
+  { value: '30', label: '30 天', days: 30 },
+  { value: '90', label: '90 天', days: 90 },
+  { value: '365', label: '1 年', days: 365 },
+  { value: 'all', label: '全部', days: null }
+] as const;
+
+const chartConfig = {
+  price: {
+    label: '單價',
+    color: 'var(--primary)'
+  }
+} satisfies ChartConfig;
+
+interface PriceTrendChartProps {
+  history: PriceHistoryEntry[];
+  currentPrice: number;
+  unit: string;
+}
+
+function formatDay(time: number) {
+  return new Date(time).toLocaleDateString('zh-TW', {
+    month: 'numeric',
+    day: 'numeric'
+  });
+}
+
+/**
+ * 單價趨勢：每次變動為一個轉折點，區間起點補上當時的單價，終點為目前單價
+ */
+export function PriceTrendChart({
+  history,
+  currentPrice,
+  unit
+}: PriceTrendChartProps) {
+  const [range, setRange] = React.useState<string>('365');
+  // 以掛載時間為「現在」，避免重新渲染時圖表終點跟著移動
+  const [now] = React.useState(() => Date.now());
+
+  const { points, startPrice, changeCount } = React.useMemo(() => {
+    const days = RANGES.find((r) => r.value === range)?.days ?? null;
+    const firstTime =
+      history.length > 0 ? new Date(history[0].changed_at).getTime() : now;
+    const start =
+      days === null ? firstTime : Math.max(now - days * DAY_MS, firstTime);
+    const startPrice = priceAt(history, start);
+    const changes = history
+      .map((entry) => ({
+        time: new Date(entry.changed_at).getTime(),
+        price: entry.price
+      }))
+      .filter((point) => point.time > start);
+
+    return {
+      points: [
+        ...(startPrice === null ? [] : [{ time: start, price: startPrice }]),
+        ...changes,
+        { time: now, price: currentPrice }
+      ],
+      startPrice,
+      changeCount: changes.length
+    };
+  }, [history, currentPrice, range, now]);
+
+  const change = changePercent(startPrice, currentPrice);
+
+  return (
+    <Card className='@container/card'>
+      <CardHeader>
+        <CardTitle>單價趨勢</CardTitle>
+        <CardDescription>
+          {changeCount > 0
+            ? `期間內變動 ${changeCount} 次，目前 ${formatPrice(currentPrice)} / ${unit}`
+            : `期間內沒有變動，目前 ${formatPrice(currentPrice)} / ${unit}`}
+        </CardDescription>
+        <CardAction className='flex items-center gap-2'>
+          {change !== null && change !== 0 && (
+            <Badge variant='outline'>
+              {change > 0 ? <IconTrendingUp /> : <IconTrendingDown />}
+              {change > 0 ? '+' : ''}
+              {change}%
+            </Badge>
+          )}
+          <ToggleGroup
+            type='single'
+            variant='outline'
+            size='sm'
+            value={range}
+            onValueChange={(value) => value && setRange(value)}
+          >
+            {RANGES.map((r) => (
+              <ToggleGroupItem key={r.value} value={r.value}>
+                {r.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </CardAction>
+      </CardHeader>
+      <CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
+        <ChartContainer
+          config={chartConfig}
+          className='aspect-auto h-[250px] w-full'
+        >
+          <LineChart data={points} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey='time'
+              type='number'
+              scale='time'
+              domain={['dataMin', 'dataMax']}
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              minTickGap={32}
+              tickFormatter={formatDay}
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={56}
+              domain={['auto', 'auto']}
+              tickFormatter={(value: number) => formatPrice(value)}
+            />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) =>
+                    new Date(payload[0]?.payload.time).toLocaleDateString(
+                      'zh-TW'
+                    )
+                  }
+                  formatter={(value) =>
+                    `${chartConfig.price.label} ${formatPrice(Number(value))} / ${unit}`
+                  }
+                />
+              }
+            />
+            <Line
+              dataKey='price'
+              type='stepAfter'
+              stroke='var(--color-price)'
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * 材料欄位的顯示格式
+ */
+
+export function formatVoltage(voltage: number | null) {
+  if (voltage === null) return '-';
+  return voltage >= 1000 ? `${voltage / 1000} kV` : `${voltage} V`;
+}
+
+export function formatPrice(price: number) {
+  return `$${price.toLocaleString('zh-TW', { maximumFractionDigits: 2 })}`;
+}
+
+export function formatChange(change: number | null) {
+  if (change === null) return '-';
+  return `${change > 0 ? '+' : ''}${change}%`;
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardFooter
+} from '@/components/ui/card';
+import {
+  IconAlertCircle,
+  IconBolt,
+  IconLoader2,
+  IconPlayerStop
+} from '@tabler/icons-react';
+import { CitedAnswer } from './cited-answer';
+import { FeedbackButtons } from './feedback-buttons';
+import type { AnswerCitation } from '@/types/rag';
+
+interface AnswerCardProps {
+  answer: string;
+  citations: AnswerCitation[];
+  isAnswering: boolean;
+  error: string | null;
+  /** 產生此回答的查詢，回饋依此記錄 */
+  query: string;
+  sourceCount: number;
+  canSendFeedback: boolean;
+  onStop: () => void;
+  onCitationClick: (citation: AnswerCitation) => void;
+}
+
+/**
+ * 單次搜尋的串流回答，完成後可對整個回答送出回饋
+ */
+export function AnswerCard({
+  answer,
+  citations,
+  isAnswering,
+  error,
+  query,
+  sourceCount,
+  canSendFeedback,
+  onStop,
+  onCitationClick
+}: AnswerCardProps) {
+  if (!answer && !isAnswering && !error) return null;
+
+  return (
+    <Card className='border-primary/50 bg-primary/5'>
+      <CardHeader className='flex flex-row items-center justify-between'>
+        <CardTitle className='flex items-center gap-2 text-lg'>
+          <IconBolt className='text-primary size-5' />
+          回答
+        </CardTitle>
+        {isAnswering && (
+          <Button variant='outline' size='sm' onClick={onStop}>
+            <IconPlayerStop className='size-4' />
+            停止
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isAnswering && !answer ? (
+          <div className='text-muted-foreground flex items-center gap-2'>
+            <IconLoader2 className='size-4 animate-spin' />
+            正在根據來源生成回答...
+          </div>
+        ) : error ? (
+          <div className='text-destructive flex items-center gap-2'>
+            <IconAlertCircle className='size-4' />
+            {error}
+          </div>
+        ) : (
+          <CitedAnswer
+            answer={answer}
+            citations={citations}
+            onCitationClick={onCitationClick}
+          />
+        )}
+      </CardContent>
+      <CardFooter className='text-muted-foreground justify-between text-sm'>
+        <span>
+          基於 {sourceCount} 個相關來源
+          {citations.length > 0 && `，引用 ${citations.length} 個`}
+        </span>
+        {answer && !isAnswering && !error && canSendFeedback && (
+          <FeedbackButtons
+            key={query}
+            query={query}
+            target='answer'
+            citations={citations}
+          />
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter
+} from '@/components/ui/card';
+import {
+  IconMessages,
+  IconSend,
+  IconLoader2,
+  IconPlayerStop,
+  IconTrash,
+  IconArrowForward,
+  IconAlertCircle
+} from '@tabler/icons-react';
+import { CitedAnswer, sourceAnchorId } from './cited-answer';
+import { ragClient } from '@/lib/rag/client';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { toSearchResults } from '@/features/rag/utils/search-results';
+import type { SearchFilterRequest } from '@/features/rag/hooks/use-search-filters';
+import type {
+  AnswerCitation,
+  ChatMessage,
+  SearchMode,
+  SearchResult
+} from '@/types/rag';
+
+interface ChatTurn {
+  id: string;
+  question: string;
+  rewrittenQuery: string | null;
+  results: SearchResult[];
+  answer: string;
+  citations: AnswerCitation[];
+  error: string | null;
+  isPending: boolean;
+}
+
+interface ChatPanelProps {
+  disabled?: boolean;
+  searchMode: SearchMode;
+  rerank: boolean;
+  /** 搜尋頁的篩選條件，對話檢索沿用 */
+  filters?: SearchFilterRequest;
+}
+
+/**
+ * 將已完成的對話轉為 API 需要的歷史訊息
+ */
+function toHistory(turns: ChatTurn[]): ChatMessage[] {
+  return turns
+    .filter((turn) => !turn.error && turn.answer)
+    .flatMap((turn): ChatMessage[] => [
+      { role: 'user', content: turn.question },
+      { role: 'assistant', content: turn.answer }
+    ]);
+}
+
+export function ChatPanel({
+  disabled,
+  searchMode,
+  rerank,
+  filters
+}: ChatPanelProps) {
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [input, setInput] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isBusy = turns.some((turn) => turn.isPending);
+
+  // 離開頁面時中止進行中的回答串流
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const updateTurn = (id: string, patch: (turn: ChatTurn) => ChatTurn) => {
+    setTurns((prev) =>
+      prev.map((turn) => (turn.id === id ? patch(turn) : turn))
+    );
+  };
+
+  const handleSend = async () => {
+    const question = input.trim();
+    if (!question || isBusy) return;
+
+    const id = crypto.randomUUID();
+    const history = toHistory(turns);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setInput('');
+    setTurns((prev) => [
+      ...prev,
+      {
+        id,
+        question,
+        rewrittenQuery: null,
+        results: [],
+        answer: '',
+        citations: [],
+        error: null,
+        isPending: true
+      }
+    ]);
+
+    try {
+      // 1. 改寫追問並檢索
+      const result = await ragClient.search(
+        {
+          ...filters,
+          query: question,
+          history,
+          match_count: 5,
+          mode: searchMode,
+          rerank
+        },
+        controller.signal
+      );
+
+      const results = toSearchResults(result.data);
+      updateTurn(id, (turn) => ({
+        ...turn,
+        rewrittenQuery: result.rewritten_query,
+        results
+      }));
+
+      if (results.length === 0) {
+        updateTurn(id, (turn) => ({
+          ...turn,
+          answer: '未找到相關結果，請嘗試其他說法。'
+        }));
+        return;
+      }
+
+      // 2. 串流生成回答
+      await ragClient.streamAnswer(
+        { query: question, chunk_ids: results.map((r) => r.id), history },
+        {
+          signal: controller.signal,
+          onToken: (content) =>
+            updateTurn(id, (turn) => ({
+              ...turn,
+              answer: turn.answer + content
+            })),
+          onCitation: (citation) =>
+            updateTurn(id, (turn) => ({
+              ...turn,
+              citations: [...turn.citations, citation]
+            }))
+        }
+      );
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('對話錯誤:', err);
+      const message = getErrorMessage(err, '對話失敗');
+      updateTurn(id, (turn) => ({ ...turn, error: message }));
+    } finally {
+      updateTurn(id, (turn) => ({ ...turn, isPending: false }));
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleClear = () => {
+    abortRef.current?.abort();
+    setTurns([]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className='flex flex-row items-start justify-between'>
+        <div className='space-y-1.5'>
+          <CardTitle className='flex items-center gap-2'>
+            <IconMessages className='size-5' />
+            對話模式
+          </CardTitle>
+          <CardDescription>
+            可直接追問，例如「那 3.5mm² 呢?」，系統會先改寫成完整問題再搜尋
+          </CardDescription>
+        </div>
+        {turns.length > 0 && (
+          <Button variant='ghost' size='sm' onClick={handleClear}>
+            <IconTrash className='size-4' />
+            清除對話
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className='space-y-6'>
+        {turns.length === 0 && (
+          <p className='text-muted-foreground text-sm'>
+            輸入第一個問題開始對話
+          </p>
+        )}
+        {turns.map((turn) => (
+          <div key={turn.id} className='space-y-3'>
+            <div className='flex justify-end'>
+              <div className='bg-primary text-primary-foreground max-w-[80%] rounded-lg px-4 py-2 text-sm'>
+                {turn.question}
+              </div>
+            </div>
+
+            {turn.rewrittenQuery && turn.rewrittenQuery !== turn.question && (
+              <div className='text-muted-foreground flex items-center gap-1 text-xs'>
+                <IconArrowForward className='size-3' />
+                改寫查詢：{turn.rewrittenQuery}
+              </div>
+            )}
+
+            <div className='bg-muted/50 rounded-lg border p-4'>
+              {turn.error ? (
+                <div className='text-destructive flex items-center gap-2 text-sm'>
+                  <IconAlertCircle className='size-4' />
+                  {turn.error}
+                </div>
+              ) : turn.isPending && !turn.answer ? (
+                <div className='text-muted-foreground flex items-center gap-2 text-sm'>
+                  <IconLoader2 className='size-4 animate-spin' />
+                  {turn.results.length > 0 ? '正在生成回答...' : '正在搜尋...'}
+                </div>
+              ) : (
+                <CitedAnswer
+                  answer={turn.answer}
+                  citations={turn.citations}
+                  anchorScope={turn.id}
+                />
+              )}
+
+              {turn.results.length > 0 && (
+                <div className='mt-3 space-y-1 border-t pt-3'>
+                  {turn.results.map((result, index) => (
+                    <div
+                      key={result.id}
+                      id={sourceAnchorId(result.id, turn.id)}
+                      className='flex items-start gap-2 text-xs'
+                    >
+                      <Badge
+                        variant={
+                          turn.citations.some((c) => c.id === result.id)
+                            ? 'default'
+                            : 'outline'
+                        }
+                      >
+                        [{index + 1}]
+                      </Badge>
+                      <span className='text-muted-foreground line-clamp-2'>
+                        {result.source}
+                        {result.article_no && ` ${result.article_no}`}：
+                        {result.content}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      <CardFooter className='gap-2'>
+        <Input
+          placeholder={turns.length > 0 ? '繼續追問...' : '輸入問題...'}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) =>
+            e.key === 'Enter' && !e.nativeEvent.isComposing && handleSend()
+          }
+          className='flex-1'
+          disabled={disabled}
+        />
+        {isBusy ? (
+          <Button variant='outline' onClick={handleStop}>
+            <IconPlayerStop className='size-4' />
+            停止
+          </Button>
+        ) : (
+          <Button onClick={handleSend} disabled={disabled || !input.trim()}>
+            <IconSend className='size-4' />
+            送出
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import {
+  IconAlertCircle,
+  IconExternalLink,
+  IconLoader2
+} from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { ChunkContextResponse } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { sourceReaderHref } from '@/features/rag/utils/source-document';
+import { cn } from '@/lib/utils';
+import type { SearchResult } from '@/types/rag';
+
+type ChunkContext = ChunkContextResponse['data'];
+type ContextChunk = ChunkContext['hit'];
+
+/**
+ * 讀取命中 chunk 的前後文；item 為 null 時不載入
+ */
+function useChunkContext(item: SearchResult | null) {
+  const [context, setContext] = useState<ChunkContext | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const source = item?.source;
+  const chunkIdx = item?.chunk_idx;
+
+  useEffect(() => {
+    if (source === undefined || chunkIdx === undefined) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setContext(null);
+
+    ragClient.chunks
+      .context({ source, chunk_idx: chunkIdx })
+      .then(({ data }) => {
+        if (!cancelled) setContext(data);
+      })
+      .catch((err) => {
+        console.error('載入前後文錯誤:', err);
+        if (!cancelled) setError(getErrorMessage(err, '載入前後文失敗'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, chunkIdx]);
+
+  return { context, error, isLoading };
+}
+
+function ContextStatus({
+  isLoading,
+  error
+}: {
+  isLoading: boolean;
+  error: string | null;
+}) {
+  if (isLoading) {
+    return (
+      <div className='text-muted-foreground flex items-center gap-2 text-sm'>
+        <IconLoader2 className='size-4 animate-spin' />
+        載入中...
+      </div>
+    );
+  }
+  if (error) {
+    return (
+      <div className='text-destructive flex items-center gap-2 text-sm'>
+        <IconAlertCircle className='size-4' />
+        {error}
+      </div>
+    );
+  }
+  return null;
+}
+
+function ContextChunkText({
+  chunk,
+  isHit,
+  hitRef
+}: {
+  chunk: ContextChunk;
+  isHit: boolean;
+  hitRef?: React.Ref<HTMLParagraphElement>;
+}) {
+  return (
+    <p
+      ref={isHit ? hitRef : undefined}
+      className={cn(
+        'rounded-md p-2 text-sm whitespace-pre-wrap',
+        isHit
+          ? 'bg-primary/10 border-primary border-l-2'
+          : 'text-muted-foreground'
+      )}
+    >
+      {chunk.content}
+    </p>
+  );
+}
+
+/**
+ * 搜尋結果卡片內展開的前後文：前後各兩段，命中段落以底色標示
+ */
+export function ContextPreview({ item }: { item: SearchResult }) {
+  const { context, error, isLoading } = useChunkContext(item);
+
+  return (
+    <div className='bg-muted/30 mt-3 space-y-2 rounded-lg border p-3'>
+      <ContextStatus isLoading={isLoading} error={error} />
+      {context && (
+        <>
+          {context.before.length === 0 && (
+            <p className='text-muted-foreground text-xs'>（文件開頭）</p>
+          )}
+          {[...context.before, context.hit, ...context.after].map((chunk) => (
+            <ContextChunkText
+              key={chunk.id}
+              chunk={chunk}
+              isHit={chunk.id === context.hit.id}
+            />
+          ))}
+          {context.after.length === 0 && (
+            <p className='text-muted-foreground text-xs'>（文件結尾）</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface ArticleReaderSheetProps {
+  /** 要閱讀的搜尋結果；null 時關閉 */
+  item: SearchResult | null;
+  onClose: () => void;
+}
+
+/**
+ * 條文閱讀側欄：顯示命中段落所屬的完整條文，並捲動到命中位置
+ *
+ * 沒有條號的段落改為顯示前後文
+ */
+export function ArticleReaderSheet({ item, onClose }: ArticleReaderSheetProps) {
+  const { context, error, isLoading } = useChunkContext(item);
+  const hitRef = useRef<HTMLParagraphElement>(null);
+
+  const chunks = context
+    ? (context.article?.chunks ?? [
+        ...context.before,
+        context.hit,
+        ...context.after
+      ])
+    : [];
+
+  useEffect(() => {
+    if (context) hitRef.current?.scrollIntoView({ block: 'center' });
+  }, [context]);
+
+  return (
+    <Sheet open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className='w-full overflow-y-auto sm:max-w-2xl'>
+        <SheetHeader>
+          <SheetTitle className='flex flex-wrap items-center gap-2'>
+            {item?.source}
+            {item?.article_no && (
+              <Badge variant='outline'>{item.article_no}</Badge>
+            )}
+          </SheetTitle>
+          <SheetDescription>
+            {context && !context.article
+              ? '此段落不屬於任何條文，顯示前後文'
+              : item?.chapter || '完整條文'}
+          </SheetDescription>
+        </SheetHeader>
+        <div className='space-y-2 px-4 pb-4'>
+          <ContextStatus isLoading={isLoading} error={error} />
+          {context &&
+            chunks.map((chunk) => (
+              <ContextChunkText
+                key={chunk.id}
+                chunk={chunk}
+                isHit={chunk.id === context.hit.id}
+                hitRef={hitRef}
+              />
+            ))}
+          {item && (
+            <Button variant='outline' size='sm' asChild>
+              <Link href={sourceReaderHref(item.source)}>
+                <IconExternalLink className='size-4' />
+                閱讀整份文件
+              </Link>
+            </Button>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
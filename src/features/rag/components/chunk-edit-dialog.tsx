@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconLoader2,
+  IconPencil,
+  IconX
+} from '@tabler/icons-react';
+import { RevisionHistory } from './revision-history';
+import { ragClient } from '@/lib/rag/client';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { describeNormalization } from '@/features/rag/utils/normalization';
+import type { SearchResult } from '@/types/rag';
+
+interface ChunkEditDialogProps {
+  /** 編輯中的 chunk；null 時關閉 */
+  item: SearchResult | null;
+  onClose: () => void;
+  /** 儲存或從歷史紀錄還原後的內容（以正規化後實際寫入的內容為準） */
+  onContentChange: (id: string, content: string) => void;
+}
+
+/**
+ * 編輯 chunk 內容並重新生成向量，另可檢視與還原歷史版本
+ */
+export function ChunkEditDialog({
+  item,
+  onClose,
+  onContentChange
+}: ChunkEditDialogProps) {
+  const [content, setContent] = useState('');
+  // 目前保存的內容，從歷史紀錄還原後隨之更新
+  const [savedContent, setSavedContent] = useState('');
+  const [tab, setTab] = useState<'edit' | 'history'>('edit');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error';
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    setContent(item?.content ?? '');
+    setSavedContent(item?.content ?? '');
+    setTab('edit');
+    setMessage(null);
+  }, [item]);
+
+  // 從歷史紀錄還原後同步本地內容
+  const handleRestored = (restored: string) => {
+    if (!item) return;
+    setSavedContent(restored);
+    setContent(restored);
+    onContentChange(item.id, restored);
+  };
+
+  const handleSave = async () => {
+    if (!item || !content.trim()) return;
+
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const result = await ragClient.update({
+        id: item.id,
+        content,
+        regenerate_embedding: true
+      });
+
+      onContentChange(item.id, result.data.content);
+
+      const normalized = describeNormalization(result.normalization_rules);
+      setMessage({
+        type: 'success',
+        text: `儲存成功！已重新生成 embedding 向量。${normalized ? `（已套用${normalized}）` : ''}`
+      });
+
+      setTimeout(onClose, 1500);
+    } catch (err) {
+      console.error('儲存錯誤:', err);
+      setMessage({ type: 'error', text: getErrorMessage(err, '儲存失敗') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className='flex max-h-[80vh] max-w-3xl flex-col overflow-hidden'>
+        <DialogHeader>
+          <DialogTitle className='flex items-center gap-2'>
+            <IconPencil className='size-5' />
+            編輯法規內容
+          </DialogTitle>
+          <DialogDescription>
+            修改後會自動重新生成 embedding
+            向量以確保搜尋準確性，舊內容保存在歷史紀錄中
+          </DialogDescription>
+        </DialogHeader>
+
+        {item && (
+          <div className='flex-1 space-y-4 overflow-auto'>
+            <div className='flex items-center gap-2'>
+              <Badge variant='secondary'>{item.source}</Badge>
+              {item.doc_type && (
+                <Badge variant='outline'>{item.doc_type}</Badge>
+              )}
+            </div>
+
+            <Tabs
+              value={tab}
+              onValueChange={(value) => setTab(value as 'edit' | 'history')}
+            >
+              <TabsList>
+                <TabsTrigger value='edit'>編輯</TabsTrigger>
+                <TabsTrigger value='history'>歷史紀錄</TabsTrigger>
+              </TabsList>
+              <TabsContent value='edit' className='mt-3'>
+                <Textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  className='min-h-[300px] font-mono text-sm'
+                  placeholder='輸入法規內容...'
+                />
+              </TabsContent>
+              <TabsContent value='history' className='mt-3'>
+                <RevisionHistory
+                  regulationId={item.id}
+                  currentContent={savedContent}
+                  onRestored={handleRestored}
+                />
+              </TabsContent>
+            </Tabs>
+
+            {tab === 'edit' && message && (
+              <div
+                className={`flex items-center gap-2 rounded-lg p-3 ${
+                  message.type === 'success'
+                    ? 'border border-green-200 bg-green-50 text-green-700'
+                    : 'border border-red-200 bg-red-50 text-red-700'
+                }`}
+              >
+                {message.type === 'success' ? (
+                  <IconCheck className='size-4' />
+                ) : (
+                  <IconAlertCircle className='size-4' />
+                )}
+                {message.text}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className='gap-2'>
+          <Button variant='outline' onClick={onClose} disabled={isSaving}>
+            <IconX className='mr-1 size-4' />
+            {tab === 'edit' ? '取消' : '關閉'}
+          </Button>
+          {tab === 'edit' && (
+            <Button onClick={handleSave} disabled={isSaving || !content.trim()}>
+              {isSaving ? (
+                <IconLoader2 className='mr-1 size-4 animate-spin' />
+              ) : (
+                <IconCheck className='mr-1 size-4' />
+              )}
+              儲存並更新向量
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
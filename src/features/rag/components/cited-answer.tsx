@@ -0,0 +1,63 @@
+'use client';
+
+import { Fragment } from 'react';
+import type { AnswerCitation } from '@/types/rag';
+
+interface CitedAnswerProps {
+  answer: string;
+  citations: AnswerCitation[];
+  onCitationClick?: (citation: AnswerCitation) => void;
+  /** 同頁有多組來源（例如多輪對話）時用來區分錨點 */
+  anchorScope?: string;
+}
+
+/** 來源卡片的 DOM id，供引用連結定位 */
+export function sourceAnchorId(id: string, scope?: string) {
+  return scope ? `rag-source-${scope}-${id}` : `rag-source-${id}`;
+}
+
+/**
+ * 渲染帶 [n] 引用的回答，引用標記轉為連到來源卡片的連結
+ */
+export function CitedAnswer({
+  answer,
+  citations,
+  onCitationClick,
+  anchorScope
+}: CitedAnswerProps) {
+  const byMarker = new Map(citations.map((c) => [c.marker, c]));
+  const parts = answer.split(/(\[\d+\])/g);
+
+  return (
+    <p className='text-base leading-relaxed whitespace-pre-wrap'>
+      {parts.map((part, i) => {
+        const marker = part.match(/^\[(\d+)\]$/)?.[1];
+        const citation = marker ? byMarker.get(Number(marker)) : undefined;
+
+        if (!citation) return <Fragment key={i}>{part}</Fragment>;
+
+        const label = [citation.source, citation.article_no]
+          .filter(Boolean)
+          .join(' ');
+
+        return (
+          <a
+            key={i}
+            href={`#${sourceAnchorId(citation.id, anchorScope)}`}
+            title={label}
+            onClick={(e) => {
+              e.preventDefault();
+              document
+                .getElementById(sourceAnchorId(citation.id, anchorScope))
+                ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+              onCitationClick?.(citation);
+            }}
+            className='text-primary mx-0.5 align-super text-xs font-medium hover:underline'
+          >
+            [{citation.marker}]
+          </a>
+        );
+      })}
+    </p>
+  );
+}
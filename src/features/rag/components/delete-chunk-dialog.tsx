@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { IconLoader2 } from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import type { SearchResult } from '@/types/rag';
+
+interface DeleteChunkDialogProps {
+  /** 待確認刪除的 chunk；null 時關閉 */
+  item: SearchResult | null;
+  onClose: () => void;
+  /** 刪除成功，undoWindowMs 為伺服器端的復原期限 */
+  onDeleted: (item: SearchResult, undoWindowMs: number) => void;
+}
+
+/**
+ * 刪除 chunk 前的確認；刪除完成才關閉
+ */
+export function DeleteChunkDialog({
+  item,
+  onClose,
+  onDeleted
+}: DeleteChunkDialogProps) {
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleDelete = async () => {
+    if (!item) return;
+
+    setIsDeleting(true);
+    try {
+      const result = await ragClient.chunks.remove(item.id);
+      onDeleted(item, result.undo_window_ms);
+      onClose();
+    } catch (err) {
+      console.error('刪除錯誤:', err);
+      toast.error(getErrorMessage(err, '刪除失敗'));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog
+      open={!!item}
+      onOpenChange={(open) => !open && !isDeleting && onClose()}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>確定要刪除這個 chunk？</AlertDialogTitle>
+          <AlertDialogDescription>
+            {item?.source}
+            {item?.article_no && ` ${item.article_no}`}
+            的內容與向量會一併移除，刪除後短時間內可以復原。
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>取消</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={isDeleting}
+            onClick={(e) => {
+              // 等刪除完成再關閉
+              e.preventDefault();
+              handleDelete();
+            }}
+            className='bg-destructive hover:bg-destructive/90 text-white'
+          >
+            {isDeleting && <IconLoader2 className='mr-1 size-4 animate-spin' />}
+            刪除
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import * as React from 'react';
+import type { Option } from '@/types/data-table';
+import { PlusCircle, XCircle } from 'lucide-react';
+import { CheckIcon } from '@radix-ui/react-icons';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { cn } from '@/lib/utils';
+
+interface FacetFilterProps {
+  title: string;
+  options: Option[];
+  value: string[];
+  onValueChange: (value: string[]) => void;
+}
+
+/**
+ * 多選分面篩選，外觀與 DataTableFacetedFilter 相同，但不綁定表格欄位
+ */
+export function FacetFilter({
+  title,
+  options,
+  value,
+  onValueChange
+}: FacetFilterProps) {
+  const [open, setOpen] = React.useState(false);
+  const selectedValues = React.useMemo(() => new Set(value), [value]);
+
+  // 網址中已選但目前結果沒有的值仍要列出，才能取消勾選
+  const allOptions = React.useMemo(
+    () => [
+      ...options,
+      ...value
+        .filter((v) => !options.some((option) => option.value === v))
+        .map((v) => ({ label: v, value: v, count: 0 }))
+    ],
+    [options, value]
+  );
+
+  const onItemSelect = (option: Option, isSelected: boolean) => {
+    const next = new Set(selectedValues);
+    if (isSelected) {
+      next.delete(option.value);
+    } else {
+      next.add(option.value);
+    }
+    onValueChange(Array.from(next));
+  };
+
+  const onReset = (event?: React.MouseEvent) => {
+    event?.stopPropagation();
+    onValueChange([]);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant='outline'
+          size='sm'
+          className='w-full justify-start border-dashed'
+        >
+          {selectedValues.size > 0 ? (
+            <div
+              role='button'
+              aria-label={`清除${title}篩選`}
+              tabIndex={0}
+              onClick={onReset}
+              className='focus-visible:ring-ring rounded-sm opacity-70 transition-opacity hover:opacity-100 focus-visible:ring-1 focus-visible:outline-none'
+            >
+              <XCircle />
+            </div>
+          ) : (
+            <PlusCircle />
+          )}
+          {title}
+          {selectedValues.size > 0 && (
+            <>
+              <Separator
+                orientation='vertical'
+                className='mx-0.5 data-[orientation=vertical]:h-4'
+              />
+              <Badge
+                variant='secondary'
+                className='rounded-sm px-1 font-normal'
+              >
+                {selectedValues.size}
+              </Badge>
+            </>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className='w-[16rem] p-0' align='start'>
+        <Command>
+          <CommandInput placeholder={title} />
+          <CommandList className='max-h-full'>
+            <CommandEmpty>找不到選項</CommandEmpty>
+            <CommandGroup className='max-h-[18.75rem] overflow-x-hidden overflow-y-auto'>
+              {allOptions.map((option) => {
+                const isSelected = selectedValues.has(option.value);
+
+                return (
+                  <CommandItem
+                    key={option.value}
+                    onSelect={() => onItemSelect(option, isSelected)}
+                  >
+                    <div
+                      className={cn(
+                        'border-primary flex size-4 items-center justify-center rounded-sm border',
+                        isSelected
+                          ? 'bg-primary'
+                          : 'opacity-50 [&_svg]:invisible'
+                      )}
+                    >
+                      <CheckIcon />
+                    </div>
+                    <span className='truncate'>{option.label}</span>
+                    {option.count !== undefined && (
+                      <span className='ml-auto font-mono text-xs'>
+                        {option.count}
+                      </span>
+                    )}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+            {selectedValues.size > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup>
+                  <CommandItem
+                    onSelect={() => onReset()}
+                    className='justify-center text-center'
+                  >
+                    清除篩選
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
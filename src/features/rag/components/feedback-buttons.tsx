@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { IconQuoteOff, IconThumbDown, IconThumbUp } from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { FeedbackRating } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import type { AnswerCitation } from '@/types/rag';
+
+interface FeedbackButtonsProps {
+  /** 產生此結果的查詢 */
+  query: string;
+  target: 'result' | 'answer';
+  /** 搜尋結果的 chunk id（target 為 result 時必填） */
+  regulationId?: string;
+  /** 結果被回答引用時可回報引用錯誤 */
+  cited?: boolean;
+  /** 回答的引用清單，供回答卡片選擇哪個引用有誤 */
+  citations?: AnswerCitation[];
+}
+
+/**
+ * 讚／倒讚／引用錯誤的回饋按鈕，同一項目每種回饋只送出一次
+ */
+export function FeedbackButtons({
+  query,
+  target,
+  regulationId,
+  cited,
+  citations = []
+}: FeedbackButtonsProps) {
+  const [sent, setSent] = useState<Set<string>>(new Set());
+  const [isSending, setIsSending] = useState(false);
+
+  const send = async (rating: FeedbackRating, chunkId = regulationId) => {
+    const key = `${rating}:${chunkId ?? ''}`;
+    if (sent.has(key)) return;
+
+    setIsSending(true);
+    try {
+      await ragClient.feedback.submit({
+        query,
+        target,
+        rating,
+        regulation_id: chunkId ?? null
+      });
+      setSent((prev) => new Set(prev).add(key));
+      toast.success('已送出回饋，感謝協助改善搜尋品質');
+    } catch (err) {
+      console.error('送出回饋錯誤:', err);
+      toast.error(getErrorMessage(err, '送出回饋失敗'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const isSent = (rating: FeedbackRating, chunkId = regulationId) =>
+    sent.has(`${rating}:${chunkId ?? ''}`);
+  const rated = isSent('up') || isSent('down');
+
+  return (
+    <div className='flex items-center gap-1'>
+      <Button
+        variant='ghost'
+        size='sm'
+        title='有幫助'
+        onClick={() => send('up')}
+        disabled={isSending || rated}
+        className={`h-8 w-8 p-0 ${isSent('up') ? 'text-green-600' : ''}`}
+      >
+        <IconThumbUp className='size-4' />
+      </Button>
+      <Button
+        variant='ghost'
+        size='sm'
+        title='沒有幫助'
+        onClick={() => send('down')}
+        disabled={isSending || rated}
+        className={`h-8 w-8 p-0 ${isSent('down') ? 'text-red-600' : ''}`}
+      >
+        <IconThumbDown className='size-4' />
+      </Button>
+      {target === 'result' && cited && (
+        <Button
+          variant='ghost'
+          size='sm'
+          title='引用錯誤：回答引用了此來源但內容不符'
+          onClick={() => send('wrong_citation')}
+          disabled={isSending || isSent('wrong_citation')}
+          className={`h-8 w-8 p-0 ${isSent('wrong_citation') ? 'text-red-600' : ''}`}
+        >
+          <IconQuoteOff className='size-4' />
+        </Button>
+      )}
+      {target === 'answer' && citations.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant='ghost'
+              size='sm'
+              title='回報引用錯誤'
+              disabled={isSending}
+              className='h-8 w-8 p-0'
+            >
+              <IconQuoteOff className='size-4' />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align='end'>
+            <DropdownMenuLabel>哪個引用有誤？</DropdownMenuLabel>
+            {citations.map((citation) => (
+              <DropdownMenuItem
+                key={citation.marker}
+                disabled={isSent('wrong_citation', citation.id)}
+                onSelect={() => send('wrong_citation', citation.id)}
+              >
+                [{citation.marker}]{' '}
+                {[citation.source, citation.article_no]
+                  .filter(Boolean)
+                  .join(' ')}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter
+} from '@/components/ui/card';
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconLoader2,
+  IconMessageReport,
+  IconPencil,
+  IconRefresh
+} from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { FeedbackListResponse, FeedbackRating } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import type { SearchResult } from '@/types/rag';
+
+type FeedbackItem = FeedbackListResponse['data'][number];
+type QueueStatus = 'open' | 'resolved';
+
+const PAGE_SIZE = 10;
+
+const RATING_LABELS: Record<FeedbackRating, string> = {
+  up: '有幫助',
+  down: '沒有幫助',
+  wrong_citation: '引用錯誤'
+};
+
+interface FeedbackQueueProps {
+  /** 以頁面既有的編輯對話框修正 chunk */
+  onEdit: (item: SearchResult) => void;
+}
+
+function toSearchResult(chunk: NonNullable<FeedbackItem['chunk']>) {
+  return {
+    id: chunk.id,
+    content: chunk.content,
+    source: chunk.source,
+    similarity: 0,
+    article_no: chunk.article_no ?? undefined,
+    chunk_idx: chunk.chunk_idx,
+    doc_type: chunk.doc_type ?? undefined
+  } satisfies SearchResult;
+}
+
+/**
+ * 負面回饋審核佇列：檢視使用者回報的問題、修正 chunk 後標記已處理
+ */
+export function FeedbackQueue({ onEdit }: FeedbackQueueProps) {
+  const [status, setStatus] = useState<QueueStatus>('open');
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<FeedbackItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await ragClient.feedback.list({
+        status,
+        page,
+        page_size: PAGE_SIZE
+      });
+      setItems(result.data);
+      setTotal(result.total);
+    } catch (err) {
+      console.error('載入回饋錯誤:', err);
+      setError(getErrorMessage(err, '載入回饋失敗'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleResolve = async (item: FeedbackItem) => {
+    setResolvingId(item.id);
+    try {
+      await ragClient.feedback.resolve(item.id);
+      toast.success('已標記為已處理');
+      await loadQueue();
+    } catch (err) {
+      console.error('處理回饋錯誤:', err);
+      toast.error(getErrorMessage(err, '處理回饋失敗'));
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader className='flex flex-row items-start justify-between'>
+        <div className='space-y-1.5'>
+          <CardTitle className='flex items-center gap-2'>
+            <IconMessageReport className='size-5' />
+            回饋審核
+          </CardTitle>
+          <CardDescription>
+            使用者回報沒有幫助或引用錯誤的結果，修正 chunk 後標記為已處理
+          </CardDescription>
+        </div>
+        <div className='flex items-center gap-2'>
+          <ToggleGroup
+            type='single'
+            variant='outline'
+            size='sm'
+            value={status}
+            onValueChange={(value) => {
+              if (!value) return;
+              setStatus(value as QueueStatus);
+              setPage(1);
+            }}
+          >
+            <ToggleGroupItem value='open'>待處理</ToggleGroupItem>
+            <ToggleGroupItem value='resolved'>已處理</ToggleGroupItem>
+          </ToggleGroup>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={loadQueue}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <IconLoader2 className='size-4 animate-spin' />
+            ) : (
+              <IconRefresh className='size-4' />
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {error && (
+          <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700'>
+            <IconAlertCircle className='size-4' />
+            {error}
+          </div>
+        )}
+
+        {!isLoading && items.length === 0 && !error && (
+          <p className='text-muted-foreground py-8 text-center text-sm'>
+            {status === 'open' ? '沒有待處理的回饋' : '尚無已處理的回饋'}
+          </p>
+        )}
+
+        {items.map((item) => (
+          <div key={item.id} className='space-y-2 rounded-lg border p-4'>
+            <div className='flex items-start justify-between gap-2'>
+              <div className='space-y-1'>
+                <div className='flex flex-wrap items-center gap-2'>
+                  <Badge variant='destructive'>
+                    {RATING_LABELS[item.rating]}
+                  </Badge>
+                  <Badge variant='outline'>
+                    {item.target === 'answer' ? '回答' : '搜尋結果'}
+                  </Badge>
+                  {item.chunk && (
+                    <Badge variant='secondary'>
+                      {[item.chunk.source, item.chunk.article_no]
+                        .filter(Boolean)
+                        .join(' ')}
+                    </Badge>
+                  )}
+                </div>
+                <p className='text-sm font-medium'>查詢：{item.query}</p>
+                {item.comment && (
+                  <p className='text-muted-foreground text-sm'>
+                    {item.comment}
+                  </p>
+                )}
+              </div>
+              <div className='flex shrink-0 items-center gap-1'>
+                {item.chunk && (
+                  <Button
+                    variant='ghost'
+                    size='sm'
+                    title='編輯 chunk'
+                    onClick={() =>
+                      item.chunk && onEdit(toSearchResult(item.chunk))
+                    }
+                    className='h-8 w-8 p-0'
+                  >
+                    <IconPencil className='size-4' />
+                  </Button>
+                )}
+                {!item.resolved_at && (
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => handleResolve(item)}
+                    disabled={resolvingId === item.id}
+                  >
+                    {resolvingId === item.id ? (
+                      <IconLoader2 className='size-4 animate-spin' />
+                    ) : (
+                      <IconCheck className='size-4' />
+                    )}
+                    已處理
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {item.chunk ? (
+              <p className='bg-muted/30 line-clamp-3 rounded-md p-2 text-sm whitespace-pre-wrap'>
+                {item.chunk.content}
+              </p>
+            ) : (
+              item.regulation_id && (
+                <p className='text-muted-foreground text-xs'>
+                  chunk 已刪除（{item.regulation_id}）
+                </p>
+              )
+            )}
+
+            <p className='text-muted-foreground text-xs'>
+              {item.user_name || '未具名'}・
+              {new Date(item.created_at).toLocaleString('zh-TW')}
+              {item.resolved_at &&
+                `・由 ${item.resolved_by || '未具名'} 於 ${new Date(item.resolved_at).toLocaleString('zh-TW')} 處理`}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+      {total > PAGE_SIZE && (
+        <CardFooter className='justify-between'>
+          <span className='text-muted-foreground text-sm'>
+            第 {page} / {pageCount} 頁，共 {total} 筆
+          </span>
+          <div className='flex gap-2'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1 || isLoading}
+            >
+              上一頁
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= pageCount || isLoading}
+            >
+              下一頁
+            </Button>
+          </div>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,525 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  IconAlertCircle,
+  IconArrowRight,
+  IconCheck,
+  IconEdit,
+  IconLoader2,
+  IconPlus,
+  IconTrash,
+  IconX
+} from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { GlossaryTermResponse, QueryExpansion } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import type { RagSession } from '@/types/rag';
+
+type GlossaryTerm = GlossaryTermResponse['data'];
+
+// 同義詞輸入框以逗號或頓號分隔
+function parseSynonyms(text: string) {
+  return text
+    .split(/[,，、]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+interface GlossaryTermDialogProps {
+  /** 要編輯的詞彙；null 為新增 */
+  term: GlossaryTerm | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (term: GlossaryTerm) => void;
+}
+
+function GlossaryTermDialog({
+  term,
+  open,
+  onOpenChange,
+  onSaved
+}: GlossaryTermDialogProps) {
+  const [preferred, setPreferred] = useState('');
+  const [synonyms, setSynonyms] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 每次開啟時帶入目前內容
+  useEffect(() => {
+    if (!open) return;
+    setPreferred(term?.preferred ?? '');
+    setSynonyms(term?.synonyms.join(', ') ?? '');
+    setDescription(term?.description ?? '');
+    setError(null);
+  }, [open, term]);
+
+  const handleSave = async () => {
+    if (!preferred.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    const body = {
+      preferred,
+      synonyms: parseSynonyms(synonyms),
+      description: description.trim() || null
+    };
+
+    try {
+      const { data } = term
+        ? await ragClient.glossary.update(term.id, body)
+        : await ragClient.glossary.create(body);
+
+      onSaved(data);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('儲存詞彙錯誤:', err);
+      setError(getErrorMessage(err, '儲存失敗'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !isSaving && onOpenChange(next)}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{term ? '編輯詞彙' : '新增詞彙'}</DialogTitle>
+          <DialogDescription>
+            搜尋時同義詞會改寫為標準用語，關鍵字檢索同時比對所有說法
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='space-y-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='glossary-preferred'>標準用語</Label>
+            <Input
+              id='glossary-preferred'
+              value={preferred}
+              onChange={(e) => setPreferred(e.target.value)}
+              placeholder='法規使用的說法，例如：安培容量'
+            />
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='glossary-synonyms'>同義詞</Label>
+            <Input
+              id='glossary-synonyms'
+              value={synonyms}
+              onChange={(e) => setSynonyms(e.target.value)}
+              placeholder='以逗號分隔，例如：載流量, 容許電流'
+            />
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='glossary-description'>說明</Label>
+            <Textarea
+              id='glossary-description'
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder='選填'
+            />
+          </div>
+
+          {error && (
+            <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700'>
+              <IconAlertCircle className='size-4' />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className='gap-2'>
+          <Button
+            variant='outline'
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            <IconX className='mr-1 size-4' />
+            取消
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !preferred.trim()}>
+            {isSaving ? (
+              <IconLoader2 className='mr-1 size-4 animate-spin' />
+            ) : (
+              <IconCheck className='mr-1 size-4' />
+            )}
+            儲存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * 顯示查詢套用了哪些詞彙改寫，例如「載流量 → 安培容量」
+ */
+export function QueryExpansionBadges({
+  expansion
+}: {
+  expansion: QueryExpansion;
+}) {
+  return (
+    <div className='flex flex-wrap items-center gap-1'>
+      {expansion.applied.map((item) => (
+        <Badge
+          key={`${item.matched}-${item.preferred}`}
+          variant='secondary'
+          title={
+            item.expanded_terms.length > 0
+              ? `關鍵字另外比對：${item.expanded_terms.join('、')}`
+              : undefined
+          }
+        >
+          {item.matched === item.preferred ? (
+            item.preferred
+          ) : (
+            <>
+              {item.matched}
+              <IconArrowRight className='size-3' />
+              {item.preferred}
+            </>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function GlossaryPreview() {
+  const [query, setQuery] = useState('');
+  const [expansion, setExpansion] = useState<QueryExpansion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 輸入停頓後再試算，避免每個字都送出請求
+  useEffect(() => {
+    const text = query.trim();
+    if (!text) {
+      setExpansion(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      ragClient.glossary
+        .preview(text)
+        .then(({ data }) => {
+          if (!cancelled) {
+            setExpansion(data);
+            setError(null);
+          }
+        })
+        .catch((err) => {
+          console.error('詞彙改寫預覽錯誤:', err);
+          if (!cancelled) setError(getErrorMessage(err, '預覽失敗'));
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='text-base'>改寫預覽</CardTitle>
+        <CardDescription>輸入查詢，檢查搜尋時會套用哪些詞彙</CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='例如：22平方電線的載流量'
+        />
+        {error && <p className='text-destructive text-sm'>{error}</p>}
+        {expansion && (
+          <div className='space-y-2 text-sm'>
+            <p>
+              <span className='text-muted-foreground'>改寫後：</span>
+              {expansion.normalized_query}
+            </p>
+            {expansion.applied.length > 0 ? (
+              <QueryExpansionBadges expansion={expansion} />
+            ) : (
+              <p className='text-muted-foreground'>沒有符合的詞彙</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * 詞彙表管理：列出標準用語與同義詞，可編輯者可新增、修改與刪除
+ */
+export function GlossaryEditor() {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [session, setSession] = useState<RagSession | null>(null);
+  const [keyword, setKeyword] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingTerm, setEditingTerm] = useState<GlossaryTerm | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deletingTerm, setDeletingTerm] = useState<GlossaryTerm | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const canEdit = session?.can_edit ?? false;
+
+  useEffect(() => {
+    ragClient.glossary
+      .list()
+      .then(({ data }) => setTerms(data))
+      .catch((err) => {
+        console.error('載入詞彙表錯誤:', err);
+        setError(getErrorMessage(err, '載入詞彙表失敗'));
+      })
+      .finally(() => setIsLoading(false));
+
+    ragClient.auth
+      .session()
+      .then(({ data }) => setSession(data))
+      .catch((err) => console.error('載入登入狀態錯誤:', err));
+  }, []);
+
+  const filtered = useMemo(() => {
+    const term = keyword.trim().toLowerCase();
+    if (!term) return terms;
+    return terms.filter((t) =>
+      [t.preferred, ...t.synonyms].some((form) =>
+        form.toLowerCase().includes(term)
+      )
+    );
+  }, [terms, keyword]);
+
+  const openDialog = (term: GlossaryTerm | null) => {
+    setEditingTerm(term);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaved = (saved: GlossaryTerm) => {
+    setTerms((prev) =>
+      [...prev.filter((t) => t.id !== saved.id), saved].sort((a, b) =>
+        a.preferred.localeCompare(b.preferred)
+      )
+    );
+    toast.success(editingTerm ? '已更新詞彙' : '已新增詞彙', {
+      description: saved.preferred
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTerm) return;
+
+    const term = deletingTerm;
+    setIsDeleting(true);
+
+    try {
+      await ragClient.glossary.remove(term.id);
+      setTerms((prev) => prev.filter((t) => t.id !== term.id));
+      setDeletingTerm(null);
+      toast('已刪除詞彙', { description: term.preferred });
+    } catch (err) {
+      console.error('刪除詞彙錯誤:', err);
+      toast.error(getErrorMessage(err, '刪除失敗'));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className='space-y-4'>
+      <GlossaryPreview />
+
+      <Card>
+        <CardContent className='space-y-4'>
+          <div className='flex flex-wrap items-center justify-between gap-2'>
+            <Input
+              placeholder='搜尋用語或同義詞'
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              className='max-w-sm'
+            />
+            {canEdit && (
+              <Button size='sm' onClick={() => openDialog(null)}>
+                <IconPlus className='mr-1 size-4' />
+                新增詞彙
+              </Button>
+            )}
+          </div>
+
+          {error && (
+            <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700'>
+              <IconAlertCircle className='size-4' />
+              {error}
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>標準用語</TableHead>
+                <TableHead>同義詞</TableHead>
+                <TableHead>說明</TableHead>
+                <TableHead className='text-right'>最後更新</TableHead>
+                {canEdit && <TableHead className='w-24' />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={5}>
+                    <div className='text-muted-foreground flex items-center justify-center gap-2 py-6'>
+                      <IconLoader2 className='size-4 animate-spin' />
+                      載入中...
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!isLoading && filtered.length === 0 && !error && (
+                <TableRow>
+                  <TableCell
+                    colSpan={5}
+                    className='text-muted-foreground py-6 text-center'
+                  >
+                    {terms.length === 0 ? '尚未建立任何詞彙' : '沒有符合的詞彙'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {filtered.map((term) => (
+                <TableRow key={term.id}>
+                  <TableCell className='font-medium'>
+                    {term.preferred}
+                  </TableCell>
+                  <TableCell>
+                    <div className='flex flex-wrap gap-1'>
+                      {term.synonyms.map((synonym) => (
+                        <Badge key={synonym} variant='outline'>
+                          {synonym}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className='text-muted-foreground max-w-xs truncate'>
+                    {term.description}
+                  </TableCell>
+                  <TableCell className='text-muted-foreground text-right'>
+                    {new Date(term.updated_at).toLocaleString('zh-TW')}
+                    {term.updated_by && (
+                      <div className='text-xs'>{term.updated_by}</div>
+                    )}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <div className='flex justify-end gap-1'>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          title='編輯'
+                          onClick={() => openDialog(term)}
+                        >
+                          <IconEdit className='size-4' />
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          title='刪除'
+                          onClick={() => setDeletingTerm(term)}
+                        >
+                          <IconTrash className='size-4' />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <GlossaryTermDialog
+        term={editingTerm}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog
+        open={!!deletingTerm}
+        onOpenChange={(open) => !open && !isDeleting && setDeletingTerm(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>確定要刪除這個詞彙？</AlertDialogTitle>
+            <AlertDialogDescription>
+              刪除「{deletingTerm?.preferred}」後，搜尋不再改寫它的同義詞。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>取消</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isDeleting}
+              onClick={(e) => {
+                // 等刪除完成再關閉
+                e.preventDefault();
+                handleDelete();
+              }}
+              className='bg-destructive hover:bg-destructive/90 text-white'
+            >
+              {isDeleting && (
+                <IconLoader2 className='mr-1 size-4 animate-spin' />
+              )}
+              刪除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
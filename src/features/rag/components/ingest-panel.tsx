@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { FileUploader } from '@/components/file-uploader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter
+} from '@/components/ui/card';
+import {
+  IconUpload,
+  IconLoader2,
+  IconCheck,
+  IconAlertCircle
+} from '@tabler/icons-react';
+import { ragClient, RagClientError } from '@/lib/rag/client';
+import type { IngestResponse } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { describeNormalization } from '@/features/rag/utils/normalization';
+
+const ACCEPTED_DOCUMENT_TYPES = {
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [
+    '.docx'
+  ],
+  'text/markdown': ['.md', '.markdown'],
+  'text/plain': ['.txt']
+};
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+export type IngestResult = IngestResponse['data'];
+
+interface IngestPanelProps {
+  disabled?: boolean;
+  onIngested?: (result: IngestResult) => void;
+}
+
+export function IngestPanel({ disabled, onIngested }: IngestPanelProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [source, setSource] = useState('');
+  const [docType, setDocType] = useState('');
+  const [tags, setTags] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error';
+    text: string;
+  } | null>(null);
+
+  const handleIngest = async () => {
+    const file = files[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    setMessage(null);
+
+    try {
+      const { data } = await ragClient.ingest({
+        file,
+        source: source.trim(),
+        doc_type: docType.trim(),
+        tags: tags.trim(),
+        effective_date: effectiveDate,
+        replace: replaceExisting
+      });
+
+      const normalized = describeNormalization(data.normalization_rules);
+      setMessage({
+        type: 'success',
+        text: `已匯入「${data.source}」，共 ${data.inserted} 個 chunks（${data.article_count} 條條文）${normalized ? `，已套用${normalized}` : ''}`
+      });
+      setFiles([]);
+      setSource('');
+      onIngested?.(data);
+    } catch (err) {
+      console.error('匯入錯誤:', err);
+      // 來源重複時顯示伺服器的說明（含既有 chunk 數）
+      const text =
+        err instanceof RagClientError && err.code === 'CONFLICT'
+          ? err.message
+          : getErrorMessage(err, '匯入失敗');
+      setMessage({ type: 'error', text });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <IconUpload className='size-5' />
+          匯入法規文件
+        </CardTitle>
+        <CardDescription>
+          支援 PDF、DOCX、Markdown 與純文字，上傳後依章節條文切塊並生成向量
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <FileUploader
+          value={files}
+          onValueChange={setFiles}
+          accept={ACCEPTED_DOCUMENT_TYPES}
+          maxSize={MAX_FILE_SIZE}
+          maxFiles={1}
+          disabled={disabled || isUploading}
+        />
+        <div className='grid grid-cols-1 gap-4 md:grid-cols-2'>
+          <div className='space-y-2'>
+            <Label htmlFor='ingest-source'>來源名稱</Label>
+            <Input
+              id='ingest-source'
+              placeholder='預設使用檔名，例如：用戶用電設備裝置規則'
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              disabled={isUploading}
+            />
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='ingest-doc-type'>文件類型</Label>
+            <Input
+              id='ingest-doc-type'
+              placeholder='例如：regulation'
+              value={docType}
+              onChange={(e) => setDocType(e.target.value)}
+              disabled={isUploading}
+            />
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='ingest-tags'>標籤</Label>
+            <Input
+              id='ingest-tags'
+              placeholder='以逗號分隔，例如：室內配線, 接地'
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              disabled={isUploading}
+            />
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='ingest-effective-date'>施行日期</Label>
+            <Input
+              id='ingest-effective-date'
+              type='date'
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              disabled={isUploading}
+            />
+          </div>
+        </div>
+        <div className='flex items-center gap-2'>
+          <Switch
+            id='ingest-replace'
+            checked={replaceExisting}
+            onCheckedChange={setReplaceExisting}
+            disabled={isUploading}
+          />
+          <Label htmlFor='ingest-replace'>取代同來源的既有資料</Label>
+        </div>
+
+        {message && (
+          <div
+            className={`flex items-center gap-2 rounded-lg p-3 ${
+              message.type === 'success'
+                ? 'border border-green-200 bg-green-50 text-green-700'
+                : 'border border-red-200 bg-red-50 text-red-700'
+            }`}
+          >
+            {message.type === 'success' ? (
+              <IconCheck className='size-4' />
+            ) : (
+              <IconAlertCircle className='size-4' />
+            )}
+            {message.text}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className='justify-between'>
+        <Badge variant='outline'>單檔上限 20MB</Badge>
+        <Button
+          onClick={handleIngest}
+          disabled={disabled || isUploading || files.length === 0}
+        >
+          {isUploading ? (
+            <IconLoader2 className='size-4 animate-spin' />
+          ) : (
+            <IconUpload className='size-4' />
+          )}
+          匯入
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
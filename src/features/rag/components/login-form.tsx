@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import { IconAlertCircle, IconKey, IconLoader2 } from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+
+export function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [apiKey, setApiKey] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 只允許導回站內的 RAG 頁面
+  const next = searchParams.get('next');
+  const redirectTo =
+    next && next.startsWith('/dashboard/rag') ? next : '/dashboard/rag';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await ragClient.auth.login({ api_key: apiKey });
+
+      router.replace(redirectTo);
+      router.refresh();
+    } catch (err) {
+      setError(getErrorMessage(err, '登入失敗'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className='mx-auto w-full max-w-md'>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <IconKey className='size-5' />
+          RAG 知識庫登入
+        </CardTitle>
+        <CardDescription>
+          使用管理者核發的本地 API key 登入，不需連線外部服務
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className='space-y-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='rag-api-key'>API key</Label>
+            <Input
+              id='rag-api-key'
+              type='password'
+              autoComplete='off'
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+          </div>
+
+          {error && (
+            <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700'>
+              <IconAlertCircle className='size-4' />
+              {error}
+            </div>
+          )}
+
+          <Button
+            type='submit'
+            className='w-full'
+            disabled={isSubmitting || !apiKey.trim()}
+          >
+            {isSubmitting && (
+              <IconLoader2 className='mr-1 size-4 animate-spin' />
+            )}
+            登入
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import type { MatchedMaterial } from '@/lib/rag/schemas';
+
+/**
+ * 符合查詢中電壓、導體與截面積的材料建議
+ */
+export function MatchedMaterials({
+  materials
+}: {
+  materials: MatchedMaterial[];
+}) {
+  if (materials.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>符合規格的材料</CardTitle>
+        <CardDescription>
+          依查詢中的電壓、導體與截面積比對材料資料
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>材料名稱</TableHead>
+              <TableHead>規格</TableHead>
+              <TableHead className='text-right'>電壓</TableHead>
+              <TableHead>單位</TableHead>
+              <TableHead className='text-right'>單價</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {materials.map((material) => (
+              <TableRow key={material.id}>
+                <TableCell className='font-medium'>{material.name}</TableCell>
+                <TableCell>{material.spec || '-'}</TableCell>
+                <TableCell className='text-right'>
+                  {material.voltage ? `${material.voltage}V` : '-'}
+                </TableCell>
+                <TableCell>{material.unit}</TableCell>
+                <TableCell className='text-right'>${material.price}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconLoader2,
+  IconPlus,
+  IconX
+} from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { ChunkResponse } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+
+export type CreatedChunk = ChunkResponse['data'];
+
+interface NewChunkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 預先帶入的來源與文件類型（從結果卡片開啟時） */
+  defaults?: { source?: string; doc_type?: string | null };
+  onCreated?: (chunk: CreatedChunk) => void;
+}
+
+export function NewChunkDialog({
+  open,
+  onOpenChange,
+  defaults,
+  onCreated
+}: NewChunkDialogProps) {
+  const [source, setSource] = useState('');
+  const [docType, setDocType] = useState('');
+  const [articleNo, setArticleNo] = useState('');
+  const [content, setContent] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 每次開啟時重設表單
+  useEffect(() => {
+    if (!open) return;
+    setSource(defaults?.source ?? '');
+    setDocType(defaults?.doc_type ?? '');
+    setArticleNo('');
+    setContent('');
+    setError(null);
+  }, [open, defaults?.source, defaults?.doc_type]);
+
+  const handleCreate = async () => {
+    if (!source.trim() || !content.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { data } = await ragClient.chunks.create({
+        source,
+        content,
+        doc_type: docType.trim() || null,
+        article_no: articleNo.trim() || null
+      });
+
+      onCreated?.(data);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('新增 chunk 錯誤:', err);
+      setError(getErrorMessage(err, '新增失敗'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !isSaving && onOpenChange(next)}
+    >
+      <DialogContent className='max-w-2xl'>
+        <DialogHeader>
+          <DialogTitle className='flex items-center gap-2'>
+            <IconPlus className='size-5' />
+            新增法規 chunk
+          </DialogTitle>
+          <DialogDescription>
+            新增後會立即生成 embedding 向量，並可被搜尋
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='space-y-4'>
+          <div className='grid gap-4 sm:grid-cols-3'>
+            <div className='space-y-2'>
+              <Label htmlFor='new-chunk-source'>來源名稱</Label>
+              <Input
+                id='new-chunk-source'
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder='例如：用戶用電設備裝置規則'
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='new-chunk-doc-type'>文件類型</Label>
+              <Input
+                id='new-chunk-doc-type'
+                value={docType}
+                onChange={(e) => setDocType(e.target.value)}
+                placeholder='例如：法規、規範'
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='new-chunk-article'>條號</Label>
+              <Input
+                id='new-chunk-article'
+                value={articleNo}
+                onChange={(e) => setArticleNo(e.target.value)}
+                placeholder='例如：第12條'
+              />
+            </div>
+          </div>
+
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className='min-h-[200px] font-mono text-sm'
+            placeholder='輸入法規內容...'
+          />
+
+          {error && (
+            <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700'>
+              <IconAlertCircle className='size-4' />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className='gap-2'>
+          <Button
+            variant='outline'
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            <IconX className='mr-1 size-4' />
+            取消
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={isSaving || !source.trim() || !content.trim()}
+          >
+            {isSaving ? (
+              <IconLoader2 className='mr-1 size-4 animate-spin' />
+            ) : (
+              <IconCheck className='mr-1 size-4' />
+            )}
+            新增並生成向量
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { IconX } from '@tabler/icons-react';
+import { formatQuantity, quantityKey } from '@/lib/rag/query-parser';
+import type { QueryQuantity } from '@/lib/rag/schemas';
+
+interface QuantityChipsProps {
+  quantities: QueryQuantity[];
+  onRemove: (quantity: QueryQuantity) => void;
+  /** 已移除的規格數；大於 0 時顯示還原按鈕 */
+  removedCount: number;
+  onRestore: () => void;
+}
+
+/**
+ * 搜尋框下方顯示解析出的規格，移除後搜尋不再套用該規格
+ */
+export function QuantityChips({
+  quantities,
+  onRemove,
+  removedCount,
+  onRestore
+}: QuantityChipsProps) {
+  if (quantities.length === 0 && removedCount === 0) return null;
+
+  return (
+    <div className='mt-3 flex flex-wrap items-center gap-2'>
+      <span className='text-muted-foreground text-sm'>解析規格：</span>
+      {quantities.map((quantity) => (
+        <Badge
+          key={quantityKey(quantity)}
+          variant='secondary'
+          className='gap-1 pr-1'
+        >
+          {formatQuantity(quantity)}
+          <button
+            type='button'
+            title='不套用此規格'
+            onClick={() => onRemove(quantity)}
+            className='hover:bg-muted-foreground/20 rounded-sm p-0.5'
+          >
+            <IconX className='size-3' />
+          </button>
+        </Badge>
+      ))}
+      {removedCount > 0 && (
+        <Button
+          variant='link'
+          size='sm'
+          className='h-auto p-0'
+          onClick={onRestore}
+        >
+          還原已移除的 {removedCount} 項
+        </Button>
+      )}
+    </div>
+  );
+}
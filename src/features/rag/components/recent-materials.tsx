@@ -0,0 +1,75 @@
+'use client';
+
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardAction
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+
+export interface RecentMaterial {
+  id: string;
+  name: string;
+  unit: string;
+  price: number;
+  spec?: string;
+}
+
+/**
+ * 最近更新的材料，完整列表見材料頁
+ */
+export function RecentMaterials({
+  materials
+}: {
+  materials: RecentMaterial[];
+}) {
+  if (materials.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>材料資料</CardTitle>
+        <CardDescription>最近更新的 {materials.length} 筆材料</CardDescription>
+        <CardAction>
+          <Button variant='outline' size='sm' asChild>
+            <Link href='/dashboard/materials'>查看全部材料</Link>
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>材料名稱</TableHead>
+              <TableHead>規格</TableHead>
+              <TableHead>單位</TableHead>
+              <TableHead className='text-right'>單價</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {materials.map((material) => (
+              <TableRow key={material.id}>
+                <TableCell className='font-medium'>{material.name}</TableCell>
+                <TableCell>{material.spec || '-'}</TableCell>
+                <TableCell>{material.unit}</TableCell>
+                <TableCell className='text-right'>${material.price}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import {
+  IconRefresh,
+  IconPlayerPause,
+  IconLoader2,
+  IconAlertCircle,
+  IconCheck
+} from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { EmbeddingStatus } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+
+export type { EmbeddingStatus };
+
+interface ReembedPanelProps {
+  status: EmbeddingStatus | null;
+  disabled?: boolean;
+  onProgress?: () => void;
+}
+
+export function ReembedPanel({
+  status,
+  disabled,
+  onProgress
+}: ReembedPanelProps) {
+  const [targetModel, setTargetModel] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{
+    processed: number;
+    remaining: number;
+  } | null>(null);
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error';
+    text: string;
+  } | null>(null);
+  const pauseRef = useRef(false);
+
+  const total = status?.stats.reduce((sum, s) => sum + s.chunk_count, 0) ?? 0;
+  const model = targetModel.trim() || status?.model || '';
+
+  // 逐批呼叫直到沒有剩餘 chunk；暫停後再次開始會從剩下的 chunk 繼續
+  // 進度以伺服器回傳的總數與剩餘數計算，繼續時不會從 0 開始
+  const handleStart = async () => {
+    if (!model) return;
+
+    pauseRef.current = false;
+    setIsRunning(true);
+    setMessage(null);
+
+    try {
+      while (!pauseRef.current) {
+        const result = await ragClient.embeddings.reembed({ model });
+        const { remaining, total } = result.data;
+
+        setProgress({ processed: total - remaining, remaining });
+        onProgress?.();
+
+        if (result.data.done) {
+          setMessage({
+            type: 'success',
+            text:
+              model === status?.model
+                ? `已全部改用 ${model}`
+                : `已全部改用 ${model}，請將 EMBEDDING_MODEL 設為 ${model} 後重新啟動，搜尋才會啟用`
+          });
+          break;
+        }
+      }
+    } catch (err) {
+      console.error('重新生成向量錯誤:', err);
+      const text = getErrorMessage(err, '重新生成向量失敗');
+      setMessage({ type: 'error', text });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handlePause = () => {
+    pauseRef.current = true;
+  };
+
+  const percent =
+    progress && progress.processed + progress.remaining > 0
+      ? (progress.processed / (progress.processed + progress.remaining)) * 100
+      : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <IconRefresh className='size-5' />
+          重新生成向量
+        </CardTitle>
+        <CardDescription>
+          以新模型分批重新生成所有 chunk 的向量，可隨時暫停並從剩下的部分繼續
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <div className='flex flex-wrap gap-2'>
+          {status?.stats.map((stat) => (
+            <Badge
+              key={`${stat.embedding_model}-${stat.embedding_dim}`}
+              variant={
+                stat.embedding_model === status.model ? 'default' : 'outline'
+              }
+            >
+              {stat.embedding_model ?? '未標記'}（{stat.embedding_dim ?? '?'}{' '}
+              維）：{stat.chunk_count}
+            </Badge>
+          ))}
+          {total === 0 && (
+            <span className='text-muted-foreground text-sm'>尚無向量資料</span>
+          )}
+        </div>
+
+        <div className='flex items-end gap-4'>
+          <div className='flex-1 space-y-2'>
+            <Label htmlFor='reembed-model'>目標模型</Label>
+            <Input
+              id='reembed-model'
+              placeholder={status?.model || '例如：bge-m3'}
+              value={targetModel}
+              onChange={(e) => setTargetModel(e.target.value)}
+              disabled={isRunning}
+            />
+          </div>
+          {isRunning ? (
+            <Button variant='outline' onClick={handlePause}>
+              <IconPlayerPause className='size-4' />
+              暫停
+            </Button>
+          ) : (
+            <Button onClick={handleStart} disabled={disabled || !model}>
+              <IconRefresh className='size-4' />
+              {progress && progress.remaining > 0 ? '繼續' : '開始'}
+            </Button>
+          )}
+        </div>
+
+        {progress && (
+          <div className='space-y-1'>
+            <Progress value={percent} />
+            <div className='text-muted-foreground flex items-center gap-2 text-xs'>
+              {isRunning && <IconLoader2 className='size-3 animate-spin' />}
+              已處理 {progress.processed}，剩餘 {progress.remaining}
+            </div>
+          </div>
+        )}
+
+        {message && (
+          <div
+            className={`flex items-center gap-2 rounded-lg p-3 ${
+              message.type === 'success'
+                ? 'border border-green-200 bg-green-50 text-green-700'
+                : 'border border-red-200 bg-red-50 text-red-700'
+            }`}
+          >
+            {message.type === 'success' ? (
+              <IconCheck className='size-4' />
+            ) : (
+              <IconAlertCircle className='size-4' />
+            )}
+            {message.text}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
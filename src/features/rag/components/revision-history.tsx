@@ -0,0 +1,210 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  IconAlertCircle,
+  IconArrowBackUp,
+  IconCheck,
+  IconHistory,
+  IconLoader2
+} from '@tabler/icons-react';
+import { diffText } from '@/features/rag/utils/diff';
+import { ragClient } from '@/lib/rag/client';
+import type { Revision } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+
+export type RegulationRevision = Revision;
+
+interface RevisionHistoryProps {
+  regulationId: string;
+  currentContent: string;
+  onRestored?: (content: string) => void;
+}
+
+const ACTION_LABELS: Record<RegulationRevision['action'], string> = {
+  update: '編輯',
+  restore: '還原'
+};
+
+export function RevisionHistory({
+  regulationId,
+  currentContent,
+  onRestored
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RegulationRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error';
+    text: string;
+  } | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data } = await ragClient.revisions.list(regulationId);
+      setRevisions(data);
+      setSelectedId((prev) =>
+        data.some((r) => r.id === prev) ? prev : (data[0]?.id ?? null)
+      );
+    } catch (err) {
+      console.error('讀取修訂紀錄錯誤:', err);
+      const text = getErrorMessage(err, '讀取修訂紀錄失敗');
+      setMessage({ type: 'error', text });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [regulationId]);
+
+  useEffect(() => {
+    setMessage(null);
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // 每筆修訂紀錄保存的是「該次修改前」的內容，
+  // 因此與它比對的是下一個較新的版本；最新一筆則與目前內容比對
+  const selectedIndex = revisions.findIndex((r) => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const newerContent =
+    selectedIndex > 0 ? revisions[selectedIndex - 1].content : currentContent;
+
+  const segments = useMemo(
+    () => (selected ? diffText(selected.content, newerContent) : []),
+    [selected, newerContent]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    setMessage(null);
+
+    try {
+      await ragClient.revisions.restore({ revision_id: selected.id });
+
+      onRestored?.(selected.content);
+      setMessage({
+        type: 'success',
+        text: '已還原此版本並重新生成 embedding 向量。'
+      });
+      await loadRevisions();
+    } catch (err) {
+      console.error('還原錯誤:', err);
+      const text = getErrorMessage(err, '還原失敗');
+      setMessage({ type: 'error', text });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className='text-muted-foreground flex items-center gap-2 p-4 text-sm'>
+        <IconLoader2 className='size-4 animate-spin' />
+        載入修訂紀錄...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className='text-muted-foreground flex flex-col items-center gap-2 p-8 text-sm'>
+        <IconHistory className='size-8 opacity-50' />
+        尚無修訂紀錄
+        {message && <p className='text-red-600'>{message.text}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className='grid gap-4 md:grid-cols-[220px_1fr]'>
+      <div className='max-h-[360px] space-y-1 overflow-auto'>
+        {revisions.map((revision) => (
+          <button
+            key={revision.id}
+            type='button'
+            onClick={() => setSelectedId(revision.id)}
+            className={`w-full rounded-md border p-2 text-left text-xs transition-colors ${
+              revision.id === selectedId
+                ? 'border-primary bg-primary/5'
+                : 'hover:bg-muted'
+            }`}
+          >
+            <div className='flex items-center justify-between gap-2'>
+              <span className='font-medium'>
+                {new Date(revision.created_at).toLocaleString('zh-TW')}
+              </span>
+              <Badge variant='outline' className='text-[10px]'>
+                {ACTION_LABELS[revision.action]}
+              </Badge>
+            </div>
+            <div className='text-muted-foreground mt-1'>
+              {revision.editor || '未具名'}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className='space-y-3'>
+        <div className='text-muted-foreground flex items-center gap-3 text-xs'>
+          <span className='rounded bg-red-100 px-1 text-red-700 line-through'>
+            此版本
+          </span>
+          <span className='rounded bg-green-100 px-1 text-green-700'>
+            {selectedIndex > 0 ? '下一個版本' : '目前內容'}
+          </span>
+        </div>
+
+        <div className='bg-muted/30 max-h-[300px] overflow-auto rounded-md border p-3 font-mono text-sm whitespace-pre-wrap'>
+          {segments.map((segment, i) =>
+            segment.type === 'equal' ? (
+              <span key={i}>{segment.text}</span>
+            ) : segment.type === 'delete' ? (
+              <del key={i} className='bg-red-100 text-red-700'>
+                {segment.text}
+              </del>
+            ) : (
+              <ins key={i} className='bg-green-100 text-green-700 no-underline'>
+                {segment.text}
+              </ins>
+            )
+          )}
+        </div>
+
+        {message && (
+          <div
+            className={`flex items-center gap-2 rounded-lg p-3 text-sm ${
+              message.type === 'success'
+                ? 'border border-green-200 bg-green-50 text-green-700'
+                : 'border border-red-200 bg-red-50 text-red-700'
+            }`}
+          >
+            {message.type === 'success' ? (
+              <IconCheck className='size-4' />
+            ) : (
+              <IconAlertCircle className='size-4' />
+            )}
+            {message.text}
+          </div>
+        )}
+
+        <Button
+          variant='outline'
+          size='sm'
+          onClick={handleRestore}
+          disabled={isRestoring || !selected}
+        >
+          {isRestoring ? (
+            <IconLoader2 className='mr-1 size-4 animate-spin' />
+          ) : (
+            <IconArrowBackUp className='mr-1 size-4' />
+          )}
+          還原此版本
+        </Button>
+      </div>
+    </div>
+  );
+}
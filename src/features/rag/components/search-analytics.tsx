@@ -0,0 +1,389 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { addDays, format, startOfDay, subDays } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import {
+  IconAlertCircle,
+  IconCalendar,
+  IconChartBar,
+  IconDownload,
+  IconLoader2,
+  IconRefresh
+} from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { AnalyticsResponse, QueryStat } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+
+const RANGE_PRESETS = [
+  { label: '近 7 天', days: 7 },
+  { label: '近 30 天', days: 30 },
+  { label: '近 90 天', days: 90 }
+];
+
+function presetRange(days: number): DateRange {
+  const today = startOfDay(new Date());
+  return { from: subDays(today, days - 1), to: today };
+}
+
+/**
+ * 以使用者時區的日界線換算 API 的時間區間（結束日整天都包含在內）
+ */
+function toApiRange(range: DateRange) {
+  const from = startOfDay(range.from ?? new Date());
+  const to = addDays(startOfDay(range.to ?? from), 1);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+function formatMs(value: number | null) {
+  return value === null ? '—' : `${Math.round(value)} ms`;
+}
+
+function formatSimilarity(value: number | null) {
+  return value === null ? '—' : `${(value * 100).toFixed(0)}%`;
+}
+
+function QueryTable({
+  title,
+  description,
+  rows
+}: {
+  title: string;
+  description: string;
+  rows: QueryStat[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='text-base'>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className='text-muted-foreground py-6 text-center text-sm'>
+            此區間沒有資料
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>查詢</TableHead>
+                <TableHead className='text-right'>次數</TableHead>
+                <TableHead className='text-right'>平均結果數</TableHead>
+                <TableHead className='text-right'>平均最高相似度</TableHead>
+                <TableHead className='text-right'>平均延遲</TableHead>
+                <TableHead className='text-right'>最近搜尋</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.query}>
+                  <TableCell className='max-w-[320px] truncate font-medium'>
+                    {row.query}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {row.search_count}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {row.avg_result_count.toFixed(1)}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {formatSimilarity(row.avg_top_similarity)}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {formatMs(row.avg_latency_ms)}
+                  </TableCell>
+                  <TableCell className='text-muted-foreground text-right text-xs'>
+                    {new Date(row.last_searched_at).toLocaleString('zh-TW')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SearchAnalytics() {
+  const [range, setRange] = useState<DateRange>(() => presetRange(7));
+  const [lowSimilarity, setLowSimilarity] = useState(0.5);
+  const [data, setData] = useState<AnalyticsResponse['data'] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    if (!range.from) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await ragClient.analytics.summary({
+        ...toApiRange(range),
+        low_similarity: lowSimilarity
+      });
+      setData(result.data);
+    } catch (err) {
+      console.error('載入搜尋分析錯誤:', err);
+      setError(getErrorMessage(err, '載入搜尋分析失敗'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, lowSimilarity]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const handleExport = async () => {
+    if (!range.from) return;
+
+    setIsExporting(true);
+    try {
+      const blob = await ragClient.analytics.exportCsv(toApiRange(range));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `search-logs-${format(range.from, 'yyyyMMdd')}-${format(range.to ?? range.from, 'yyyyMMdd')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('匯出搜尋紀錄錯誤:', err);
+      toast.error(getErrorMessage(err, '匯出失敗'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const summary = data?.summary;
+  const rangeLabel = range.from
+    ? `${format(range.from, 'yyyy/MM/dd')} - ${format(range.to ?? range.from, 'yyyy/MM/dd')}`
+    : '選擇日期區間';
+
+  return (
+    <div className='space-y-4'>
+      <Card>
+        <CardHeader>
+          <CardTitle className='flex items-center gap-2'>
+            <IconChartBar className='size-5' />
+            搜尋分析
+          </CardTitle>
+          <CardDescription>
+            統計搜尋次數、無結果與低相似度的查詢，以及搜尋延遲
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='flex flex-wrap items-end gap-4'>
+          <div className='space-y-2'>
+            <Label>日期區間</Label>
+            <div className='flex flex-wrap items-center gap-2'>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant='outline' size='sm'>
+                    <IconCalendar className='size-4' />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className='w-auto p-0' align='start'>
+                  <Calendar
+                    initialFocus
+                    mode='range'
+                    numberOfMonths={2}
+                    selected={range}
+                    onSelect={(next) => next && setRange(next)}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+              {RANGE_PRESETS.map((preset) => (
+                <Button
+                  key={preset.days}
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => setRange(presetRange(preset.days))}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className='w-36 space-y-2'>
+            <Label htmlFor='analytics-low-similarity'>低相似度門檻</Label>
+            <Input
+              id='analytics-low-similarity'
+              type='number'
+              min={0}
+              max={1}
+              step={0.05}
+              value={lowSimilarity}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value >= 0 && value <= 1) setLowSimilarity(value);
+              }}
+            />
+          </div>
+          <div className='ml-auto flex gap-2'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={loadAnalytics}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <IconLoader2 className='size-4 animate-spin' />
+              ) : (
+                <IconRefresh className='size-4' />
+              )}
+              重新整理
+            </Button>
+            <Button
+              size='sm'
+              onClick={handleExport}
+              disabled={isExporting || !range.from}
+            >
+              {isExporting ? (
+                <IconLoader2 className='size-4 animate-spin' />
+              ) : (
+                <IconDownload className='size-4' />
+              )}
+              匯出 CSV
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700'>
+          <IconAlertCircle className='size-4' />
+          {error}
+        </div>
+      )}
+
+      {summary && (
+        <div className='grid grid-cols-2 gap-4 md:grid-cols-4'>
+          <Card>
+            <CardHeader>
+              <CardDescription>搜尋次數</CardDescription>
+              <CardTitle className='text-2xl'>
+                {summary.total_searches}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='text-muted-foreground text-xs'>
+              不重複查詢 {summary.unique_queries}
+              {summary.error_count > 0 && (
+                <Badge variant='destructive' className='ml-2'>
+                  失敗 {summary.error_count}
+                </Badge>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>無結果</CardDescription>
+              <CardTitle className='text-2xl'>
+                {summary.zero_result_count}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='text-muted-foreground text-xs'>
+              佔{' '}
+              {summary.total_searches > 0
+                ? (
+                    (summary.zero_result_count / summary.total_searches) *
+                    100
+                  ).toFixed(1)
+                : 0}
+              %
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>低相似度</CardDescription>
+              <CardTitle className='text-2xl'>
+                {summary.low_similarity_count}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='text-muted-foreground text-xs'>
+              最高相似度低於 {formatSimilarity(lowSimilarity)}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>延遲 P50 / P90 / P99</CardDescription>
+              <CardTitle className='text-lg'>
+                {formatMs(summary.p50_latency_ms)} /{' '}
+                {formatMs(summary.p90_latency_ms)} /{' '}
+                {formatMs(summary.p99_latency_ms)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='text-muted-foreground text-xs'>
+              平均 {formatMs(summary.avg_latency_ms)}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {data && data.organizations.some((row) => row.org !== null) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className='text-base'>各組織搜尋次數</CardTitle>
+            <CardDescription>依搜尋者所屬組織（RAG_ORG）統計</CardDescription>
+          </CardHeader>
+          <CardContent className='flex flex-wrap gap-2'>
+            {data.organizations.map((row) => (
+              <Badge key={row.org ?? ''} variant='secondary'>
+                {row.org ?? '未設定'} {row.search_count}
+              </Badge>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {data && (
+        <>
+          <QueryTable
+            title='熱門查詢'
+            description='依搜尋次數排序（不分大小寫與前後空白）'
+            rows={data.top_queries}
+          />
+          <QueryTable
+            title='無結果查詢'
+            description='沒有找到任何 chunk 的查詢，可考慮補充資料或同義詞'
+            rows={data.zero_result_queries}
+          />
+          <QueryTable
+            title='低相似度查詢'
+            description={`最高向量相似度低於 ${formatSimilarity(lowSimilarity)} 的查詢，結果可能不夠相關`}
+            rows={data.low_similarity_queries}
+          />
+        </>
+      )}
+    </div>
+  );
+}
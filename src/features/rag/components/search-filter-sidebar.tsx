@@ -0,0 +1,155 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import { IconFilter, IconX } from '@tabler/icons-react';
+import type { Facets } from '@/lib/rag/schemas';
+import type { Option } from '@/types/data-table';
+import { FacetFilter } from '@/features/rag/components/facet-filter';
+import type {
+  SearchFilterState,
+  SetSearchFilters
+} from '@/features/rag/hooks/use-search-filters';
+
+interface SearchFilterSidebarProps {
+  filters: SearchFilterState;
+  onFiltersChange: SetSearchFilters;
+  onReset: () => void;
+  activeCount: number;
+  /** 最近一次搜尋回傳的分面計數；尚未搜尋時為 null */
+  facets: Facets | null;
+}
+
+function toOptions(counts: Facets[keyof Facets] | undefined): Option[] {
+  return (counts ?? []).map(({ value, count }) => ({
+    label: value,
+    value,
+    count
+  }));
+}
+
+function toInteger(value: string) {
+  const number = Number.parseInt(value, 10);
+  return Number.isNaN(number) || number < 1 ? null : number;
+}
+
+/**
+ * 搜尋篩選側欄：來源、文件類型、章、標籤、條號範圍與施行日期
+ */
+export function SearchFilterSidebar({
+  filters,
+  onFiltersChange,
+  onReset,
+  activeCount,
+  facets
+}: SearchFilterSidebarProps) {
+  return (
+    <Card className='h-fit'>
+      <CardHeader className='flex flex-row items-start justify-between'>
+        <div className='space-y-1.5'>
+          <CardTitle className='flex items-center gap-2 text-base'>
+            <IconFilter className='size-4' />
+            篩選
+          </CardTitle>
+          <CardDescription>
+            {facets ? '數字為符合條件的 chunk 數' : '搜尋後顯示各選項的數量'}
+          </CardDescription>
+        </div>
+        {activeCount > 0 && (
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={onReset}
+            className='h-8 px-2'
+          >
+            <IconX className='size-4' />
+            清除
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <div className='space-y-2'>
+          <FacetFilter
+            title='來源'
+            options={toOptions(facets?.source)}
+            value={filters.source}
+            onValueChange={(source) => onFiltersChange({ source })}
+          />
+          <FacetFilter
+            title='文件類型'
+            options={toOptions(facets?.doc_type)}
+            value={filters.doc_type}
+            onValueChange={(doc_type) => onFiltersChange({ doc_type })}
+          />
+          <FacetFilter
+            title='章'
+            options={toOptions(facets?.chapter)}
+            value={filters.chapter}
+            onValueChange={(chapter) => onFiltersChange({ chapter })}
+          />
+          <FacetFilter
+            title='標籤'
+            options={toOptions(facets?.tag)}
+            value={filters.tag}
+            onValueChange={(tag) => onFiltersChange({ tag })}
+          />
+        </div>
+
+        <div className='space-y-2'>
+          <Label>條號範圍</Label>
+          <div className='flex items-center gap-2'>
+            <Input
+              type='number'
+              min={1}
+              placeholder='第'
+              aria-label='起始條號'
+              value={filters.article_from ?? ''}
+              onChange={(e) =>
+                onFiltersChange({ article_from: toInteger(e.target.value) })
+              }
+            />
+            <span className='text-muted-foreground text-sm'>～</span>
+            <Input
+              type='number'
+              min={1}
+              placeholder='條'
+              aria-label='結束條號'
+              value={filters.article_to ?? ''}
+              onChange={(e) =>
+                onFiltersChange({ article_to: toInteger(e.target.value) })
+              }
+            />
+          </div>
+        </div>
+
+        <div className='space-y-2'>
+          <Label>施行日期</Label>
+          <Input
+            type='date'
+            aria-label='施行日期起'
+            value={filters.effective_from ?? ''}
+            onChange={(e) =>
+              onFiltersChange({ effective_from: e.target.value || null })
+            }
+          />
+          <Input
+            type='date'
+            aria-label='施行日期迄'
+            value={filters.effective_to ?? ''}
+            onChange={(e) =>
+              onFiltersChange({ effective_to: e.target.value || null })
+            }
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { IconLoader2, IconSearch } from '@tabler/icons-react';
+import { QuantityChips } from './quantity-chips';
+import type { QueryQuantity } from '@/lib/rag/schemas';
+import type { SearchMode } from '@/types/rag';
+
+const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  hybrid: '混合搜尋',
+  vector: '語意向量',
+  keyword: '關鍵字'
+};
+
+interface SearchFormProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  onSearch: () => void;
+  searchMode: SearchMode;
+  onSearchModeChange: (mode: SearchMode) => void;
+  rerank: boolean;
+  onRerankChange: (rerank: boolean) => void;
+  feedbackBoost: boolean;
+  onFeedbackBoostChange: (feedbackBoost: boolean) => void;
+  /** 從目前輸入解析出、尚未被移除的規格 */
+  quantities: QueryQuantity[];
+  removedQuantityCount: number;
+  onRemoveQuantity: (quantity: QueryQuantity) => void;
+  onRestoreQuantities: () => void;
+  isSearching: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * 搜尋框、搜尋模式與排序選項
+ */
+export function SearchForm({
+  query,
+  onQueryChange,
+  onSearch,
+  searchMode,
+  onSearchModeChange,
+  rerank,
+  onRerankChange,
+  feedbackBoost,
+  onFeedbackBoostChange,
+  quantities,
+  removedQuantityCount,
+  onRemoveQuantity,
+  onRestoreQuantities,
+  isSearching,
+  disabled
+}: SearchFormProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <IconSearch className='size-5' />
+          知識庫搜尋
+        </CardTitle>
+        <CardDescription>
+          輸入問題，系統將從法規與材料庫中搜尋相關內容
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className='flex gap-4'>
+          <Input
+            placeholder='例如：2.0mm² 電線的安培容量是多少？'
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && onSearch()}
+            className='flex-1'
+            disabled={disabled}
+          />
+          <Select
+            value={searchMode}
+            onValueChange={(value) => onSearchModeChange(value as SearchMode)}
+          >
+            <SelectTrigger className='w-32'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SEARCH_MODE_LABELS) as SearchMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {SEARCH_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={onSearch} disabled={isSearching || disabled}>
+            {isSearching ? (
+              <IconLoader2 className='size-4 animate-spin' />
+            ) : (
+              <IconSearch className='size-4' />
+            )}
+            搜尋
+          </Button>
+        </div>
+        <QuantityChips
+          quantities={quantities}
+          onRemove={onRemoveQuantity}
+          removedCount={removedQuantityCount}
+          onRestore={onRestoreQuantities}
+        />
+        <div className='mt-3 flex items-center gap-2'>
+          <Switch
+            id='rag-rerank'
+            checked={rerank}
+            onCheckedChange={onRerankChange}
+          />
+          <Label htmlFor='rag-rerank'>以本地模型重新排序結果</Label>
+          <Switch
+            id='rag-feedback-boost'
+            checked={feedbackBoost}
+            onCheckedChange={onFeedbackBoostChange}
+            className='ml-4'
+          />
+          <Label htmlFor='rag-feedback-boost'>依使用者回饋調整排序</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
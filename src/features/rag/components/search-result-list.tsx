@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import {
+  IconArrowsVertical,
+  IconBook2,
+  IconFileText,
+  IconPencil,
+  IconPlus,
+  IconTrash
+} from '@tabler/icons-react';
+import { ContextPreview } from './chunk-context';
+import { sourceAnchorId } from './cited-answer';
+import { FeedbackButtons } from './feedback-buttons';
+import { QueryExpansionBadges } from './glossary-editor';
+import type { QueryExpansion, TextNormalization } from '@/lib/rag/schemas';
+import { describeNormalization } from '@/features/rag/utils/normalization';
+import type { AnswerCitation, Retriever, SearchResult } from '@/types/rag';
+
+const RETRIEVER_LABELS: Record<Retriever, string> = {
+  vector: '向量',
+  keyword: '關鍵字'
+};
+
+export interface NewChunkDefaults {
+  source?: string;
+  doc_type?: string | null;
+}
+
+interface SearchResultListProps {
+  results: SearchResult[];
+  /** 回答引用的來源，標示於編號並可回報引用錯誤 */
+  citations: AnswerCitation[];
+  /** 點選回答中的引用後醒目標示的結果 */
+  highlightedId: string | null;
+  /** 產生此結果的查詢，回饋依此記錄 */
+  query: string;
+  textNormalization: TextNormalization | null;
+  queryExpansion: QueryExpansion | null;
+  canEdit: boolean;
+  canSendFeedback: boolean;
+  onEdit: (item: SearchResult) => void;
+  onDelete: (item: SearchResult) => void;
+  onAddChunk: (defaults: NewChunkDefaults) => void;
+  onOpenReader: (item: SearchResult) => void;
+}
+
+/**
+ * 單次搜尋的來源引用，依相關度由高到低列出，可展開前後文或開啟條文
+ */
+export function SearchResultList({
+  results,
+  citations,
+  highlightedId,
+  query,
+  textNormalization,
+  queryExpansion,
+  canEdit,
+  canSendFeedback,
+  onEdit,
+  onDelete,
+  onAddChunk,
+  onOpenReader
+}: SearchResultListProps) {
+  // 展開前後文的結果
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  if (results.length === 0) return null;
+
+  const toggleContext = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className='flex flex-row items-start justify-between'>
+        <div className='space-y-1.5'>
+          <CardTitle className='flex items-center gap-2'>
+            <IconFileText className='size-5' />
+            來源引用
+          </CardTitle>
+          <CardDescription>
+            相關度由高到低排序
+            {canEdit && '，可編輯、刪除或在同來源新增內容'}
+          </CardDescription>
+          {textNormalization && textNormalization.rules.length > 0 && (
+            <p
+              className='text-muted-foreground text-sm'
+              title={describeNormalization(textNormalization.rules)}
+            >
+              正規化查詢：{textNormalization.normalized}
+            </p>
+          )}
+          {queryExpansion && (
+            <div className='text-muted-foreground flex flex-wrap items-center gap-2 text-sm'>
+              <Link href='/dashboard/rag/glossary' className='hover:underline'>
+                詞彙改寫：
+              </Link>
+              <QueryExpansionBadges expansion={queryExpansion} />
+            </div>
+          )}
+        </div>
+        {canEdit && (
+          <Button variant='outline' size='sm' onClick={() => onAddChunk({})}>
+            <IconPlus className='mr-1 size-4' />
+            新增 chunk
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className='space-y-3'>
+          {results.map((result, index) => {
+            const cited = citations.some((c) => c.id === result.id);
+            const expanded = expandedIds.has(result.id);
+
+            return (
+              <div
+                key={result.id}
+                id={sourceAnchorId(result.id)}
+                className={`hover:bg-muted/50 rounded-lg border p-4 transition-colors ${
+                  highlightedId === result.id
+                    ? 'border-primary ring-primary/30 ring-2'
+                    : ''
+                }`}
+              >
+                <div className='mb-2 flex items-center justify-between'>
+                  <div className='flex items-center gap-2'>
+                    <Badge variant={cited ? 'default' : 'outline'}>
+                      [{index + 1}]
+                    </Badge>
+                    <Badge variant='secondary'>{result.source}</Badge>
+                    {result.article_no && (
+                      <Badge variant='outline'>{result.article_no}</Badge>
+                    )}
+                    {result.doc_type && (
+                      <Badge variant='outline'>{result.doc_type}</Badge>
+                    )}
+                    {result.chapter && (
+                      <Badge variant='outline'>{result.chapter}</Badge>
+                    )}
+                  </div>
+                  <div className='flex items-center gap-2'>
+                    {result.retrievers?.map((retriever) => (
+                      <Badge key={retriever} variant='outline'>
+                        {RETRIEVER_LABELS[retriever]}
+                      </Badge>
+                    ))}
+                    {result.similarity > 0 && (
+                      <Badge
+                        variant={
+                          result.similarity > 0.7 ? 'default' : 'secondary'
+                        }
+                      >
+                        相似度 {(result.similarity * 100).toFixed(0)}%
+                      </Badge>
+                    )}
+                    {result.rerank_score !== undefined && (
+                      <Badge variant='default'>
+                        重排分數 {(result.rerank_score * 100).toFixed(0)}%
+                      </Badge>
+                    )}
+                    {!!result.quantity_matches && (
+                      <Badge variant='outline' title='內容提及的查詢規格數'>
+                        規格相符 {result.quantity_matches}
+                      </Badge>
+                    )}
+                    {result.feedback_score !== undefined && (
+                      <Badge variant='outline' title='使用者回饋的淨評價'>
+                        回饋 {result.feedback_score > 0 ? '+' : ''}
+                        {(result.feedback_score * 100).toFixed(0)}%
+                      </Badge>
+                    )}
+                    {result.chunk_idx !== undefined && (
+                      <>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          title={expanded ? '收合前後文' : '顯示前後文'}
+                          onClick={() => toggleContext(result.id)}
+                          className={`h-8 w-8 p-0 ${expanded ? 'text-primary' : ''}`}
+                        >
+                          <IconArrowsVertical className='size-4' />
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          title='開啟條文'
+                          onClick={() => onOpenReader(result)}
+                          className='h-8 w-8 p-0'
+                        >
+                          <IconBook2 className='size-4' />
+                        </Button>
+                      </>
+                    )}
+                    {canSendFeedback && (
+                      <FeedbackButtons
+                        query={query}
+                        target='result'
+                        regulationId={result.id}
+                        cited={cited}
+                      />
+                    )}
+                    {canEdit && (
+                      <>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          onClick={() => onEdit(result)}
+                          className='h-8 w-8 p-0'
+                        >
+                          <IconPencil className='size-4' />
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          title='在此來源新增 chunk'
+                          onClick={() =>
+                            onAddChunk({
+                              source: result.source,
+                              doc_type: result.doc_type
+                            })
+                          }
+                          className='h-8 w-8 p-0'
+                        >
+                          <IconPlus className='size-4' />
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          title='刪除'
+                          onClick={() => onDelete(result)}
+                          className='text-destructive h-8 w-8 p-0'
+                        >
+                          <IconTrash className='size-4' />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <p className='text-sm whitespace-pre-wrap'>{result.content}</p>
+                {expanded && <ContextPreview item={result} />}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { IconLock, IconLogin, IconLogout, IconUser } from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { RagSession } from '@/types/rag';
+
+interface SessionBadgeProps {
+  session: RagSession | null;
+  onLogout?: () => void;
+}
+
+/**
+ * 顯示 RAG 本地驗證的登入身分；驗證關閉時不顯示
+ */
+export function SessionBadge({ session, onLogout }: SessionBadgeProps) {
+  if (!session || session.mode === 'off') return null;
+
+  if (!session.user) {
+    return (
+      <Button variant='outline' size='sm' asChild>
+        <Link href='/dashboard/rag/login?next=/dashboard/rag'>
+          <IconLogin className='mr-1 size-4' />
+          登入以編輯
+        </Link>
+      </Button>
+    );
+  }
+
+  const handleLogout = async () => {
+    await ragClient.auth.logout();
+    onLogout?.();
+  };
+
+  return (
+    <div className='flex items-center gap-2'>
+      <Badge variant='outline' className='gap-1'>
+        {session.can_edit ? (
+          <IconUser className='size-3' />
+        ) : (
+          <IconLock className='size-3' />
+        )}
+        {session.user}（{session.can_edit ? '可編輯' : '唯讀'}）
+      </Badge>
+      <Button variant='ghost' size='sm' onClick={handleLogout}>
+        <IconLogout className='size-4' />
+      </Button>
+    </div>
+  );
+}
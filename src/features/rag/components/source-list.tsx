@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { IconAlertCircle, IconLoader2 } from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import type { SourceSummary } from '@/lib/rag/schemas';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { sourceReaderHref } from '@/features/rag/utils/source-document';
+
+/**
+ * 法規來源清單：各來源的 chunk 數、條文數與最後更新時間
+ */
+export function SourceList() {
+  const [sources, setSources] = useState<SourceSummary[]>([]);
+  const [keyword, setKeyword] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    ragClient.sources
+      .list()
+      .then(({ data }) => setSources(data))
+      .catch((err) => {
+        console.error('載入來源清單錯誤:', err);
+        setError(getErrorMessage(err, '載入來源清單失敗'));
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = useMemo(() => {
+    const term = keyword.trim().toLowerCase();
+    return term
+      ? sources.filter((s) => s.source.toLowerCase().includes(term))
+      : sources;
+  }, [sources, keyword]);
+
+  return (
+    <Card>
+      <CardContent className='space-y-4'>
+        <Input
+          placeholder='搜尋來源名稱'
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          className='max-w-sm'
+        />
+
+        {error && (
+          <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700'>
+            <IconAlertCircle className='size-4' />
+            {error}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>來源</TableHead>
+              <TableHead>文件類型</TableHead>
+              <TableHead className='text-right'>Chunks</TableHead>
+              <TableHead className='text-right'>條文數</TableHead>
+              <TableHead className='text-right'>最後更新</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={5}>
+                  <div className='text-muted-foreground flex items-center justify-center gap-2 py-6'>
+                    <IconLoader2 className='size-4 animate-spin' />
+                    載入中...
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && filtered.length === 0 && !error && (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className='text-muted-foreground py-6 text-center'
+                >
+                  {sources.length === 0 ? '尚未匯入任何法規' : '沒有符合的來源'}
+                </TableCell>
+              </TableRow>
+            )}
+            {filtered.map((item) => (
+              <TableRow key={item.source}>
+                <TableCell className='font-medium'>
+                  <Link
+                    href={sourceReaderHref(item.source)}
+                    className='hover:underline'
+                  >
+                    {item.source}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  <div className='flex flex-wrap gap-1'>
+                    {item.doc_types.map((docType) => (
+                      <Badge key={docType} variant='outline'>
+                        {docType}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className='text-right tabular-nums'>
+                  {item.chunk_count}
+                </TableCell>
+                <TableCell className='text-right tabular-nums'>
+                  {item.article_count}
+                </TableCell>
+                <TableCell className='text-muted-foreground text-right'>
+                  {new Date(item.updated_at).toLocaleString('zh-TW')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
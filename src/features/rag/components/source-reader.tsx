@@ -0,0 +1,284 @@
+'use client';
+
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from '@/components/ui/card';
+import {
+  IconAlertCircle,
+  IconArrowLeft,
+  IconChevronDown,
+  IconChevronUp,
+  IconListDetails,
+  IconLoader2,
+  IconSearch
+} from '@tabler/icons-react';
+import { ragClient } from '@/lib/rag/client';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import {
+  buildToc,
+  chunkAnchorId,
+  findMatches,
+  headingsBefore,
+  type DocumentChunk
+} from '@/features/rag/utils/source-document';
+import { cn } from '@/lib/utils';
+
+const TOC_INDENT = {
+  chapter: 'font-medium',
+  section: 'pl-3',
+  article: 'pl-6 text-muted-foreground'
+} as const;
+
+function matchAnchorId(index: number) {
+  return `doc-match-${index}`;
+}
+
+/**
+ * 以 <mark> 標示相符文字；firstIndex 為此段第一個相符處的全域編號
+ */
+function highlight(
+  text: string,
+  matches: [number, number][],
+  firstIndex: number,
+  activeIndex: number
+) {
+  if (matches.length === 0) return text;
+
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  matches.forEach(([start, end], i) => {
+    const index = firstIndex + i;
+    nodes.push(text.slice(cursor, start));
+    nodes.push(
+      <mark
+        key={index}
+        id={matchAnchorId(index)}
+        className={cn(
+          'rounded-sm',
+          index === activeIndex ? 'bg-orange-300' : 'bg-yellow-200'
+        )}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  nodes.push(text.slice(cursor));
+  return nodes;
+}
+
+interface SourceReaderProps {
+  source: string;
+}
+
+/**
+ * 依 chunk_idx 重組整份法規，提供章節條目錄與文件內搜尋
+ */
+export function SourceReader({ source }: SourceReaderProps) {
+  const [chunks, setChunks] = useState<DocumentChunk[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [findText, setFindText] = useState('');
+  const [activeMatch, setActiveMatch] = useState(0);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    ragClient.sources
+      .document(source)
+      .then(({ data }) => setChunks(data.chunks))
+      .catch((err) => {
+        console.error('載入文件錯誤:', err);
+        setError(getErrorMessage(err, '載入文件失敗'));
+      })
+      .finally(() => setIsLoading(false));
+  }, [source]);
+
+  const headings = useMemo(() => headingsBefore(chunks), [chunks]);
+  const toc = useMemo(() => buildToc(chunks), [chunks]);
+
+  // 各段的相符位置與第一個相符處的全域編號
+  const term = findText.trim();
+  const { matchesByChunk, totalMatches } = useMemo(() => {
+    const byChunk = new Map<
+      string,
+      { matches: [number, number][]; first: number }
+    >();
+    let total = 0;
+    for (const chunk of chunks) {
+      const matches = findMatches(chunk.content, term);
+      if (matches.length === 0) continue;
+      byChunk.set(chunk.id, { matches, first: total });
+      total += matches.length;
+    }
+    return { matchesByChunk: byChunk, totalMatches: total };
+  }, [chunks, term]);
+
+  useEffect(() => {
+    setActiveMatch(0);
+  }, [term]);
+
+  useEffect(() => {
+    if (totalMatches === 0) return;
+    document
+      .getElementById(matchAnchorId(activeMatch))
+      ?.scrollIntoView({ block: 'center' });
+  }, [activeMatch, totalMatches]);
+
+  const moveMatch = (step: number) => {
+    if (totalMatches === 0) return;
+    setActiveMatch((prev) => (prev + step + totalMatches) % totalMatches);
+  };
+
+  const scrollToAnchor = (anchor: string) => {
+    document
+      .getElementById(anchor)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  return (
+    <div className='flex flex-1 flex-col space-y-4'>
+      <div className='flex flex-wrap items-center justify-between gap-2'>
+        <div className='flex items-center gap-2'>
+          <Button variant='ghost' size='sm' asChild>
+            <Link href='/dashboard/rag/sources'>
+              <IconArrowLeft className='size-4' />
+              來源清單
+            </Link>
+          </Button>
+          <h2 className='text-2xl font-bold tracking-tight'>{source}</h2>
+          {!isLoading && !error && (
+            <Badge variant='outline'>{chunks.length} chunks</Badge>
+          )}
+        </div>
+        <div className='flex items-center gap-2'>
+          <div className='relative'>
+            <IconSearch className='text-muted-foreground absolute top-1/2 left-2.5 size-4 -translate-y-1/2' />
+            <Input
+              placeholder='在文件中尋找'
+              value={findText}
+              onChange={(e) => setFindText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') moveMatch(e.shiftKey ? -1 : 1);
+              }}
+              className='w-64 pl-8'
+            />
+          </div>
+          <span className='text-muted-foreground w-16 text-center text-sm tabular-nums'>
+            {term
+              ? `${totalMatches ? activeMatch + 1 : 0} / ${totalMatches}`
+              : ''}
+          </span>
+          <Button
+            variant='outline'
+            size='sm'
+            title='上一個'
+            onClick={() => moveMatch(-1)}
+            disabled={totalMatches === 0}
+          >
+            <IconChevronUp className='size-4' />
+          </Button>
+          <Button
+            variant='outline'
+            size='sm'
+            title='下一個'
+            onClick={() => moveMatch(1)}
+            disabled={totalMatches === 0}
+          >
+            <IconChevronDown className='size-4' />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className='flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700'>
+          <IconAlertCircle className='size-4' />
+          {error}
+        </div>
+      )}
+
+      {isLoading && (
+        <div className='text-muted-foreground flex items-center justify-center gap-2 py-12'>
+          <IconLoader2 className='size-4 animate-spin' />
+          載入中...
+        </div>
+      )}
+
+      {!isLoading && !error && (
+        <div className='grid grid-cols-1 items-start gap-4 lg:grid-cols-[16rem_1fr]'>
+          <Card className='lg:sticky lg:top-4'>
+            <CardHeader>
+              <CardTitle className='flex items-center gap-2 text-base'>
+                <IconListDetails className='size-4' />
+                目錄
+              </CardTitle>
+              {toc.length === 0 && (
+                <CardDescription>此文件沒有章節或條號</CardDescription>
+              )}
+            </CardHeader>
+            {toc.length > 0 && (
+              <CardContent className='max-h-[70vh] space-y-0.5 overflow-y-auto text-sm'>
+                {toc.map((entry, i) => (
+                  <button
+                    key={`${entry.anchor}-${entry.level}-${i}`}
+                    type='button'
+                    onClick={() => scrollToAnchor(entry.anchor)}
+                    className={cn(
+                      'hover:bg-muted block w-full truncate rounded px-2 py-1 text-left',
+                      TOC_INDENT[entry.level]
+                    )}
+                  >
+                    {entry.label}
+                  </button>
+                ))}
+              </CardContent>
+            )}
+          </Card>
+
+          <Card>
+            <CardContent className='space-y-3'>
+              {chunks.map((chunk) => {
+                const heading = headings.get(chunk.id);
+                const found = matchesByChunk.get(chunk.id);
+                return (
+                  <Fragment key={chunk.id}>
+                    {heading?.chapter && (
+                      <h3 className='pt-4 text-lg font-semibold'>
+                        {heading.chapter}
+                      </h3>
+                    )}
+                    {heading?.section && (
+                      <h4 className='pt-2 font-medium'>{heading.section}</h4>
+                    )}
+                    <p
+                      id={chunkAnchorId(chunk.id)}
+                      className='scroll-mt-4 text-sm leading-relaxed whitespace-pre-wrap'
+                    >
+                      {found
+                        ? highlight(
+                            chunk.content,
+                            found.matches,
+                            found.first,
+                            activeMatch
+                          )
+                        : chunk.content}
+                    </p>
+                  </Fragment>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ragClient } from '@/lib/rag/client';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import type { AnswerCitation, SearchResult } from '@/types/rag';
+
+/**
+ * 以搜尋結果串流生成帶引用的回答
+ *
+ * 同時只保留一個串流：重新生成、清除或離開頁面時中止進行中的請求
+ */
+export function useAnswerStream() {
+  const [answer, setAnswer] = useState('');
+  const [citations, setCitations] = useState<AnswerCitation[]>([]);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 離開頁面時中止進行中的回答串流
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  /**
+   * 中止進行中的串流並清除回答；message 為不經模型生成的提示文字
+   */
+  const reset = useCallback((message = '') => {
+    abortRef.current?.abort();
+    setAnswer(message);
+    setCitations([]);
+    setError(null);
+  }, []);
+
+  const generate = useCallback(
+    async (query: string, sources: SearchResult[]) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      setIsAnswering(true);
+
+      try {
+        await ragClient.streamAnswer(
+          { query, chunk_ids: sources.map((s) => s.id) },
+          {
+            signal: controller.signal,
+            onToken: (content) => setAnswer((prev) => prev + content),
+            onCitation: (citation) =>
+              setCitations((prev) => [...prev, citation])
+          }
+        );
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('回答錯誤:', err);
+        const message = getErrorMessage(err, '生成回答失敗');
+        setError(`${message}。請確認 Ollama 已啟動且聊天模型已安裝。`);
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsAnswering(false);
+        }
+      }
+    },
+    []
+  );
+
+  // 停止生成（中止上游 Ollama 請求）
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return { answer, citations, isAnswering, error, generate, stop, reset };
+}
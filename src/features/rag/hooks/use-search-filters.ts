@@ -0,0 +1,72 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  parseAsArrayOf,
+  parseAsInteger,
+  parseAsString,
+  useQueryStates
+} from 'nuqs';
+import type { SearchRequest } from '@/lib/rag/schemas';
+
+const ARRAY_SEPARATOR = ',';
+
+const searchFilterParsers = {
+  source: parseAsArrayOf(parseAsString, ARRAY_SEPARATOR).withDefault([]),
+  doc_type: parseAsArrayOf(parseAsString, ARRAY_SEPARATOR).withDefault([]),
+  chapter: parseAsArrayOf(parseAsString, ARRAY_SEPARATOR).withDefault([]),
+  tag: parseAsArrayOf(parseAsString, ARRAY_SEPARATOR).withDefault([]),
+  article_from: parseAsInteger,
+  article_to: parseAsInteger,
+  // YYYY-MM-DD，與 <input type='date'> 的值相同
+  effective_from: parseAsString,
+  effective_to: parseAsString
+};
+
+export type SearchFilterRequest = Pick<
+  SearchRequest,
+  | 'sources'
+  | 'doc_types'
+  | 'chapters'
+  | 'tags'
+  | 'article_from'
+  | 'article_to'
+  | 'effective_from'
+  | 'effective_to'
+>;
+
+/**
+ * RAG 搜尋篩選條件，保存在網址查詢參數中，可分享或重新整理後保留
+ */
+export function useSearchFilters() {
+  const [filters, setFilters] = useQueryStates(searchFilterParsers, {
+    clearOnDefault: true
+  });
+
+  const request = useMemo<SearchFilterRequest>(() => {
+    const list = (values: string[]) => (values.length > 0 ? values : undefined);
+    return {
+      sources: list(filters.source),
+      doc_types: list(filters.doc_type),
+      chapters: list(filters.chapter),
+      tags: list(filters.tag),
+      article_from: filters.article_from ?? undefined,
+      article_to: filters.article_to ?? undefined,
+      effective_from: filters.effective_from || undefined,
+      effective_to: filters.effective_to || undefined
+    };
+  }, [filters]);
+
+  const activeCount = Object.values(request).filter(
+    (value) => value !== undefined
+  ).length;
+
+  const resetFilters = () => setFilters(null);
+
+  return { filters, setFilters, request, activeCount, resetFilters };
+}
+
+export type SearchFilterState = ReturnType<typeof useSearchFilters>['filters'];
+export type SetSearchFilters = ReturnType<
+  typeof useSearchFilters
+>['setFilters'];
@@ -0,0 +1,38 @@
+import { RagClientError } from '@/lib/rag/client';
+import type { RagErrorCode } from '@/lib/rag/schemas';
+
+// 顯示給使用者的錯誤訊息，依 API 回傳的錯誤代碼決定
+export const ERROR_MESSAGES: Record<RagErrorCode, string> = {
+  VALIDATION_ERROR: '輸入內容格式不正確',
+  UNAUTHORIZED: '請先登入後再操作',
+  FORBIDDEN: '您沒有修改資料的權限',
+  NOT_FOUND: '找不到這筆資料，可能已被刪除',
+  CONFLICT: '與既有資料重複，請檢查後再試',
+  UNDO_EXPIRED: '已超過可復原的時間',
+  UNSUPPORTED_FORMAT: '不支援的檔案格式，請上傳 PDF、DOCX、Markdown 或純文字檔',
+  FILE_TOO_LARGE: '檔案超過 20MB 上限',
+  EMPTY_DOCUMENT: '無法從檔案擷取文字內容，可能是掃描版 PDF',
+  EMBEDDING_UNAVAILABLE: '向量服務無法使用，請確認 Ollama 已啟動並下載模型',
+  EMBEDDING_MODEL_MISMATCH:
+    '資料庫向量與目前的 embedding 模型不一致，請先完成重新生成向量，或改用關鍵字搜尋',
+  EMBEDDING_DIMENSION_MISMATCH:
+    '模型輸出的向量維度與資料庫不一致，請確認 EMBEDDING_DIMENSION 設定',
+  GENERATION_UNAVAILABLE: '回答模型無法使用，請確認 Ollama 已啟動並下載模型',
+  DB_RPC_FAILED: '資料庫搜尋失敗，請確認 Supabase migration 已套用',
+  DB_ERROR: '資料庫操作失敗，請確認 Supabase 服務已啟動',
+  INTERNAL_ERROR: '伺服器發生未預期的錯誤'
+};
+
+/**
+ * 依 API 錯誤代碼取得顯示給使用者的訊息
+ *
+ * 沒有錯誤代碼時（例如網路或 proxy 錯誤）使用 fallback
+ */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  if (!(err instanceof RagClientError) || !err.code) return fallback;
+
+  const detail = err.code === 'VALIDATION_ERROR' ? err.details?.[0] : undefined;
+  return detail
+    ? `${ERROR_MESSAGES[err.code]}（${detail.path}: ${detail.message}）`
+    : ERROR_MESSAGES[err.code];
+}
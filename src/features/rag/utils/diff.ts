@@ -0,0 +1,108 @@
+export type DiffType = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffType;
+  text: string;
+}
+
+// 超過此長度（兩段長度相乘）改用逐行比對，避免 LCS 表格過大
+const MAX_CHAR_CELLS = 4_000_000;
+
+/**
+ * 比對兩段文字，回傳相同 / 新增 / 刪除的片段
+ *
+ * 法規條文多為短段落，預設逐字比對；內容過長時退回逐行比對
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : [];
+  }
+
+  const byLine = before.length * after.length > MAX_CHAR_CELLS;
+  const a = byLine ? splitLines(before) : Array.from(before);
+  const b = byLine ? splitLines(after) : Array.from(after);
+
+  return mergeSegments(lcsDiff(a, b));
+}
+
+function splitLines(text: string): string[] {
+  // 保留換行字元，組回時內容不變
+  return text
+    .split('\n')
+    .map((line, i, lines) => (i < lines.length - 1 ? `${line}\n` : line));
+}
+
+function lcsDiff(a: string[], b: string[]): DiffSegment[] {
+  // 先去掉共同的前後綴，縮小 LCS 表格
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  // table[i][j] = midA[i..] 與 midB[j..] 的 LCS 長度
+  const table: number[][] = [];
+  for (let i = 0; i <= rows; i++) {
+    table.push(new Array(cols + 1).fill(0));
+  }
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i][j] =
+        midA[i] === midB[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) {
+    segments.push({ type: 'equal', text: a.slice(0, start).join('') });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (midA[i] === midB[j]) {
+      segments.push({ type: 'equal', text: midA[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      segments.push({ type: 'delete', text: midA[i] });
+      i++;
+    } else {
+      segments.push({ type: 'insert', text: midB[j] });
+      j++;
+    }
+  }
+  for (; i < rows; i++) segments.push({ type: 'delete', text: midA[i] });
+  for (; j < cols; j++) segments.push({ type: 'insert', text: midB[j] });
+
+  if (endA < a.length) {
+    segments.push({ type: 'equal', text: a.slice(endA).join('') });
+  }
+
+  return segments;
+}
+
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
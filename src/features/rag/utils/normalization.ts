@@ -0,0 +1,16 @@
+import type { NormalizationRule } from '@/lib/rag/schemas';
+
+const RULE_LABELS: Record<NormalizationRule, string> = {
+  whitespace: '空白整理',
+  width: '全形轉半形',
+  punctuation: '標點統一',
+  unit: '單位符號',
+  traditional: '簡轉繁'
+};
+
+/**
+ * 列出套用的正規化規則，例如「簡轉繁、單位符號」；沒有套用時為空字串
+ */
+export function describeNormalization(rules: NormalizationRule[]) {
+  return rules.map((rule) => RULE_LABELS[rule]).join('、');
+}
@@ -0,0 +1,25 @@
+import type { SearchResponse } from '@/lib/rag/schemas';
+import type { SearchResult } from '@/types/rag';
+
+/**
+ * 將 /api/rag/search 回傳的 chunk 轉為頁面顯示用的搜尋結果
+ */
+export function toSearchResults(data: SearchResponse['data']): SearchResult[] {
+  return data.map((item) => ({
+    id: item.id,
+    content: item.content,
+    source: item.source || '法規資料庫',
+    similarity: item.similarity || 0,
+    article_no: item.article_no ?? undefined,
+    chunk_idx: item.chunk_idx,
+    doc_type: item.doc_type ?? undefined,
+    chapter:
+      typeof item.metadata?.chapter === 'string'
+        ? item.metadata.chapter
+        : undefined,
+    retrievers: item.retrievers,
+    rerank_score: item.rerank_score,
+    feedback_score: item.feedback_score,
+    quantity_matches: item.quantity_matches
+  }));
+}
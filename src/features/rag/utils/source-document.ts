@@ -0,0 +1,98 @@
+import type { SourceDocumentResponse } from '@/lib/rag/schemas';
+
+export type DocumentChunk = SourceDocumentResponse['data']['chunks'][number];
+
+export interface TocEntry {
+  level: 'chapter' | 'section' | 'article';
+  label: string;
+  /** 對應段落的 DOM id */
+  anchor: string;
+}
+
+export function sourceReaderHref(source: string) {
+  return `/dashboard/rag/sources/read?source=${encodeURIComponent(source)}`;
+}
+
+export function chunkAnchorId(id: string) {
+  return `doc-chunk-${id}`;
+}
+
+function metadataText(chunk: DocumentChunk, key: 'chapter' | 'section') {
+  const value = chunk.metadata?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * 每個 chunk 開頭要顯示的章、節標題（與上一段相同時省略）
+ */
+export function headingsBefore(
+  chunks: DocumentChunk[]
+): Map<string, { chapter?: string; section?: string }> {
+  const headings = new Map<string, { chapter?: string; section?: string }>();
+  let chapter: string | undefined;
+  let section: string | undefined;
+
+  for (const chunk of chunks) {
+    const nextChapter = metadataText(chunk, 'chapter');
+    const nextSection = metadataText(chunk, 'section');
+    const heading: { chapter?: string; section?: string } = {};
+
+    if (nextChapter && nextChapter !== chapter) {
+      heading.chapter = nextChapter;
+      chapter = nextChapter;
+      section = undefined;
+    }
+    if (nextSection && nextSection !== section) {
+      heading.section = nextSection;
+      section = nextSection;
+    }
+    if (heading.chapter || heading.section) headings.set(chunk.id, heading);
+  }
+
+  return headings;
+}
+
+/**
+ * 依章、節、條建立目錄；同一條切成多段時只列第一段
+ */
+export function buildToc(chunks: DocumentChunk[]): TocEntry[] {
+  const headings = headingsBefore(chunks);
+  const seenArticles = new Set<string>();
+  const entries: TocEntry[] = [];
+
+  for (const chunk of chunks) {
+    const anchor = chunkAnchorId(chunk.id);
+    const heading = headings.get(chunk.id);
+
+    if (heading?.chapter) {
+      entries.push({ level: 'chapter', label: heading.chapter, anchor });
+    }
+    if (heading?.section) {
+      entries.push({ level: 'section', label: heading.section, anchor });
+    }
+    if (chunk.article_no && !seenArticles.has(chunk.article_no)) {
+      seenArticles.add(chunk.article_no);
+      entries.push({ level: 'article', label: chunk.article_no, anchor });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * 找出字串中所有（不分大小寫、不重疊）相符的位置
+ */
+export function findMatches(text: string, term: string): [number, number][] {
+  if (!term) return [];
+
+  const haystack = text.toLowerCase();
+  const needle = term.toLowerCase();
+  const matches: [number, number][] = [];
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    matches.push([index, index + needle.length]);
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+}
@@ -0,0 +1,24 @@
+/**
+ * 材料 API Route 共用的錯誤回應
+ *
+ * 材料專屬的錯誤類別在這裡轉為錯誤代碼，其餘沿用 RAG API 的對應與統一格式
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { errorResponse as ragErrorResponse, RagApiError } from '@/lib/rag/api';
+import { MaterialNotFoundError } from './materials';
+import { PriceAlertNotFoundError } from './prices';
+
+/**
+ * catch 區塊共用：記錄非預期錯誤並回傳統一格式
+ */
+export function errorResponse(err: unknown, label: string) {
+  if (
+    err instanceof MaterialNotFoundError ||
+    err instanceof PriceAlertNotFoundError
+  ) {
+    return ragErrorResponse(new RagApiError('NOT_FOUND', err.message), label);
+  }
+  return ragErrorResponse(err, label);
+}
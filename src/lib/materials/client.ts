@@ -0,0 +1,75 @@
+/**
+ * 前端呼叫材料 API 的 typed client
+ *
+ * 錯誤處理與 ragClient 相同：失敗時丟出 RagClientError，可用 getErrorMessage 取得顯示訊息
+ */
+
+import { request, type RequestOptions } from '@/lib/rag/client';
+import {
+  materialDeleteResponseSchema,
+  materialListResponseSchema,
+  materialResponseSchema,
+  priceAlertDeleteResponseSchema,
+  priceAlertListResponseSchema,
+  priceAlertResponseSchema,
+  priceHistoryResponseSchema,
+  type MaterialListQuery,
+  type MaterialRequest,
+  type PriceAlertListQuery,
+  type PriceAlertRequest
+} from './schemas';
+
+const BASE_URL = '/api/materials';
+
+const materialPath = (id: string) => `/${encodeURIComponent(id)}`;
+
+export const materialClient = {
+  list: (query: MaterialListQuery = {}) =>
+    request('', materialListResponseSchema, {
+      baseUrl: BASE_URL,
+      query: query as RequestOptions['query']
+    }),
+  get: (id: string) =>
+    request(materialPath(id), materialResponseSchema, { baseUrl: BASE_URL }),
+  create: (body: MaterialRequest) =>
+    request('', materialResponseSchema, {
+      baseUrl: BASE_URL,
+      method: 'POST',
+      body
+    }),
+  update: (id: string, body: MaterialRequest) =>
+    request(materialPath(id), materialResponseSchema, {
+      baseUrl: BASE_URL,
+      method: 'PATCH',
+      body
+    }),
+  remove: (id: string) =>
+    request(materialPath(id), materialDeleteResponseSchema, {
+      baseUrl: BASE_URL,
+      method: 'DELETE'
+    }),
+  /** 依時間先後的單價紀錄 */
+  prices: (id: string) =>
+    request(`${materialPath(id)}/prices`, priceHistoryResponseSchema, {
+      baseUrl: BASE_URL
+    }),
+
+  alerts: {
+    list: (query: PriceAlertListQuery = {}) =>
+      request('/alerts', priceAlertListResponseSchema, {
+        baseUrl: BASE_URL,
+        query: query as RequestOptions['query']
+      }),
+    create: (body: PriceAlertRequest) =>
+      request('/alerts', priceAlertResponseSchema, {
+        baseUrl: BASE_URL,
+        method: 'POST',
+        body
+      }),
+    remove: (id: number) =>
+      request(`/alerts/${id}`, priceAlertDeleteResponseSchema, {
+        baseUrl: BASE_URL,
+        method: 'DELETE'
+      })
+  }
+};
@@ -0,0 +1,185 @@
+/**
+ * 材料資料存取 - 分頁列表、篩選選項與新增、修改、刪除
+ *
+ * 單價紀錄由資料庫觸發器在新增材料與單價變動時寫入，操作者取自 updated_by；
+ * 刪除材料時資料庫一併刪除其紀錄與警示
+ *
+ * 僅供伺服器端（API Route、Server Component）使用
+ */
+
+import { supabase } from '@/lib/supabase-server';
+import { DatabaseError } from '@/lib/rag/errors';
+import type {
+  Material,
+  MaterialFacets,
+  MaterialInput,
+  MaterialListFilters
+} from './schemas';
+
+const MATERIAL_COLUMNS =
+  'id, name, unit, price, category, spec, voltage, updated_at';
+
+export class MaterialNotFoundError extends Error {
+  constructor(id: string) {
+    super(`找不到材料: ${id}`);
+    this.name = 'MaterialNotFoundError';
+  }
+}
+
+type MaterialRow = Omit<Material, 'id' | 'price' | 'voltage'> & {
+  id: string | number;
+  price: number | string;
+  voltage: number | string | null;
+};
+
+// numeric 欄位可能以字串回傳，id 也可能是數字
+function toMaterial(row: MaterialRow): Material {
+  return {
+    ...row,
+    id: String(row.id),
+    price: Number(row.price),
+    voltage: row.voltage === null ? null : Number(row.voltage)
+  };
+}
+
+/**
+ * 依篩選條件分頁列出材料，同時回傳符合條件的總筆數
+ */
+export async function listMaterials(
+  filters: MaterialListFilters
+): Promise<{ materials: Material[]; total: number }> {
+  const from = (filters.page - 1) * filters.per_page;
+
+  let request = supabase
+    .from('materials')
+    .select(MATERIAL_COLUMNS, { count: 'exact' })
+    .order(filters.sort, {
+      ascending: filters.order === 'asc',
+      nullsFirst: false
+    })
+    .range(from, from + filters.per_page - 1);
+
+  // 次要排序，避免相同值的材料在換頁時重複或遺漏
+  if (filters.sort !== 'name') request = request.order('name');
+
+  if (filters.name) request = request.ilike('name', `%${filters.name}%`);
+  if (filters.category.length > 0) {
+    request = request.in('category', filters.category);
+  }
+  if (filters.voltage.length > 0) {
+    request = request.in('voltage', filters.voltage);
+  }
+  if (filters.price_min !== undefined) {
+    request = request.gte('price', filters.price_min);
+  }
+  if (filters.price_max !== undefined) {
+    request = request.lte('price', filters.price_max);
+  }
+
+  const { data, error, count } = await request;
+  if (error) throw new DatabaseError(`讀取材料失敗: ${error.message}`);
+
+  return { materials: (data || []).map(toMaterial), total: count ?? 0 };
+}
+
+/**
+ * 篩選器的選項：所有分類、電壓與單價範圍
+ */
+export async function getMaterialFacets(): Promise<MaterialFacets> {
+  const { data, error } = await supabase
+    .from('materials')
+    .select('category, voltage, price');
+
+  if (error) throw new DatabaseError(`讀取材料分類失敗: ${error.message}`);
+
+  const rows = data || [];
+  const prices = rows.map((row) => Number(row.price));
+  const categories = new Set<string>();
+  const voltages = new Set<number>();
+  for (const row of rows) {
+    if (row.category) categories.add(row.category);
+    if (row.voltage !== null) voltages.add(Number(row.voltage));
+  }
+
+  return {
+    categories: Array.from(categories).sort((a, b) => a.localeCompare(b)),
+    voltages: Array.from(voltages).sort((a, b) => a - b),
+    price_range:
+      prices.length > 0
+        ? [Math.floor(Math.min(...prices)), Math.ceil(Math.max(...prices))]
+        : null
+  };
+}
+
+export async function getMaterial(id: string): Promise<Material> {
+  const { data, error } = await supabase
+    .from('materials')
+    .select(MATERIAL_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`讀取材料失敗: ${error.message}`);
+  if (!data) throw new MaterialNotFoundError(id);
+
+  return toMaterial(data);
+}
+
+export async function createMaterial(
+  input: MaterialInput,
+  changedBy: string | null = null
+): Promise<Material> {
+  const { data, error } = await supabase
+    .from('materials')
+    .insert({
+      ...input,
+      voltage: input.voltage ?? null,
+      updated_at: new Date().toISOString(),
+      updated_by: changedBy
+    })
+    .select(MATERIAL_COLUMNS)
+    .single();
+
+  if (error) throw new DatabaseError(`新增材料失敗: ${error.message}`);
+
+  return toMaterial(data);
+}
+
+/**
+ * 更新材料；單價有變動時由觸發器寫入單價紀錄
+ */
+export async function updateMaterial(
+  id: string,
+  input: MaterialInput,
+  changedBy: string | null = null
+): Promise<Material> {
+  const { data, error } = await supabase
+    .from('materials')
+    .update({
+      ...input,
+      voltage: input.voltage ?? null,
+      updated_at: new Date().toISOString(),
+      updated_by: changedBy
+    })
+    .eq('id', id)
+    .select(MATERIAL_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`更新材料失敗: ${error.message}`);
+  if (!data) throw new MaterialNotFoundError(id);
+
+  return toMaterial(data);
+}
+
+export async function deleteMaterial(id: string) {
+  const { data, error } = await supabase
+    .from('materials')
+    .delete()
+    .eq('id', id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`刪除材料失敗: ${error.message}`);
+  if (!data) throw new MaterialNotFoundError(id);
+
+  return { id };
+}
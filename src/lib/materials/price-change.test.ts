@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { changePercent, priceAt } from './price-change';
+import type { PriceHistoryEntry } from './schemas';
+
+function entry(
+  changedAt: string,
+  price: number,
+  previousPrice: number | null
+): PriceHistoryEntry {
+  return {
+    id: 0,
+    material_id: 'm1',
+    price,
+    previous_price: previousPrice,
+    changed_by: null,
+    changed_at: changedAt
+  };
+}
+
+describe('priceAt', () => {
+  const history = [
+    entry('2026-01-01T00:00:00Z', 100, null),
+    entry('2026-02-01T00:00:00Z', 120, 100),
+    entry('2026-03-01T00:00:00Z', 90, 120)
+  ];
+  const time = (iso: string) => new Date(iso).getTime();
+
+  it('取該時間之前最後一筆紀錄的單價', () => {
+    expect(priceAt(history, time('2026-01-15T00:00:00Z'))).toBe(100);
+    expect(priceAt(history, time('2026-02-01T00:00:00Z'))).toBe(120);
+    expect(priceAt(history, time('2026-06-01T00:00:00Z'))).toBe(90);
+  });
+
+  it('材料在該時間之後才建立時取第一筆', () => {
+    expect(priceAt(history, time('2025-12-01T00:00:00Z'))).toBe(100);
+  });
+
+  it('沒有紀錄時回傳 null', () => {
+    expect(priceAt([], Date.now())).toBeNull();
+  });
+});
+
+describe('changePercent', () => {
+  it('四捨五入到小數第二位', () => {
+    expect(changePercent(100, 120)).toBe(20);
+    expect(changePercent(120, 90)).toBe(-25);
+    expect(changePercent(3, 4)).toBe(33.33);
+  });
+
+  it('起始單價為 0 或未知時回傳 null', () => {
+    expect(changePercent(0, 10)).toBeNull();
+    expect(changePercent(null, 10)).toBeNull();
+  });
+});
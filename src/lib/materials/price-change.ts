@@ -0,0 +1,33 @@
+/**
+ * 單價漲跌計算 - 伺服器判斷價格警示與前端趨勢圖共用
+ *
+ * 純函式，伺服器與瀏覽器共用
+ */
+
+import type { PriceHistoryEntry } from './schemas';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 某時間點當時的單價：該時間之前最後一筆紀錄；材料在該時間之後才建立時取第一筆
+ *
+ * history 需依時間先後排序；沒有任何紀錄時回傳 null
+ */
+export function priceAt(history: PriceHistoryEntry[], time: number) {
+  let price: number | null = null;
+  for (const entry of history) {
+    if (new Date(entry.changed_at).getTime() > time) {
+      return price ?? entry.price;
+    }
+    price = entry.price;
+  }
+  return price;
+}
+
+/**
+ * 漲跌幅（%），四捨五入到小數第二位；起始單價為 0 或未知時回傳 null
+ */
+export function changePercent(from: number | null, to: number) {
+  if (from === null || from <= 0) return null;
+  return Math.round(((to - from) / from) * 10000) / 100;
+}
@@ -0,0 +1,203 @@
+/**
+ * 材料單價歷史與價格警示
+ *
+ * 單價每次變動由資料庫觸發器寫入 material_price_history；警示以期間起點的單價與目前單價比較漲跌幅
+ *
+ * 僅供伺服器端（API Route、Server Component）使用
+ */
+
+import { supabase } from '@/lib/supabase-server';
+import { DatabaseError } from '@/lib/rag/errors';
+import { changePercent, DAY_MS, priceAt } from './price-change';
+import type {
+  Material,
+  PriceAlert,
+  PriceAlertStatus,
+  PriceHistoryEntry
+} from './schemas';
+
+const HISTORY_COLUMNS =
+  'id, material_id, price, previous_price, changed_by, changed_at';
+const ALERT_COLUMNS =
+  'id, material_id, threshold_pct, period_days, created_by, created_at';
+
+export class PriceAlertNotFoundError extends Error {
+  constructor(id: number) {
+    super(`找不到價格警示: ${id}`);
+    this.name = 'PriceAlertNotFoundError';
+  }
+}
+
+type PriceHistoryRow = Omit<
+  PriceHistoryEntry,
+  'material_id' | 'price' | 'previous_price'
+> & {
+  material_id: string | number;
+  price: number | string;
+  previous_price: number | string | null;
+};
+
+type PriceAlertRow = Omit<PriceAlert, 'material_id' | 'threshold_pct'> & {
+  material_id: string | number;
+  threshold_pct: number | string;
+};
+
+// numeric 欄位可能以字串回傳；material_id 與 materials.id 同型別，也可能是數字
+function toHistoryEntry(row: PriceHistoryRow): PriceHistoryEntry {
+  return {
+    ...row,
+    material_id: String(row.material_id),
+    price: Number(row.price),
+    previous_price:
+      row.previous_price === null ? null : Number(row.previous_price)
+  };
+}
+
+function toAlert(row: PriceAlertRow): PriceAlert {
+  return {
+    ...row,
+    material_id: String(row.material_id),
+    threshold_pct: Number(row.threshold_pct)
+  };
+}
+
+/**
+ * 依時間先後列出材料的單價紀錄
+ */
+export async function listPriceHistory(
+  materialId: string
+): Promise<PriceHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('material_price_history')
+    .select(HISTORY_COLUMNS)
+    .eq('material_id', materialId)
+    .order('changed_at', { ascending: true });
+
+  if (error) throw new DatabaseError(`讀取單價紀錄失敗: ${error.message}`);
+  return (data || []).map(toHistoryEntry);
+}
+
+/**
+ * 計算警示期間內的漲跌幅與是否觸發
+ */
+function evaluateAlert(
+  alert: PriceAlert,
+  material: Pick<Material, 'id' | 'name' | 'unit' | 'price'> | null,
+  history: PriceHistoryEntry[],
+  now = Date.now()
+): PriceAlertStatus {
+  const basePrice = priceAt(history, now - alert.period_days * DAY_MS);
+  const changePct = material ? changePercent(basePrice, material.price) : null;
+
+  return {
+    ...alert,
+    material,
+    base_price: basePrice,
+    change_pct: changePct,
+    triggered: changePct !== null && Math.abs(changePct) >= alert.threshold_pct
+  };
+}
+
+/**
+ * 列出價格警示與目前狀態；可只列出某個材料或已觸發的警示
+ */
+export async function listPriceAlerts(
+  options: { materialId?: string; triggered?: boolean } = {}
+): Promise<PriceAlertStatus[]> {
+  let request = supabase
+    .from('material_price_alerts')
+    .select(ALERT_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (options.materialId) {
+    request = request.eq('material_id', options.materialId);
+  }
+
+  const { data, error } = await request;
+  if (error) throw new DatabaseError(`讀取價格警示失敗: ${error.message}`);
+
+  const statuses = await evaluateAlerts((data || []).map(toAlert));
+  return options.triggered ? statuses.filter((s) => s.triggered) : statuses;
+}
+
+async function evaluateAlerts(alerts: PriceAlert[]) {
+  if (alerts.length === 0) return [];
+
+  const materialIds = Array.from(new Set(alerts.map((a) => a.material_id)));
+
+  // 單價很少變動，直接讀取關注材料的完整紀錄
+  const [materialsResult, historyResult] = await Promise.all([
+    supabase
+      .from('materials')
+      .select('id, name, unit, price')
+      .in('id', materialIds),
+    supabase
+      .from('material_price_history')
+      .select(HISTORY_COLUMNS)
+      .in('material_id', materialIds)
+      .order('changed_at', { ascending: true })
+  ]);
+
+  if (materialsResult.error) {
+    throw new DatabaseError(`讀取材料失敗: ${materialsResult.error.message}`);
+  }
+  if (historyResult.error) {
+    throw new DatabaseError(`讀取單價紀錄失敗: ${historyResult.error.message}`);
+  }
+
+  const materials = new Map(
+    (materialsResult.data || []).map((m) => [
+      String(m.id),
+      { ...m, id: String(m.id), price: Number(m.price) }
+    ])
+  );
+  const histories = new Map<string, PriceHistoryEntry[]>();
+  for (const row of historyResult.data || []) {
+    const entry = toHistoryEntry(row);
+    const list = histories.get(entry.material_id) ?? [];
+    list.push(entry);
+    histories.set(entry.material_id, list);
+  }
+
+  const now = Date.now();
+  return alerts.map((alert) =>
+    evaluateAlert(
+      alert,
+      materials.get(alert.material_id) ?? null,
+      histories.get(alert.material_id) ?? [],
+      now
+    )
+  );
+}
+
+export async function createPriceAlert(input: {
+  material_id: string;
+  threshold_pct: number;
+  period_days: number;
+  created_by: string | null;
+}): Promise<PriceAlertStatus> {
+  const { data, error } = await supabase
+    .from('material_price_alerts')
+    .insert(input)
+    .select(ALERT_COLUMNS)
+    .single();
+
+  if (error) throw new DatabaseError(`新增價格警示失敗: ${error.message}`);
+
+  const [status] = await evaluateAlerts([toAlert(data)]);
+  return status;
+}
+
+export async function deletePriceAlert(id: number) {
+  const { data, error } = await supabase
+    .from('material_price_alerts')
+    .delete()
+    .eq('id', id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`刪除價格警示失敗: ${error.message}`);
+  if (!data) throw new PriceAlertNotFoundError(id);
+
+  return { id };
+}
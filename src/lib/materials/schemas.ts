@@ -0,0 +1,208 @@
+/**
+ * 材料 API 請求與回應的 zod schema
+ *
+ * 錯誤回應沿用 RAG API 的統一格式（見 @/lib/rag/schemas 的 errorEnvelopeSchema）
+ */
+
+import * as z from 'zod';
+
+const nonEmptyString = z.string().trim().min(1, '不可為空白');
+
+// 空字串視為未填
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .nullish()
+    .transform((v) => v || null);
+
+// 逗號分隔的查詢參數，例如 category=電線,配管
+const commaList = z
+  .string()
+  .optional()
+  .transform((v) =>
+    v
+      ? v
+          .split(',')
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : []
+  );
+
+export const MATERIAL_SORT_COLUMNS = [
+  'name',
+  'category',
+  'voltage',
+  'price',
+  'updated_at'
+] as const;
+
+export const materialSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  unit: z.string(),
+  price: z.number(),
+  category: z.string().nullable(),
+  spec: z.string().nullable(),
+  voltage: z.number().nullable(),
+  updated_at: z.string()
+});
+
+export const materialIdSchema = nonEmptyString;
+
+export const materialRequestSchema = z.object({
+  name: nonEmptyString.max(200),
+  unit: nonEmptyString.max(20),
+  price: z.number().min(0, '單價不可為負數'),
+  category: optionalText(100),
+  spec: optionalText(200),
+  voltage: z.number().positive('電壓必須大於 0').nullish()
+});
+
+export const materialListQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    per_page: z.coerce.number().int().min(1).max(100).default(10),
+    name: z.string().trim().optional(),
+    category: commaList,
+    voltage: commaList
+      .transform((list) => list.map(Number))
+      .pipe(z.array(z.number().positive())),
+    price_min: z.coerce.number().min(0).optional(),
+    price_max: z.coerce.number().min(0).optional(),
+    sort: z.enum(MATERIAL_SORT_COLUMNS).default('name'),
+    order: z.enum(['asc', 'desc']).default('asc')
+  })
+  .refine(
+    (q) =>
+      q.price_min === undefined ||
+      q.price_max === undefined ||
+      q.price_min <= q.price_max,
+    { message: '最低單價不可大於最高單價', path: ['price_max'] }
+  );
+
+export const materialFacetsSchema = z.object({
+  categories: z.array(z.string()),
+  voltages: z.array(z.number()),
+  // 沒有任何材料時為 null
+  price_range: z.tuple([z.number(), z.number()]).nullable()
+});
+
+export const materialListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(materialSchema),
+  total: z.number(),
+  page: z.number(),
+  per_page: z.number()
+});
+
+export const materialResponseSchema = z.object({
+  success: z.literal(true),
+  data: materialSchema
+});
+
+export const materialDeleteResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({ id: z.string() })
+});
+
+// ---------------------------------------------------------------------------
+// 單價歷史與價格警示
+// ---------------------------------------------------------------------------
+
+export const priceHistoryEntrySchema = z.object({
+  id: z.number(),
+  material_id: z.string(),
+  price: z.number(),
+  // 新增材料時的第一筆為 null
+  previous_price: z.number().nullable(),
+  changed_by: z.string().nullable(),
+  changed_at: z.string()
+});
+
+export const priceHistoryResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(priceHistoryEntrySchema)
+});
+
+export const priceAlertIdSchema = z.coerce.number().int().positive();
+
+export const priceAlertRequestSchema = z.object({
+  material_id: nonEmptyString,
+  threshold_pct: z
+    .number()
+    .positive('漲跌幅必須大於 0')
+    .max(1000, '漲跌幅不可超過 1000%'),
+  period_days: z.number().int().min(1).max(365, '期間不可超過 365 天')
+});
+
+export const priceAlertListQuerySchema = z.object({
+  material_id: z.string().trim().optional(),
+  // 只列出已觸發的警示（儀表板使用）
+  triggered: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((v) => v === 'true')
+});
+
+export const priceAlertSchema = z.object({
+  id: z.number(),
+  material_id: z.string(),
+  threshold_pct: z.number(),
+  period_days: z.number(),
+  created_by: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const priceAlertStatusSchema = priceAlertSchema.extend({
+  // 材料已被刪除時為 null
+  material: materialSchema
+    .pick({ id: true, name: true, unit: true, price: true })
+    .nullable(),
+  // 期間起點的單價；沒有任何歷史紀錄時為 null
+  base_price: z.number().nullable(),
+  change_pct: z.number().nullable(),
+  triggered: z.boolean()
+});
+
+export const priceAlertListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(priceAlertStatusSchema)
+});
+
+export const priceAlertResponseSchema = z.object({
+  success: z.literal(true),
+  data: priceAlertStatusSchema
+});
+
+export const priceAlertDeleteResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({ id: z.number() })
+});
+
+export type Material = z.infer<typeof materialSchema>;
+export type MaterialRequest = z.input<typeof materialRequestSchema>;
+export type MaterialInput = z.output<typeof materialRequestSchema>;
+export type MaterialSortColumn = (typeof MATERIAL_SORT_COLUMNS)[number];
+export type MaterialListQuery = z.input<typeof materialListQuerySchema>;
+export type MaterialListFilters = z.output<typeof materialListQuerySchema>;
+export type MaterialFacets = z.infer<typeof materialFacetsSchema>;
+export type MaterialListResponse = z.infer<typeof materialListResponseSchema>;
+export type MaterialResponse = z.infer<typeof materialResponseSchema>;
+export type MaterialDeleteResponse = z.infer<
+  typeof materialDeleteResponseSchema
+>;
+export type PriceHistoryEntry = z.infer<typeof priceHistoryEntrySchema>;
+export type PriceHistoryResponse = z.infer<typeof priceHistoryResponseSchema>;
+export type PriceAlertRequest = z.input<typeof priceAlertRequestSchema>;
+export type PriceAlertListQuery = z.input<typeof priceAlertListQuerySchema>;
+export type PriceAlert = z.infer<typeof priceAlertSchema>;
+export type PriceAlertStatus = z.infer<typeof priceAlertStatusSchema>;
+export type PriceAlertListResponse = z.infer<
+  typeof priceAlertListResponseSchema
+>;
+export type PriceAlertResponse = z.infer<typeof priceAlertResponseSchema>;
+export type PriceAlertDeleteResponse = z.infer<
+  typeof priceAlertDeleteResponseSchema
+>;
@@ -0,0 +1,217 @@
+/**
+ * 搜尋分析 - 記錄每次搜尋並彙總熱門、無結果與低相似度查詢
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { DatabaseError } from './errors';
+import type {
+  AnalyticsResponse,
+  OrganizationStat,
+  QueryStat,
+  RagErrorCode,
+  SearchLogSummary
+} from './schemas';
+import { toFilterJson } from './retrieval';
+import type { SearchOptions, SearchOutcome } from './search';
+
+// 匯出 CSV 的筆數上限，避免一次讀出整張表
+export const EXPORT_MAX_ROWS = 10_000;
+
+export interface SearchLog {
+  query: string;
+  mode: string;
+  filters: Record<string, unknown>;
+  result_count: number;
+  top_similarity: number | null;
+  latency_ms: number;
+  error_code: RagErrorCode | null;
+  user_name: string | null;
+  user_role: string | null;
+  org: string | null;
+}
+
+export interface SearchLogRow extends SearchLog {
+  id: number;
+  created_at: string;
+}
+
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * 由搜尋參數與結果組出一筆紀錄；搜尋失敗時 outcome 為 null
+ */
+export function toSearchLog(
+  options: SearchOptions,
+  outcome: SearchOutcome | null,
+  extra: Pick<
+    SearchLog,
+    'latency_ms' | 'error_code' | 'user_name' | 'user_role' | 'org'
+  >
+): SearchLog {
+  const data = outcome?.data ?? [];
+  // 純關鍵字結果的 similarity 為 0，不列入最高相似度
+  const similarities = data
+    .filter((chunk) => chunk.retrievers.includes('vector'))
+    .map((chunk) => chunk.similarity);
+
+  return {
+    query: options.query,
+    mode: outcome?.mode ?? options.mode ?? 'hybrid',
+    filters: {
+      ...toFilterJson(options),
+      match_count: options.match_count ?? null,
+      match_threshold: options.match_threshold ?? null,
+      rerank: options.rerank ?? false,
+      feedback_boost: options.feedback_boost ?? false,
+      rewritten_query: outcome?.rewritten_query ?? null,
+      normalized_query: outcome?.query_expansion?.normalized_query ?? null
+    },
+    result_count: data.length,
+    top_similarity: similarities.length > 0 ? Math.max(...similarities) : null,
+    ...extra
+  };
+}
+
+/**
+ * 寫入搜尋紀錄；失敗只記錄錯誤，不影響搜尋本身
+ */
+export async function logSearch(log: SearchLog): Promise<void> {
+  const supabase = await getSupabase();
+  const { error } = await supabase.from('search_logs').insert(log);
+  if (error) console.error('寫入搜尋紀錄錯誤:', error.message);
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * 區間內的搜尋總覽與查詢排行
+ */
+export async function getSearchAnalytics(
+  range: AnalyticsRange & { low_similarity: number; limit: number }
+): Promise<AnalyticsResponse['data']> {
+  const supabase = await getSupabase();
+  const params = {
+    p_from: range.from,
+    p_to: range.to,
+    p_low_similarity: range.low_similarity
+  };
+
+  const queries = (kind: 'all' | 'zero_result' | 'low_similarity') =>
+    supabase.rpc('search_log_queries', {
+      ...params,
+      p_kind: kind,
+      p_limit: range.limit
+    });
+
+  const [summary, top, zeroResult, lowSimilarity, organizations] =
+    await Promise.all([
+      supabase.rpc('search_log_summary', params),
+      queries('all'),
+      queries('zero_result'),
+      queries('low_similarity'),
+      supabase.rpc('search_log_organizations', {
+        p_from: range.from,
+        p_to: range.to
+      })
+    ]);
+
+  const failed = [summary, top, zeroResult, lowSimilarity, organizations].find(
+    (result) => result.error
+  );
+  if (failed?.error) {
+    throw new DatabaseError(`讀取搜尋分析失敗: ${failed.error.message}`);
+  }
+
+  const row = summary.data?.[0] ?? {};
+
+  return {
+    summary: {
+      total_searches: Number(row.total_searches ?? 0),
+      unique_queries: Number(row.unique_queries ?? 0),
+      zero_result_count: Number(row.zero_result_count ?? 0),
+      low_similarity_count: Number(row.low_similarity_count ?? 0),
+      error_count: Number(row.error_count ?? 0),
+      avg_latency_ms: toNumberOrNull(row.avg_latency_ms),
+      p50_latency_ms: toNumberOrNull(row.p50_latency_ms),
+      p90_latency_ms: toNumberOrNull(row.p90_latency_ms),
+      p99_latency_ms: toNumberOrNull(row.p99_latency_ms)
+    } satisfies SearchLogSummary,
+    top_queries: toQueryStats(top.data),
+    zero_result_queries: toQueryStats(zeroResult.data),
+    low_similarity_queries: toQueryStats(lowSimilarity.data),
+    organizations: ((organizations.data || []) as OrganizationStat[]).map(
+      (row) => ({ ...row, search_count: Number(row.search_count) })
+    )
+  };
+}
+
+function toQueryStats(rows: QueryStat[] | null): QueryStat[] {
+  return (rows || []).map((row) => ({
+    ...row,
+    search_count: Number(row.search_count),
+    avg_result_count: Number(row.avg_result_count),
+    avg_top_similarity: toNumberOrNull(row.avg_top_similarity),
+    avg_latency_ms: Number(row.avg_latency_ms)
+  }));
+}
+
+/**
+ * 區間內的原始搜尋紀錄（新到舊，最多 EXPORT_MAX_ROWS 筆）
+ */
+export async function listSearchLogs(
+  range: AnalyticsRange
+): Promise<SearchLogRow[]> {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase
+    .from('search_logs')
+    .select('*')
+    .gte('created_at', range.from)
+    .lt('created_at', range.to)
+    .order('created_at', { ascending: false })
+    .limit(EXPORT_MAX_ROWS);
+
+  if (error) throw new DatabaseError(`讀取搜尋紀錄失敗: ${error.message}`);
+  return data || [];
+}
+
+const CSV_COLUMNS: (keyof SearchLogRow)[] = [
+  'created_at',
+  'query',
+  'mode',
+  'result_count',
+  'top_similarity',
+  'latency_ms',
+  'error_code',
+  'user_name',
+  'user_role',
+  'org',
+  'filters'
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // 查詢字串由使用者輸入，避免在試算表中被當成公式執行
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 轉為 CSV；開頭加上 BOM，Excel 開啟中文才不會亂碼
+ */
+export function toCsv(rows: SearchLogRow[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map((row) => CSV_COLUMNS.map((col) => csvCell(row[col])).join(','))
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
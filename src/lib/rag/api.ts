@@ -0,0 +1,136 @@
+/**
+ * RAG API Route 共用工具 - 請求驗證與統一的錯誤回應
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import * as z from 'zod';
+import type { ErrorEnvelope, RagErrorCode } from './schemas';
+import { ChunkNotFoundError, UndoExpiredError } from './chunks';
+import { SourceNotFoundError } from './sources';
+import {
+  EmbeddingDimensionError,
+  EmbeddingUnavailableError
+} from './embedding';
+import { EmbeddingModelMismatchError } from './embedding-stats';
+import { DatabaseError, errorJson, STATUS_BY_CODE } from './errors';
+import { UnsupportedFormatError } from './extract';
+import { FeedbackNotFoundError } from './feedback';
+import { GlossaryConflictError, GlossaryTermNotFoundError } from './glossary';
+import { GenerationError } from './generate';
+import { RpcError } from './retrieval';
+import { RegulationNotFoundError } from './revisions';
+
+/**
+ * Route 內直接回報的錯誤（例如參數不合法、找不到資料）
+ */
+export class RagApiError extends Error {
+  constructor(
+    public code: RagErrorCode,
+    message: string,
+    public details?: ErrorEnvelope['details']
+  ) {
+    super(message);
+    this.name = 'RagApiError';
+  }
+}
+
+function zodDetails(error: z.ZodError): ErrorEnvelope['details'] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message
+  }));
+}
+
+/**
+ * 依 schema 驗證資料，失敗時丟出 VALIDATION_ERROR
+ */
+export function validate<T extends z.ZodType>(
+  schema: T,
+  value: unknown
+): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new RagApiError(
+      'VALIDATION_ERROR',
+      '請求參數格式錯誤',
+      zodDetails(result.error)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * 讀取 JSON body 並驗證
+ */
+export async function parseJson<T extends z.ZodType>(
+  request: Request,
+  schema: T
+): Promise<z.output<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new RagApiError('VALIDATION_ERROR', '請求內容不是有效的 JSON');
+  }
+  return validate(schema, body);
+}
+
+/**
+ * 驗證 URL 查詢參數
+ */
+export function parseQuery<T extends z.ZodType>(
+  params: URLSearchParams,
+  schema: T
+): z.output<T> {
+  return validate(schema, Object.fromEntries(params.entries()));
+}
+
+/**
+ * 將錯誤轉為對應的錯誤代碼
+ */
+export function toErrorCode(err: unknown): RagErrorCode {
+  if (err instanceof RagApiError) return err.code;
+  if (
+    err instanceof ChunkNotFoundError ||
+    err instanceof RegulationNotFoundError ||
+    err instanceof FeedbackNotFoundError ||
+    err instanceof SourceNotFoundError ||
+    err instanceof GlossaryTermNotFoundError
+  ) {
+    return 'NOT_FOUND';
+  }
+  if (err instanceof GlossaryConflictError) return 'CONFLICT';
+  if (err instanceof UndoExpiredError) return 'UNDO_EXPIRED';
+  if (err instanceof UnsupportedFormatError) return 'UNSUPPORTED_FORMAT';
+  if (err instanceof EmbeddingModelMismatchError) {
+    return 'EMBEDDING_MODEL_MISMATCH';
+  }
+  if (err instanceof EmbeddingDimensionError) {
+    return 'EMBEDDING_DIMENSION_MISMATCH';
+  }
+  if (err instanceof EmbeddingUnavailableError) return 'EMBEDDING_UNAVAILABLE';
+  if (err instanceof GenerationError) return 'GENERATION_UNAVAILABLE';
+  if (err instanceof RpcError) return 'DB_RPC_FAILED';
+  if (err instanceof DatabaseError) return 'DB_ERROR';
+  return 'INTERNAL_ERROR';
+}
+
+/**
+ * catch 區塊共用：記錄非預期錯誤並回傳統一格式
+ */
+export function errorResponse(err: unknown, label: string) {
+  const code = toErrorCode(err);
+
+  // 4xx 屬於使用者可處理的錯誤，不記錄
+  if (STATUS_BY_CODE[code] >= 500) {
+    console.error(`${label} API 錯誤:`, err);
+  }
+
+  const message = err instanceof Error ? err.message : '未知錯誤';
+  return errorJson(
+    code,
+    message,
+    err instanceof RagApiError ? err.details : undefined
+  );
+}
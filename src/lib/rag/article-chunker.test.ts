@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chunkRegulation,
+  formatArticleNo,
+  parseChineseNumber
+} from './article-chunker';
+
+describe('parseChineseNumber', () => {
+  it('轉換中文、全形與阿拉伯數字', () => {
+    expect(parseChineseNumber('一百零二')).toBe(102);
+    expect(parseChineseNumber('十二')).toBe(12);
+    expect(parseChineseNumber('二十')).toBe(20);
+    expect(parseChineseNumber('１２')).toBe(12);
+    expect(parseChineseNumber('305')).toBe(305);
+  });
+});
+
+describe('formatArticleNo', () => {
+  it('統一條號與「之」的寫法', () => {
+    expect(formatArticleNo('十二')).toBe('第12條');
+    expect(formatArticleNo('十二', '一')).toBe('第12條之1');
+  });
+});
+
+describe('chunkRegulation', () => {
+  const text = [
+    '用戶用電設備裝置規則',
+    '第一章 總則',
+    '第一節 通則',
+    '第一條 本規則依電業法訂定之。',
+    '第二條',
+    '本規則用詞定義如下：',
+    '依第五條規定辦理。',
+    '第二節 用詞',
+    '第十二條之一 導線之安培容量應符合附表。'
+  ].join('\n');
+
+  it('依條文標題切塊並填入 article_no', () => {
+    const chunks = chunkRegulation(text);
+
+    expect(chunks.map((c) => c.article_no)).toEqual([
+      null,
+      '第1條',
+      '第2條',
+      '第12條之1'
+    ]);
+    expect(chunks.map((c) => c.chunk_idx)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('記錄所屬章、節，節標題在換章時清除', () => {
+    const chunks = chunkRegulation(text);
+
+    expect(chunks[0].metadata).toEqual({});
+    expect(chunks[1].metadata).toEqual({
+      chapter: '第一章 總則',
+      section: '第一節 通則'
+    });
+    expect(chunks[3].metadata).toEqual({
+      chapter: '第一章 總則',
+      section: '第二節 用詞'
+    });
+  });
+
+  it('內文提到的「第五條規定」不視為條文標題', () => {
+    const chunks = chunkRegulation(text);
+
+    expect(chunks[2].content).toBe(
+      '第2條\n本規則用詞定義如下：\n依第五條規定辦理。'
+    );
+  });
+
+  it('條文過長時依款切開，每段都帶條號標題與段次', () => {
+    const clauses = ['一', '二', '三'].map(
+      (n) => `${n}、${'導線'.repeat(20)}。`
+    );
+    const chunks = chunkRegulation(['第三條', ...clauses].join('\n'), {
+      maxChars: 60
+    });
+
+    expect(chunks).toHaveLength(3);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.article_no).toBe('第3條');
+      expect(chunk.content.startsWith(`第3條\n${clauses[i]}`)).toBe(true);
+      expect(chunk.metadata).toEqual({ part: i + 1, parts: 3 });
+    });
+  });
+
+  it('沒有條文結構時退回一般段落切塊', () => {
+    const chunks = chunkRegulation('配線應符合下列規定。\n\n導線應有絕緣。');
+
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(chunks.every((c) => c.article_no === null)).toBe(true);
+    expect(chunks.every((c) => Object.keys(c.metadata).length === 0)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * 法規條文切塊 - 依台灣法規結構（章／節／條／款／目）切塊
+ *
+ * 原則：
+ * - 每一條盡量保持完整，並填入 article_no
+ * - 條文過長時依「款」→「目」→ 句子逐層切開，每段都帶條號標題
+ * - 所屬章、節記錄於 metadata，供引用與瀏覽使用
+ * - 找不到任何條文標題時，退回一般段落切塊
+ */
+
+import { chunkText, type ChunkOptions, type TextChunk } from './chunker';
+
+export interface RegulationChunkMetadata {
+  chapter?: string;
+  section?: string;
+  /** 條文切成多段時的段次（1 起算） */
+  part?: number;
+  parts?: number;
+}
+
+export interface RegulationChunk extends TextChunk {
+  article_no: string | null;
+  metadata: RegulationChunkMetadata;
+}
+
+const NUMERAL = '[0-9０-９一二三四五六七八九十百千零〇兩]+';
+
+const CHAPTER_RE = new RegExp(`^第\\s*(${NUMERAL})\\s*[章編]\\s*(.*)$`);
+const SECTION_RE = new RegExp(`^第\\s*(${NUMERAL})\\s*節\\s*(.*)$`);
+// 條文標題後必須是行尾或空白，避免誤判內文中的「第五條規定」
+const ARTICLE_RE = new RegExp(
+  `^第\\s*(${NUMERAL})\\s*條(?:\\s*之\\s*(${NUMERAL}))?(?:\\s+(.*))?$`
+);
+const CLAUSE_RE = /^[一二三四五六七八九十]+、/;
+const ITEM_RE = /^[（(][一二三四五六七八九十]+[）)]/;
+
+const DIGITS: Record<string, number> = {
+  零: 0,
+  〇: 0,
+  一: 1,
+  二: 2,
+  兩: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9
+};
+
+const UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+
+/**
+ * 將中文或全形數字轉為阿拉伯數字，例如「一百零二」→ 102
+ */
+export function parseChineseNumber(value: string): number {
+  const halfWidth = value.replace(/[０-９]/g, (c) =>
+    String.fromCharCode(c.charCodeAt(0) - 0xfee0)
+  );
+  if (/^\d+$/.test(halfWidth)) return Number(halfWidth);
+
+  let total = 0;
+  let digit = 0;
+  for (const char of halfWidth) {
+    if (char in DIGITS) {
+      digit = DIGITS[char];
+    } else if (char in UNITS) {
+      // 「十二」開頭省略「一」
+      total += (digit || 1) * UNITS[char];
+      digit = 0;
+    }
+  }
+  return total + digit;
+}
+
+/**
+ * 統一條號格式，例如「第十二條之一」→「第12條之1」
+ */
+export function formatArticleNo(main: string, sub?: string): string {
+  const base = `第${parseChineseNumber(main)}條`;
+  return sub ? `${base}之${parseChineseNumber(sub)}` : base;
+}
+
+interface ArticleBlock {
+  article_no: string | null;
+  heading: string;
+  lines: string[];
+  chapter?: string;
+  section?: string;
+}
+
+/**
+ * 將條文主體依「款」或「目」分組（每組以標記行開頭）
+ */
+function groupBy(lines: string[], marker: RegExp): string[][] {
+  const groups: string[][] = [];
+  for (const line of lines) {
+    if (marker.test(line) || groups.length === 0) {
+      groups.push([line]);
+    } else {
+      groups[groups.length - 1].push(line);
+    }
+  }
+  return groups;
+}
+
+/**
+ * 將行群組貪婪合併為不超過 maxChars 的片段；單組仍過長時往下一層切
+ */
+function packGroups(
+  groups: string[][],
+  maxChars: number,
+  split: (lines: string[]) => string[]
+): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const group of groups) {
+    const text = group.join('\n');
+
+    if (text.length > maxChars) {
+      if (current) {
+        pieces.push(current);
+        current = '';
+      }
+      pieces.push(...split(group));
+      continue;
+    }
+
+    if (current && current.length + text.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${text}` : text;
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * 將單一條文切成一或多段內容（不含標題）
+ */
+function splitArticleBody(
+  lines: string[],
+  maxChars: number,
+  options: ChunkOptions
+): string[] {
+  const body = lines.join('\n');
+  if (body.length <= maxChars) return [body];
+
+  const bySentence = (group: string[]) =>
+    chunkText(group.join('\n'), { ...options, maxChars }).map((c) => c.content);
+  const byItem = (group: string[]) =>
+    packGroups(groupBy(group, ITEM_RE), maxChars, bySentence);
+
+  return packGroups(groupBy(lines, CLAUSE_RE), maxChars, byItem);
+}
+
+/**
+ * 掃描全文，拆出章、節與條文區塊
+ */
+function parseArticles(text: string): ArticleBlock[] {
+  const blocks: ArticleBlock[] = [];
+  let chapter: string | undefined;
+  let section: string | undefined;
+  let current: ArticleBlock | null = null;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (CHAPTER_RE.test(line)) {
+      chapter = line.replace(/\s+/g, ' ');
+      section = undefined;
+      current = null;
+      continue;
+    }
+
+    if (SECTION_RE.test(line)) {
+      section = line.replace(/\s+/g, ' ');
+      current = null;
+      continue;
+    }
+
+    const article = line.match(ARTICLE_RE);
+    if (article) {
+      const articleNo = formatArticleNo(article[1], article[2]);
+      current = {
+        article_no: articleNo,
+        heading: articleNo,
+        lines: article[3] ? [article[3].trim()] : [],
+        chapter,
+        section
+      };
+      blocks.push(current);
+      continue;
+    }
+
+    // 第一條之前的前言，或章節標題後尚未出現條文的說明
+    if (!current) {
+      current = { article_no: null, heading: '', lines: [], chapter, section };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  }
+
+  return blocks.filter((block) => block.lines.length > 0 || block.article_no);
+}
+
+/**
+ * 依法規結構切塊；無條文結構時退回一般段落切塊
+ */
+export function chunkRegulation(
+  text: string,
+  options: ChunkOptions = {}
+): RegulationChunk[] {
+  const blocks = parseArticles(text);
+
+  if (!blocks.some((block) => block.article_no)) {
+    return chunkText(text, options).map((chunk) => ({
+      ...chunk,
+      article_no: null,
+      metadata: {}
+    }));
+  }
+
+  const maxChars = options.maxChars ?? 800;
+  const chunks: RegulationChunk[] = [];
+
+  for (const block of blocks) {
+    const headingLength = block.heading ? block.heading.length + 1 : 0;
+    const parts = splitArticleBody(
+      block.lines,
+      Math.max(maxChars - headingLength, 1),
+      options
+    );
+
+    parts.forEach((part, i) => {
+      const metadata: RegulationChunkMetadata = {};
+      if (block.chapter) metadata.chapter = block.chapter;
+      if (block.section) metadata.section = block.section;
+      if (parts.length > 1) {
+        metadata.part = i + 1;
+        metadata.parts = parts.length;
+      }
+
+      chunks.push({
+        content: block.heading ? `${block.heading}\n${part}` : part,
+        chunk_idx: chunks.length,
+        article_no: block.article_no,
+        metadata
+      });
+    });
+  }
+
+  return chunks;
+}
@@ -0,0 +1,216 @@
+/**
+ * RAG 離線驗證 - 本地 API key 與簽章 session cookie，不需連線 Clerk
+ *
+ * 只使用 Web Crypto，proxy 與 API Route 皆可引用
+ *
+ * 環境變數：
+ *   RAG_AUTH_MODE      local | off（production 預設 local，其餘預設 off）
+ *   RAG_API_KEYS       名稱:角色:金鑰，以逗號分隔，例如 alice:editor:xxxx,bot:viewer:yyyy
+ *   RAG_AUTH_SECRET    簽署 session cookie 的密鑰
+ *   RAG_EDITOR_ROLE    可修改資料的角色（預設 editor）
+ *   RAG_PUBLIC_SEARCH  true 時未登入也能使用唯讀的搜尋與問答（送出回饋仍需登入）
+ *   RAG_ORG            本地驗證使用者所屬的組織，記錄於搜尋紀錄
+ */
+
+export type RagAuthMode = 'local' | 'off';
+
+export interface RagUser {
+  name: string;
+  role: string;
+}
+
+export interface RagAuthConfig {
+  mode: RagAuthMode;
+  editorRole: string;
+  publicSearch: boolean;
+  org: string | null;
+}
+
+export const SESSION_COOKIE = 'rag_session';
+export const SESSION_MAX_AGE = 60 * 60 * 12;
+
+// proxy 驗證後轉給 API Route 的身分 header（名稱以 encodeURIComponent 編碼）
+export const USER_HEADER = 'x-rag-user';
+export const ROLE_HEADER = 'x-rag-role';
+export const ORG_HEADER = 'x-rag-org';
+
+interface ApiKeyEntry extends RagUser {
+  key: string;
+}
+
+interface SessionPayload {
+  sub: string;
+  role: string;
+  exp: number;
+}
+
+export function getAuthConfig(): RagAuthConfig {
+  const mode =
+    process.env.RAG_AUTH_MODE ??
+    (process.env.NODE_ENV === 'production' ? 'local' : 'off');
+  return {
+    mode: mode === 'local' ? 'local' : 'off',
+    editorRole: process.env.RAG_EDITOR_ROLE || 'editor',
+    publicSearch: process.env.RAG_PUBLIC_SEARCH === 'true',
+    org: process.env.RAG_ORG || null
+  };
+}
+
+function parseApiKeys(): ApiKeyEntry[] {
+  return (process.env.RAG_API_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const [name, role, ...rest] = entry.split(':');
+      const key = rest.join(':');
+      return name && role && key ? [{ name, role, key }] : [];
+    });
+}
+
+// 逐字比對完整長度，避免以回應時間推測金鑰
+function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+export function findApiKeyUser(key: string): RagUser | null {
+  const entry = parseApiKeys().find((e) => safeEqual(e.key, key));
+  return entry ? { name: entry.name, role: entry.role } : null;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+async function sign(data: string): Promise<string> {
+  const secret = process.env.RAG_AUTH_SECRET;
+  if (!secret) throw new Error('未設定 RAG_AUTH_SECRET');
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * 簽發 session token：base64url(payload).signature
+ */
+export async function createSessionToken(user: RagUser): Promise<string> {
+  const payload: SessionPayload = {
+    sub: user.name,
+    role: user.role,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE
+  };
+  const data = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${data}.${await sign(data)}`;
+}
+
+export async function verifySessionToken(
+  token: string
+): Promise<RagUser | null> {
+  const [data, signature] = token.split('.');
+  if (!data || !signature || !process.env.RAG_AUTH_SECRET) return null;
+
+  if (!safeEqual(await sign(data), signature)) return null;
+
+  try {
+    const bytes = Uint8Array.from(fromBase64Url(data), (c) => c.charCodeAt(0));
+    const payload: SessionPayload = JSON.parse(new TextDecoder().decode(bytes));
+    if (payload.exp < Date.now() / 1000) return null;
+    return { name: payload.sub, role: payload.role };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 從 API key（Authorization: Bearer / x-api-key）或 session cookie 取得使用者
+ */
+export async function authenticate(
+  headers: Headers,
+  sessionToken?: string
+): Promise<RagUser | null> {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = bearer || headers.get('x-api-key');
+
+  if (apiKey) return findApiKeyUser(apiKey.trim());
+  if (sessionToken) return verifySessionToken(sessionToken);
+  return null;
+}
+
+export function canEdit(user: RagUser | null, config = getAuthConfig()) {
+  if (config.mode === 'off') return true;
+  return user?.role === config.editorRole;
+}
+
+/**
+ * 判斷 RAG API 請求是否只讀取資料
+ *
+ * 搜尋與問答雖然是 POST，但不會修改資料；送出回饋只寫入回饋紀錄，不修改法規資料
+ */
+export function isReadOnlyRequest(method: string, pathname: string) {
+  if (method === 'GET' || method === 'HEAD') return true;
+  return (
+    method === 'POST' &&
+    (pathname === '/api/rag/search' ||
+      pathname === '/api/rag/answer' ||
+      pathname === '/api/rag/feedback')
+  );
+}
+
+/**
+ * 不修改法規資料、但必須能識別使用者的 API：回饋會影響排序加權，
+ * 開放搜尋時也不接受匿名送出，避免無法追查來源的大量回饋左右排序
+ */
+export function isIdentifiedOnlyRequest(method: string, pathname: string) {
+  return method === 'POST' && pathname === '/api/rag/feedback';
+}
+
+/**
+ * 雖然只讀取資料，仍限定可編輯者使用的 API（含其他使用者查詢內容的搜尋分析與回饋佇列）
+ */
+export function isEditorOnlyRequest(method: string, pathname: string) {
+  return (
+    pathname.startsWith('/api/rag/analytics') ||
+    (method === 'GET' && pathname.startsWith('/api/rag/feedback'))
+  );
+}
+
+/**
+ * API Route 取得 proxy 驗證過的使用者名稱（驗證關閉時為 null）
+ */
+export function getRequestUser(headers: Headers): string | null {
+  const value = headers.get(USER_HEADER);
+  return value ? decodeURIComponent(value) : null;
+}
+
+export function getRequestRole(headers: Headers): string | null {
+  return headers.get(ROLE_HEADER);
+}
+
+export function getRequestOrg(headers: Headers): string | null {
+  const value = headers.get(ORG_HEADER);
+  return value ? decodeURIComponent(value) : null;
+}
@@ -0,0 +1,100 @@
+/**
+ * 文字切塊 - 將長文件切成適合 embedding 的片段
+ *
+ * 以段落為單位累積至 maxChars，過長段落再依句號切開
+ */
+
+export interface TextChunk {
+  content: string;
+  chunk_idx: number;
+}
+
+export interface ChunkOptions {
+  /** 每個 chunk 的最大字元數 */
+  maxChars?: number;
+  /** 相鄰 chunk 重疊的字元數（僅用於硬切的長段落） */
+  overlap?: number;
+}
+
+const DEFAULT_MAX_CHARS = 800;
+const DEFAULT_OVERLAP = 100;
+
+/**
+ * 依中文與英文句尾標點切句，保留標點
+ */
+function splitSentences(text: string): string[] {
+  return text.match(/[^。！？；!?;\n]+[。！？；!?;]?\n?/g) || [text];
+}
+
+/**
+ * 將過長段落切成不超過 maxChars 的片段
+ */
+function splitLongParagraph(
+  paragraph: string,
+  maxChars: number,
+  overlap: number
+): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of splitSentences(paragraph)) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+
+    // 單句仍超長時，以固定長度加重疊硬切
+    if (sentence.length > maxChars) {
+      const step = Math.max(maxChars - overlap, 1);
+      for (let i = 0; i < sentence.length; i += step) {
+        pieces.push(sentence.slice(i, i + maxChars).trim());
+      }
+      continue;
+    }
+
+    current += sentence;
+  }
+
+  if (current.trim()) pieces.push(current.trim());
+  return pieces.filter(Boolean);
+}
+
+/**
+ * 將文字切成 chunks
+ */
+export function chunkText(
+  text: string,
+  options: ChunkOptions = {}
+): TextChunk[] {
+  const { maxChars = DEFAULT_MAX_CHARS, overlap = DEFAULT_OVERLAP } = options;
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const contents: string[] = [];
+  let buffer = '';
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length > maxChars) {
+      if (buffer) {
+        contents.push(buffer);
+        buffer = '';
+      }
+      contents.push(...splitLongParagraph(paragraph, maxChars, overlap));
+      continue;
+    }
+
+    if (buffer && buffer.length + paragraph.length + 2 > maxChars) {
+      contents.push(buffer);
+      buffer = '';
+    }
+
+    buffer = buffer ? `${buffer}\n\n${paragraph}` : paragraph;
+  }
+
+  if (buffer) contents.push(buffer);
+
+  return contents.map((content, chunk_idx) => ({ content, chunk_idx }));
+}
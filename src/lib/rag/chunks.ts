@@ -0,0 +1,309 @@
+/**
+ * 法規 chunk 管理 - 列表、新增、刪除與限時復原
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { DatabaseError } from './errors';
+import { embedText, getEmbeddingProvider, toVectorLiteral } from './embedding';
+import { invalidateEmbeddingStats } from './embedding-stats';
+
+// 刪除後可復原的期限
+export const UNDO_WINDOW_MS = 15_000;
+
+const CHUNK_COLUMNS =
+  'id, content, source, article_no, chunk_idx, doc_type, metadata, embedding_model, embedding_dim, created_at';
+
+export interface ChunkListOptions {
+  page?: number;
+  pageSize?: number;
+  source?: string;
+  docType?: string;
+}
+
+export interface ChunkContextOptions {
+  source: string;
+  chunkIdx: number;
+  /** 往前／往後各取幾段 */
+  before?: number;
+  after?: number;
+}
+
+export interface CreateChunkInput {
+  content: string;
+  source: string;
+  doc_type?: string | null;
+  article_no?: string | null;
+  chunk_idx?: number;
+  metadata?: Record<string, unknown>;
+  tags?: string[];
+  effective_date?: string;
+}
+
+export class ChunkNotFoundError extends Error {
+  constructor(id: string) {
+    super(`找不到法規 chunk: ${id}`);
+    this.name = 'ChunkNotFoundError';
+  }
+}
+
+export class UndoExpiredError extends Error {
+  constructor(id: string) {
+    super(`chunk ${id} 已超過復原期限`);
+    this.name = 'UndoExpiredError';
+  }
+}
+
+/**
+ * 分頁列出 chunk，可依來源與文件類型篩選
+ */
+export async function listChunks({
+  page = 1,
+  pageSize = 20,
+  source,
+  docType
+}: ChunkListOptions = {}) {
+  const supabase = await getSupabase();
+  const from = (page - 1) * pageSize;
+
+  let query = supabase
+    .from('regulations')
+    .select(CHUNK_COLUMNS, { count: 'exact' })
+    .order('source', { ascending: true })
+    .order('chunk_idx', { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (source) query = query.eq('source', source);
+  if (docType) query = query.eq('doc_type', docType);
+
+  const { data, error, count } = await query;
+
+  if (error) throw new DatabaseError(`讀取 chunk 失敗: ${error.message}`);
+  return { data: data || [], total: count ?? 0 };
+}
+
+export async function getChunk(id: string) {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase
+    .from('regulations')
+    .select(CHUNK_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`讀取 chunk 失敗: ${error.message}`);
+  if (!data) throw new ChunkNotFoundError(id);
+  return data;
+}
+
+/**
+ * 一次取得多個 chunk，不存在的 id 直接略過
+ */
+export async function getChunksByIds(ids: string[]) {
+  const supabase = await getSupabase();
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('regulations')
+    .select(CHUNK_COLUMNS)
+    .in('id', ids);
+
+  if (error) throw new DatabaseError(`讀取 chunk 失敗: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * 取得命中 chunk 前後相鄰的段落，以及所屬條文的所有段落
+ *
+ * 以 source + chunk_idx 定位；刪除造成的編號空缺會直接跳過
+ */
+export async function getChunkContext({
+  source,
+  chunkIdx,
+  before = 2,
+  after = 2
+}: ChunkContextOptions) {
+  const supabase = await getSupabase();
+  const inSource = () =>
+    supabase.from('regulations').select(CHUNK_COLUMNS).eq('source', source);
+
+  const [hitResult, beforeResult, afterResult] = await Promise.all([
+    inSource().eq('chunk_idx', chunkIdx).maybeSingle(),
+    inSource()
+      .lt('chunk_idx', chunkIdx)
+      .order('chunk_idx', { ascending: false })
+      .limit(before),
+    inSource()
+      .gt('chunk_idx', chunkIdx)
+      .order('chunk_idx', { ascending: true })
+      .limit(after)
+  ]);
+
+  const error = hitResult.error || beforeResult.error || afterResult.error;
+  if (error) throw new DatabaseError(`讀取前後文失敗: ${error.message}`);
+
+  const hit = hitResult.data;
+  if (!hit) throw new ChunkNotFoundError(`${source} 第 ${chunkIdx + 1} 段`);
+
+  let article = null;
+  if (hit.article_no) {
+    const { data, error: articleError } = await inSource()
+      .eq('article_no', hit.article_no)
+      .order('chunk_idx', { ascending: true });
+
+    if (articleError) {
+      throw new DatabaseError(`讀取條文失敗: ${articleError.message}`);
+    }
+    article = { article_no: hit.article_no, chunks: data || [] };
+  }
+
+  return {
+    hit,
+    before: (beforeResult.data || []).reverse(),
+    after: afterResult.data || [],
+    article
+  };
+}
+
+/**
+ * 新增單一 chunk；未指定 chunk_idx 時接在同來源最後一段之後
+ */
+export async function createChunk(input: CreateChunkInput) {
+  const supabase = await getSupabase();
+  let chunkIdx = input.chunk_idx;
+
+  if (chunkIdx === undefined) {
+    const { data: last, error } = await supabase
+      .from('regulations')
+      .select('chunk_idx')
+      .eq('source', input.source)
+      .order('chunk_idx', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new DatabaseError(`讀取 chunk 失敗: ${error.message}`);
+    chunkIdx = last ? last.chunk_idx + 1 : 0;
+  }
+
+  const provider = getEmbeddingProvider();
+  const embedding = await embedText(input.content, provider);
+
+  const { data, error } = await supabase
+    .from('regulations')
+    .insert({
+      content: input.content,
+      source: input.source,
+      doc_type: input.doc_type ?? null,
+      article_no: input.article_no ?? null,
+      chunk_idx: chunkIdx,
+      metadata: {
+        ...input.metadata,
+        ...(input.tags && input.tags.length > 0 && { tags: input.tags }),
+        ...(input.effective_date && { effective_date: input.effective_date })
+      },
+      embedding: toVectorLiteral(embedding),
+      embedding_model: provider.model,
+      embedding_dim: embedding.length
+    })
+    .select(CHUNK_COLUMNS)
+    .single();
+
+  if (error) throw new DatabaseError(`新增 chunk 失敗: ${error.message}`);
+
+  invalidateEmbeddingStats();
+  return data;
+}
+
+/**
+ * 刪除 chunk：整列（含向量）移到 regulation_trash，期限內可用 restoreChunk 復原
+ */
+export async function deleteChunk(id: string) {
+  const supabase = await getSupabase();
+  await purgeExpiredTrash();
+
+  const { data: row, error: readError } = await supabase
+    .from('regulations')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (readError)
+    throw new DatabaseError(`讀取 chunk 失敗: ${readError.message}`);
+  if (!row) throw new ChunkNotFoundError(id);
+
+  const deletedAt = new Date();
+
+  const { error: trashError } = await supabase
+    .from('regulation_trash')
+    .upsert({ ...row, deleted_at: deletedAt.toISOString() });
+
+  if (trashError) {
+    throw new DatabaseError(`保存已刪除 chunk 失敗: ${trashError.message}`);
+  }
+
+  const { error } = await supabase.from('regulations').delete().eq('id', id);
+
+  if (error) throw new DatabaseError(`刪除失敗: ${error.message}`);
+
+  invalidateEmbeddingStats();
+  return {
+    id,
+    undo_until: new Date(deletedAt.getTime() + UNDO_WINDOW_MS).toISOString()
+  };
+}
+
+/**
+ * 在復原期限內把已刪除的 chunk 移回 regulations（保留原 id 與向量）
+ */
+export async function restoreChunk(id: string) {
+  const supabase = await getSupabase();
+  const { data: trashed, error: readError } = await supabase
+    .from('regulation_trash')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (readError)
+    throw new DatabaseError(`讀取已刪除 chunk 失敗: ${readError.message}`);
+  if (!trashed) throw new ChunkNotFoundError(id);
+
+  const { deleted_at: deletedAt, ...row } = trashed;
+
+  if (Date.now() - new Date(deletedAt).getTime() > UNDO_WINDOW_MS) {
+    throw new UndoExpiredError(id);
+  }
+
+  const { data, error } = await supabase
+    .from('regulations')
+    .insert(row)
+    .select(CHUNK_COLUMNS)
+    .single();
+
+  if (error) throw new DatabaseError(`復原失敗: ${error.message}`);
+
+  const { error: trashError } = await supabase
+    .from('regulation_trash')
+    .delete()
+    .eq('id', id);
+
+  // trash 留著會讓同一筆可以再次復原，撤銷本次寫入後回報錯誤
+  if (trashError) {
+    await supabase.from('regulations').delete().eq('id', data.id);
+    throw new DatabaseError(`移除已刪除紀錄失敗: ${trashError.message}`);
+  }
+
+  invalidateEmbeddingStats();
+  return data;
+}
+
+// 清掉已過復原期限的資料，避免 trash 無限累積
+async function purgeExpiredTrash() {
+  const supabase = await getSupabase();
+  const cutoff = new Date(Date.now() - UNDO_WINDOW_MS).toISOString();
+  const { error } = await supabase
+    .from('regulation_trash')
+    .delete()
+    .lt('deleted_at', cutoff);
+
+  if (error) console.error('清除過期 chunk 失敗:', error);
+}
@@ -0,0 +1,333 @@
+/**
+ * RAG API 前端 SDK - 所有 /api/rag/* 呼叫的唯一入口
+ *
+ * 請求與回應型別皆來自 schemas.ts，API 契約變動時在編譯期即可發現；
+ * 回應另以 zod 驗證，格式不符時拋出 RagClientError
+ */
+
+import * as z from 'zod';
+import { readEventStream } from './sse';
+import {
+  analyticsResponseSchema,
+  answerResponseSchema,
+  answerStreamEventSchemas,
+  chunkDeleteResponseSchema,
+  chunkListResponseSchema,
+  chunkContextResponseSchema,
+  chunkResponseSchema,
+  embeddingStatusResponseSchema,
+  errorEnvelopeSchema,
+  feedbackListResponseSchema,
+  feedbackResponseSchema,
+  glossaryDeleteResponseSchema,
+  glossaryListResponseSchema,
+  glossaryPreviewResponseSchema,
+  glossaryTermResponseSchema,
+  ingestResponseSchema,
+  loginResponseSchema,
+  logoutResponseSchema,
+  reembedResponseSchema,
+  restoreResponseSchema,
+  revisionListResponseSchema,
+  searchResponseSchema,
+  sessionResponseSchema,
+  sourceDocumentResponseSchema,
+  sourceListResponseSchema,
+  updateResponseSchema,
+  type AnalyticsExportQuery,
+  type AnalyticsQuery,
+  type AnswerRequest,
+  type ChunkContextQuery,
+  type ChunkCreateRequest,
+  type ChunkListQuery,
+  type FeedbackCreateRequest,
+  type FeedbackListQuery,
+  type GlossaryTermRequest,
+  type Citation,
+  type ErrorEnvelope,
+  type IngestRequest,
+  type LoginRequest,
+  type RagErrorCode,
+  type ReembedRequest,
+  type RestoreRequest,
+  type SearchRequest,
+  type UpdateRequest
+} from './schemas';
+
+const BASE_URL = '/api/rag';
+
+/**
+ * API 回傳錯誤或回應格式不符
+ *
+ * code 為 null 表示回應不是 RAG 錯誤格式（例如網路或 proxy 錯誤）
+ */
+export class RagClientError extends Error {
+  constructor(
+    public code: RagErrorCode | null,
+    message: string,
+    public status: number,
+    public details?: ErrorEnvelope['details']
+  ) {
+    super(message);
+    this.name = 'RagClientError';
+  }
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+  signal?: AbortSignal;
+  /** 非 RAG 的 API（例如 /api/materials）沿用相同的錯誤格式 */
+  baseUrl?: string;
+}
+
+function buildUrl(
+  path: string,
+  query?: RequestOptions['query'],
+  baseUrl = BASE_URL
+) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  const search = params.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ''}`;
+}
+
+async function send(
+  path: string,
+  { method = 'GET', body, query, signal, baseUrl }: RequestOptions
+): Promise<Response> {
+  const isForm = body instanceof FormData;
+  const response = await fetch(buildUrl(path, query, baseUrl), {
+    method,
+    signal,
+    headers:
+      body === undefined || isForm
+        ? undefined
+        : { 'Content-Type': 'application/json' },
+    body:
+      body === undefined
+        ? undefined
+        : isForm
+          ? (body as FormData)
+          : JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    const parsed = errorEnvelopeSchema.safeParse(payload);
+    throw parsed.success
+      ? new RagClientError(
+          parsed.data.code,
+          parsed.data.error,
+          response.status,
+          parsed.data.details
+        )
+      : new RagClientError(
+          null,
+          `請求失敗（HTTP ${response.status}）`,
+          response.status
+        );
+  }
+
+  return response;
+}
+
+/**
+ * 送出請求並以 schema 驗證回應；失敗時丟出 RagClientError
+ */
+export async function request<T extends z.ZodType>(
+  path: string,
+  schema: T,
+  options: RequestOptions = {}
+): Promise<z.output<T>> {
+  const response = await send(path, options);
+  const parsed = schema.safeParse(await response.json().catch(() => null));
+
+  if (!parsed.success) {
+    console.error(
+      `API ${buildUrl(path, undefined, options.baseUrl)} 回應格式不符:`,
+      parsed.error.issues
+    );
+    throw new RagClientError(null, 'API 回應格式不符', response.status);
+  }
+
+  return parsed.data;
+}
+
+const chunkPath = (id: string) => `/chunks/${encodeURIComponent(id)}`;
+
+export interface StreamAnswerHandlers {
+  signal?: AbortSignal;
+  onToken: (content: string) => void;
+  onCitation: (citation: Citation) => void;
+}
+
+export const ragClient = {
+  search: (body: SearchRequest, signal?: AbortSignal) =>
+    request('/search', searchResponseSchema, { method: 'POST', body, signal }),
+
+  answer: (body: Omit<AnswerRequest, 'stream'>, signal?: AbortSignal) =>
+    request('/answer', answerResponseSchema, {
+      method: 'POST',
+      body: { ...body, stream: false },
+      signal
+    }),
+
+  /**
+   * 串流模式回答，逐一回呼 token 與引用事件
+   *
+   * signal 中止時 fetch 會被取消，伺服器端隨即中止 Ollama 請求
+   */
+  streamAnswer: async (
+    body: Omit<AnswerRequest, 'stream'>,
+    { signal, onToken, onCitation }: StreamAnswerHandlers
+  ) => {
+    const response = await send('/answer', {
+      method: 'POST',
+      body: { ...body, stream: true },
+      signal
+    });
+
+    for await (const { event, data } of readEventStream(response)) {
+      if (event === 'token') {
+        onToken(answerStreamEventSchemas.token.parse(data).content);
+      } else if (event === 'citation') {
+        onCitation(answerStreamEventSchemas.citation.parse(data).citation);
+      } else if (event === 'error') {
+        const { code, error } = answerStreamEventSchemas.error.parse(data);
+        throw new RagClientError(code, error, response.status);
+      } else if (event === 'done') {
+        return answerStreamEventSchemas.done.parse(data);
+      }
+    }
+
+    return null;
+  },
+
+  update: (body: UpdateRequest) =>
+    request('/update', updateResponseSchema, { method: 'POST', body }),
+
+  ingest: ({
+    file,
+    source,
+    doc_type,
+    tags,
+    effective_date,
+    replace
+  }: IngestRequest) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (source) formData.append('source', source);
+    if (doc_type) formData.append('doc_type', doc_type);
+    if (tags) formData.append('tags', tags);
+    if (effective_date) formData.append('effective_date', effective_date);
+    formData.append('replace', String(!!replace));
+    return request('/ingest', ingestResponseSchema, {
+      method: 'POST',
+      body: formData
+    });
+  },
+
+  chunks: {
+    list: (query: ChunkListQuery = {}) =>
+      request('/chunks', chunkListResponseSchema, {
+        query: query as RequestOptions['query']
+      }),
+    get: (id: string) => request(chunkPath(id), chunkResponseSchema),
+    context: (query: ChunkContextQuery) =>
+      request('/chunks/context', chunkContextResponseSchema, {
+        query: query as RequestOptions['query']
+      }),
+    create: (body: ChunkCreateRequest) =>
+      request('/chunks', chunkResponseSchema, { method: 'POST', body }),
+    remove: (id: string) =>
+      request(chunkPath(id), chunkDeleteResponseSchema, { method: 'DELETE' }),
+    restore: (id: string) =>
+      request(`${chunkPath(id)}/restore`, chunkResponseSchema, {
+        method: 'POST'
+      })
+  },
+
+  sources: {
+    list: () => request('/sources', sourceListResponseSchema),
+    document: (source: string) =>
+      request('/sources/document', sourceDocumentResponseSchema, {
+        query: { source }
+      })
+  },
+
+  revisions: {
+    list: (regulationId: string) =>
+      request('/revisions', revisionListResponseSchema, {
+        query: { regulation_id: regulationId }
+      }),
+    restore: (body: RestoreRequest) =>
+      request('/revisions/restore', restoreResponseSchema, {
+        method: 'POST',
+        body
+      })
+  },
+
+  embeddings: {
+    status: () => request('/embeddings', embeddingStatusResponseSchema),
+    reembed: (body: ReembedRequest) =>
+      request('/embeddings', reembedResponseSchema, { method: 'POST', body })
+  },
+
+  feedback: {
+    submit: (body: FeedbackCreateRequest) =>
+      request('/feedback', feedbackResponseSchema, { method: 'POST', body }),
+    list: (query: FeedbackListQuery = {}) =>
+      request('/feedback', feedbackListResponseSchema, {
+        query: query as RequestOptions['query']
+      }),
+    resolve: (id: number) =>
+      request(`/feedback/${id}/resolve`, feedbackResponseSchema, {
+        method: 'POST'
+      })
+  },
+
+  glossary: {
+    list: () => request('/glossary', glossaryListResponseSchema),
+    create: (body: GlossaryTermRequest) =>
+      request('/glossary', glossaryTermResponseSchema, {
+        method: 'POST',
+        body
+      }),
+    update: (id: number, body: GlossaryTermRequest) =>
+      request(`/glossary/${id}`, glossaryTermResponseSchema, {
+        method: 'PATCH',
+        body
+      }),
+    remove: (id: number) =>
+      request(`/glossary/${id}`, glossaryDeleteResponseSchema, {
+        method: 'DELETE'
+      }),
+    /** 試算查詢會如何被詞彙表改寫 */
+    preview: (query: string) =>
+      request('/glossary/preview', glossaryPreviewResponseSchema, {
+        query: { query }
+      })
+  },
+
+  analytics: {
+    summary: (query: AnalyticsQuery) =>
+      request('/analytics', analyticsResponseSchema, {
+        query: query as RequestOptions['query']
+      }),
+    /** 下載搜尋紀錄 CSV */
+    exportCsv: async (range: AnalyticsExportQuery) =>
+      (await send('/analytics/export', { query: { ...range } })).blob()
+  },
+
+  auth: {
+    session: () => request('/auth/session', sessionResponseSchema),
+    login: (body: LoginRequest) =>
+      request('/auth/login', loginResponseSchema, { method: 'POST', body }),
+    logout: () =>
+      request('/auth/logout', logoutResponseSchema, { method: 'POST' })
+  }
+};
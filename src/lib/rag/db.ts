@@ -0,0 +1,48 @@
+/**
+ * RAG 資料庫連線 - 各資料存取模組共用的 Supabase client
+ *
+ * Next.js 伺服器端預設使用 @/lib/supabase-server 的 service role client；
+ * 在 Next.js 之外執行的命令列工具（scripts/rag-eval.ts）以 setRagDatabase 注入自己的連線，
+ * 不會載入 server-only 模組
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+export interface RagDatabase {
+  client: SupabaseClient;
+  /** RPC 以 REST API 直接呼叫時使用 */
+  url: string;
+  key: string;
+}
+
+let database: RagDatabase | null = null;
+
+export function createRagDatabase(url: string, key: string): RagDatabase {
+  const client = createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  return { client, url, key };
+}
+
+/**
+ * 指定後續查詢使用的連線；未指定時使用伺服器端的 service role client
+ */
+export function setRagDatabase(db: RagDatabase) {
+  database = db;
+}
+
+export async function getRagDatabase(): Promise<RagDatabase> {
+  if (!database) {
+    const server = await import('@/lib/supabase-server');
+    database = {
+      client: server.supabase,
+      url: server.supabaseUrl,
+      key: server.supabaseServiceKey
+    };
+  }
+  return database;
+}
+
+export async function getSupabase(): Promise<SupabaseClient> {
+  return (await getRagDatabase()).client;
+}
@@ -0,0 +1,84 @@
+/**
+ * Embedding 模型一致性 - 統計資料庫中各模型的 chunk 數，並在搜尋前檢查
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { DatabaseError } from './errors';
+import type { EmbeddingConfig } from './embedding';
+
+export interface EmbeddingModelStat {
+  embedding_model: string | null;
+  embedding_dim: number | null;
+  chunk_count: number;
+}
+
+// 統計結果快取時間，避免每次搜尋都查詢
+const STATS_TTL_MS = 60 * 1000;
+
+let cache: { stats: EmbeddingModelStat[]; expiresAt: number } | null = null;
+
+export class EmbeddingModelMismatchError extends Error {
+  constructor(
+    public queryModel: string,
+    public storedModels: string[]
+  ) {
+    super(
+      `查詢模型 ${queryModel} 與資料庫向量模型（${storedModels.join('、')}）不一致，請先完成重新生成向量或調整 EMBEDDING_MODEL`
+    );
+    this.name = 'EmbeddingModelMismatchError';
+  }
+}
+
+/**
+ * 取得各模型的 chunk 數量
+ */
+export async function getEmbeddingStats(
+  options: { fresh?: boolean } = {}
+): Promise<EmbeddingModelStat[]> {
+  const supabase = await getSupabase();
+  if (!options.fresh && cache && cache.expiresAt > Date.now()) {
+    return cache.stats;
+  }
+
+  const { data, error } = await supabase.rpc('regulation_embedding_stats');
+
+  if (error) throw new DatabaseError(`讀取向量統計失敗: ${error.message}`);
+
+  const stats = (data || []).map((row: EmbeddingModelStat) => ({
+    ...row,
+    chunk_count: Number(row.chunk_count)
+  }));
+  cache = { stats, expiresAt: Date.now() + STATS_TTL_MS };
+  return stats;
+}
+
+/**
+ * 資料變動後清除快取（例如重新生成向量）
+ */
+export function invalidateEmbeddingStats() {
+  cache = null;
+}
+
+/**
+ * 資料庫中有任何向量不是由查詢模型產生時拒絕搜尋
+ */
+export async function assertEmbeddingModelMatches(config: EmbeddingConfig) {
+  const stats = await getEmbeddingStats();
+  const mismatched = stats.filter(
+    (s) =>
+      s.chunk_count > 0 &&
+      (s.embedding_model !== config.model ||
+        s.embedding_dim !== config.dimension)
+  );
+
+  if (mismatched.length > 0) {
+    throw new EmbeddingModelMismatchError(
+      config.model,
+      mismatched.map(
+        (s) => `${s.embedding_model ?? '未知'}／${s.embedding_dim ?? '?'} 維`
+      )
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getEmbeddingConfig, getEmbeddingProvider } from './embedding';
+
+describe('getEmbeddingConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('hash 提供者的模型名稱由維度決定，不使用 EMBEDDING_MODEL', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'hash');
+    vi.stubEnv('EMBEDDING_MODEL', 'bge-m3');
+    vi.stubEnv('EMBEDDING_DIMENSION', '256');
+
+    const config = getEmbeddingConfig();
+    expect(config.model).toBe('hash-256');
+    expect(getEmbeddingProvider(config).model).toBe(config.model);
+  });
+
+  it('其他提供者使用 EMBEDDING_MODEL', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'ollama');
+    vi.stubEnv('EMBEDDING_MODEL', 'nomic-embed-text');
+
+    const config = getEmbeddingConfig();
+    expect(config.model).toBe('nomic-embed-text');
+    expect(getEmbeddingProvider(config).model).toBe(config.model);
+  });
+
+  it('hash 提供者無法改用其他模型', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'hash');
+    vi.stubEnv('EMBEDDING_DIMENSION', '1024');
+
+    const provider = getEmbeddingProvider({
+      ...getEmbeddingConfig(),
+      model: 'bge-m3'
+    });
+    expect(provider.model).toBe('hash-1024');
+  });
+});
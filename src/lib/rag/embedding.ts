@@ -0,0 +1,288 @@
+/**
+ * Embedding 提供者 - 統一向量生成介面
+ *
+ * 提供者（EMBEDDING_PROVIDER）：
+ * - ollama：Ollama `/api/embed`（預設）
+ * - openai：任何 OpenAI 相容的 `/v1/embeddings` 服務（vLLM、LM Studio、TEI 等）
+ * - hash：以字元 n-gram 雜湊產生的確定性向量，不需模型，供測試使用
+ *
+ * 環境變數：
+ *   EMBEDDING_MODEL       模型名稱（預設 bge-m3）；hash 提供者不使用，模型名稱固定為 hash-<維度>
+ *   EMBEDDING_DIMENSION   regulations.embedding 欄位的向量維度（預設 1024，即 vector(1024)）；
+ *                         pgvector 欄位維度固定，改用不同維度的模型前需先以 migration 變更欄位
+ *   EMBEDDING_URL         openai 提供者的服務位址
+ *   EMBEDDING_API_KEY     openai 提供者的 API key（選填）
+ *   EMBEDDING_BATCH_SIZE  每批送出的文字數（預設 16）
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+export type EmbeddingProviderName = 'ollama' | 'openai' | 'hash';
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  /** 回傳與 texts 同順序的向量 */
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimension: number;
+  batchSize: number;
+}
+
+const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
+
+export class EmbeddingDimensionError extends Error {
+  constructor(
+    public expected: number,
+    public actual: number
+  ) {
+    super(`Embedding 維度不符：預期 ${expected}，實際 ${actual}`);
+    this.name = 'EmbeddingDimensionError';
+  }
+}
+
+/**
+ * Embedding 服務無法連線或回傳格式錯誤
+ */
+export class EmbeddingUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingUnavailableError';
+  }
+}
+
+function hashModelName(dimension: number) {
+  return `hash-${dimension}`;
+}
+
+/**
+ * 讀取環境變數設定；model 為提供者實際產生向量所用的模型
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const provider = (process.env.EMBEDDING_PROVIDER ||
+    'ollama') as EmbeddingProviderName;
+  const dimension = Number(process.env.EMBEDDING_DIMENSION) || 1024;
+
+  return {
+    provider,
+    model:
+      provider === 'hash'
+        ? hashModelName(dimension)
+        : process.env.EMBEDDING_MODEL || 'bge-m3',
+    dimension,
+    batchSize: Number(process.env.EMBEDDING_BATCH_SIZE) || 16
+  };
+}
+
+/**
+ * Ollama `/api/embed`
+ */
+export function createOllamaEmbedder(model: string): EmbeddingProvider {
+  return {
+    name: 'ollama',
+    model,
+    embed: async (texts) => {
+      const response = await fetch(`${OLLAMA_URL}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          input: texts,
+          keep_alive: '5m'
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Ollama embedding 失敗: ${errorText}`);
+      }
+
+      const result = await response.json();
+
+      if (!result.embeddings || result.embeddings.length !== texts.length) {
+        throw new Error('Ollama 返回格式異常');
+      }
+
+      return result.embeddings;
+    }
+  };
+}
+
+/**
+ * OpenAI 相容 `/v1/embeddings`
+ */
+export function createOpenAIEmbedder(
+  baseUrl: string,
+  model: string,
+  apiKey?: string
+): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model,
+    embed: async (texts) => {
+      const response = await fetch(
+        `${baseUrl.replace(/\/$/, '')}/v1/embeddings`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+          },
+          body: JSON.stringify({ model, input: texts })
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding 服務失敗: ${errorText}`);
+      }
+
+      const result = await response.json();
+      const items: { index: number; embedding: number[] }[] = result.data || [];
+
+      if (items.length !== texts.length) {
+        throw new Error('Embedding 服務返回格式異常');
+      }
+
+      return [...items]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    }
+  };
+}
+
+/**
+ * FNV-1a 32-bit 雜湊
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 確定性雜湊向量：字元 unigram + bigram 雜湊到固定維度後 L2 正規化
+ *
+ * 相同文字永遠得到相同向量，字元重疊越多 cosine 越高，適合測試與評估
+ */
+export function createHashEmbedder(dimension: number): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimension).fill(0);
+    const compact = text.toLowerCase().replace(/\s+/g, '');
+
+    for (let i = 0; i < compact.length; i++) {
+      for (const gram of [compact[i], compact.slice(i, i + 2)]) {
+        const hash = fnv1a(gram);
+        vector[hash % dimension] += hash & 0x80000000 ? -1 : 1;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  };
+
+  return {
+    name: 'hash',
+    model: hashModelName(dimension),
+    embed: async (texts) => texts.map(embedOne)
+  };
+}
+
+/**
+ * 依設定建立 embedding 提供者
+ */
+export function getEmbeddingProvider(
+  config: EmbeddingConfig = getEmbeddingConfig()
+): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIEmbedder(
+        process.env.EMBEDDING_URL || 'http://localhost:8000',
+        config.model,
+        process.env.EMBEDDING_API_KEY
+      );
+    case 'hash':
+      return createHashEmbedder(config.dimension);
+    default:
+      return createOllamaEmbedder(config.model);
+  }
+}
+
+/**
+ * 以一段文字試算模型輸出的向量維度
+ */
+export async function probeEmbeddingDimension(
+  provider: EmbeddingProvider
+): Promise<number> {
+  let embeddings: number[][];
+  try {
+    embeddings = await provider.embed(['維度偵測']);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new EmbeddingUnavailableError(
+      `無法取得 embedding（${provider.name}/${provider.model}）: ${message}`
+    );
+  }
+  if (!embeddings[0]) {
+    throw new EmbeddingUnavailableError(`${provider.model} 沒有回傳 embedding`);
+  }
+  return embeddings[0].length;
+}
+
+/**
+ * 批次生成 embedding，並檢查每個向量的維度
+ */
+export async function embedTexts(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  config: EmbeddingConfig = getEmbeddingConfig()
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += config.batchSize) {
+    let batch: number[][];
+    try {
+      batch = await provider.embed(texts.slice(i, i + config.batchSize));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new EmbeddingUnavailableError(
+        `無法取得 embedding（${provider.name}/${provider.model}）: ${message}`
+      );
+    }
+
+    for (const embedding of batch) {
+      if (embedding.length !== config.dimension) {
+        throw new EmbeddingDimensionError(config.dimension, embedding.length);
+      }
+    }
+
+    embeddings.push(...batch);
+  }
+
+  return embeddings;
+}
+
+/**
+ * 生成單一文字的 embedding
+ */
+export async function embedText(
+  text: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
+  const [embedding] = await embedTexts([text], provider);
+  return embedding;
+}
+
+/**
+ * 格式化為 PostgreSQL vector 格式
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
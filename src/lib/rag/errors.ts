@@ -0,0 +1,50 @@
+/**
+ * RAG 共用錯誤類別與錯誤回應
+ *
+ * 不依賴 Supabase 等服務，proxy 也可引用
+ */
+
+import { NextResponse } from 'next/server';
+import type { ErrorEnvelope, RagErrorCode } from './schemas';
+
+export const STATUS_BY_CODE: Record<RagErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  UNDO_EXPIRED: 410,
+  UNSUPPORTED_FORMAT: 415,
+  FILE_TOO_LARGE: 413,
+  EMPTY_DOCUMENT: 422,
+  EMBEDDING_UNAVAILABLE: 503,
+  EMBEDDING_MODEL_MISMATCH: 409,
+  EMBEDDING_DIMENSION_MISMATCH: 422,
+  GENERATION_UNAVAILABLE: 503,
+  DB_RPC_FAILED: 502,
+  DB_ERROR: 500,
+  INTERNAL_ERROR: 500
+};
+
+/**
+ * 統一的錯誤回應：{ success: false, code, error, details? }
+ */
+export function errorJson(
+  code: RagErrorCode,
+  message: string,
+  details?: ErrorEnvelope['details']
+) {
+  const body: ErrorEnvelope = { success: false, code, error: message };
+  if (details) body.details = details;
+  return NextResponse.json(body, { status: STATUS_BY_CODE[code] });
+}
+
+/**
+ * Supabase 查詢或寫入失敗（RPC 失敗另見 retrieval.ts 的 RpcError）
+ */
+export class DatabaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
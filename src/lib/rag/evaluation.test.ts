@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  matchHits,
+  ndcgAtK,
+  normalizeArticleNo,
+  reciprocalRank,
+  recallAtK
+} from './evaluation';
+import type { RetrievedChunk } from './retrieval';
+
+function chunk(
+  id: string,
+  article_no: string | null,
+  source = '用戶用電設備裝置規則'
+): RetrievedChunk {
+  return { id, content: '', source, article_no, similarity: 0, retrievers: [] };
+}
+
+describe('normalizeArticleNo', () => {
+  it('統一空白、中文數字與「之」', () => {
+    expect(normalizeArticleNo('第 十二 條之一')).toBe('第12條之1');
+    expect(normalizeArticleNo('第12條')).toBe('第12條');
+    expect(normalizeArticleNo('附表 一')).toBe('附表一');
+  });
+});
+
+describe('matchHits', () => {
+  it('依 id、條號與來源比對，同一答案只計第一次命中', () => {
+    const chunks = [
+      chunk('1', '第3條'),
+      chunk('2', '第十二條之一'),
+      chunk('3', '第12條之1'),
+      chunk('4', '第5條', '其他法規'),
+      chunk('5', null)
+    ];
+
+    expect(
+      matchHits(chunks, [
+        { id: '5' },
+        { article_no: '第12條之1' },
+        { source: '用戶用電設備裝置規則', article_no: '第5條' }
+      ])
+    ).toEqual([-1, 1, -1, -1, 0]);
+  });
+});
+
+describe('evaluation metrics', () => {
+  // 第 2、4 名命中，共 3 個標準答案
+  const hits = [-1, 0, -1, 1, -1];
+
+  it('recallAtK', () => {
+    expect(recallAtK(hits, 3, 1)).toBe(0);
+    expect(recallAtK(hits, 3, 2)).toBeCloseTo(1 / 3);
+    expect(recallAtK(hits, 3, 5)).toBeCloseTo(2 / 3);
+    expect(recallAtK(hits, 0, 5)).toBe(0);
+  });
+
+  it('reciprocalRank', () => {
+    expect(reciprocalRank(hits)).toBe(0.5);
+    expect(reciprocalRank([0])).toBe(1);
+    expect(reciprocalRank([-1, -1])).toBe(0);
+  });
+
+  it('ndcgAtK', () => {
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(5);
+    const ideal = 1 + 1 / Math.log2(3) + 1 / Math.log2(4);
+
+    expect(ndcgAtK(hits, 3, 5)).toBeCloseTo(dcg / ideal);
+    expect(ndcgAtK([0, 1], 2, 2)).toBeCloseTo(1);
+    expect(ndcgAtK(hits, 0, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * 離線檢索評估 - 以標準問答集跑 /api/rag/search 相同的搜尋流程，計算 recall@k、MRR、nDCG
+ *
+ * 標準答案可指定 chunk id，或以「來源＋條號」指定（重新匯入後 id 會改變，條號不會）；
+ * 同一條文切成多段時，命中任一段即算找到該條
+ *
+ * 僅供伺服器端與命令列（scripts/rag-eval.ts）使用
+ */
+
+import * as z from 'zod';
+import { formatArticleNo } from './article-chunker';
+import { getEmbeddingConfig } from './embedding';
+import type { RetrievedChunk } from './retrieval';
+import { searchRegulations, type SearchOptions } from './search';
+import { searchModeSchema } from './schemas';
+
+export const DEFAULT_KS = [1, 3, 5, 10];
+
+const articleRefSchema = z.union([
+  z.string().min(1),
+  z.object({ source: z.string().optional(), article_no: z.string().min(1) })
+]);
+
+export const goldenCaseSchema = z
+  .object({
+    id: z.string().optional(),
+    question: z.string().trim().min(1),
+    expected_ids: z
+      .array(z.union([z.string(), z.number()]).transform(String))
+      .default([]),
+    expected_articles: z.array(articleRefSchema).default([]),
+    doc_type: z.string().optional()
+  })
+  .refine((c) => c.expected_ids.length + c.expected_articles.length > 0, {
+    message: '每題至少需要一個 expected_ids 或 expected_articles'
+  });
+
+export const goldenSetSchema = z.object({
+  name: z.string().default('golden'),
+  cases: z.array(goldenCaseSchema).min(1)
+});
+
+/** 一組要評估的搜尋設定，對應 /api/rag/search 的參數 */
+export const evalConfigSchema = z.object({
+  name: z.string().default('default'),
+  mode: searchModeSchema.default('hybrid'),
+  match_threshold: z.number().min(0).max(1).optional(),
+  rerank: z.boolean().optional(),
+  rerank_top_n: z.number().int().min(1).max(100).optional(),
+  feedback_boost: z.boolean().optional(),
+  glossary: z.boolean().optional()
+});
+
+export type GoldenCase = z.infer<typeof goldenCaseSchema>;
+export type GoldenSet = z.infer<typeof goldenSetSchema>;
+export type EvalConfig = z.infer<typeof evalConfigSchema>;
+
+export interface CaseResult {
+  id: string;
+  question: string;
+  /** 依排序列出的 chunk id */
+  retrieved_ids: string[];
+  /** 各排名命中的標準答案索引（未命中或重複命中為 -1） */
+  hits: number[];
+  expected_count: number;
+  recall: Record<number, number>;
+  reciprocal_rank: number;
+  ndcg: Record<number, number>;
+  latency_ms: number;
+  error: string | null;
+}
+
+export interface EvalReport {
+  name: string;
+  golden: string;
+  config: EvalConfig;
+  ks: number[];
+  created_at: string;
+  embedding: { provider: string; model: string };
+  summary: {
+    cases: number;
+    errors: number;
+    recall: Record<number, number>;
+    mrr: number;
+    ndcg: Record<number, number>;
+    avg_latency_ms: number;
+  };
+  cases: CaseResult[];
+}
+
+interface Target {
+  id?: string;
+  source?: string;
+  article_no?: string;
+}
+
+/**
+ * 統一條號寫法，「第 十二 條之一」與「第12條之1」視為相同
+ */
+export function normalizeArticleNo(value: string): string {
+  const compact = value.replace(/\s+/g, '');
+  const match = compact.match(/^第(.+?)條(?:之(.+))?$/);
+  return match ? formatArticleNo(match[1], match[2]) : compact;
+}
+
+function toTargets(golden: GoldenCase): Target[] {
+  return [
+    ...golden.expected_ids.map((id) => ({ id })),
+    ...golden.expected_articles.map((ref) =>
+      typeof ref === 'string'
+        ? { article_no: normalizeArticleNo(ref) }
+        : { source: ref.source, article_no: normalizeArticleNo(ref.article_no) }
+    )
+  ];
+}
+
+function matchesTarget(chunk: RetrievedChunk, target: Target): boolean {
+  if (target.id) return String(chunk.id) === target.id;
+  if (!chunk.article_no || !target.article_no) return false;
+  if (target.source && chunk.source !== target.source) return false;
+  return normalizeArticleNo(chunk.article_no) === target.article_no;
+}
+
+/**
+ * 找出每個排名命中的標準答案；同一答案只在第一次命中時計分
+ */
+export function matchHits(chunks: RetrievedChunk[], targets: Target[]) {
+  const found = new Set<number>();
+  return chunks.map((chunk) => {
+    const index = targets.findIndex(
+      (target, i) => !found.has(i) && matchesTarget(chunk, target)
+    );
+    if (index >= 0) found.add(index);
+    return index;
+  });
+}
+
+export function recallAtK(hits: number[], expected: number, k: number) {
+  if (expected === 0) return 0;
+  return hits.slice(0, k).filter((hit) => hit >= 0).length / expected;
+}
+
+export function reciprocalRank(hits: number[]) {
+  const rank = hits.findIndex((hit) => hit >= 0);
+  return rank >= 0 ? 1 / (rank + 1) : 0;
+}
+
+/**
+ * 二元相關度的 nDCG@k
+ */
+export function ndcgAtK(hits: number[], expected: number, k: number) {
+  const dcg = hits
+    .slice(0, k)
+    .reduce((sum, hit, i) => sum + (hit >= 0 ? 1 / Math.log2(i + 2) : 0), 0);
+  let ideal = 0;
+  for (let i = 0; i < Math.min(expected, k); i++) {
+    ideal += 1 / Math.log2(i + 2);
+  }
+  return ideal > 0 ? dcg / ideal : 0;
+}
+
+function mean(values: number[]) {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+function perK(ks: number[], fn: (k: number) => number) {
+  return Object.fromEntries(ks.map((k) => [k, fn(k)])) as Record<
+    number,
+    number
+  >;
+}
+
+async function evaluateCase(
+  golden: GoldenCase,
+  index: number,
+  config: EvalConfig,
+  ks: number[]
+): Promise<CaseResult> {
+  const targets = toTargets(golden);
+  const startedAt = Date.now();
+  const id = golden.id ?? `#${index + 1}`;
+
+  const options: SearchOptions = {
+    query: golden.question,
+    match_count: Math.max(...ks),
+    match_threshold: config.match_threshold,
+    mode: config.mode,
+    rerank: config.rerank,
+    rerank_top_n: config.rerank_top_n,
+    feedback_boost: config.feedback_boost,
+    glossary: config.glossary,
+    doc_type: golden.doc_type
+  };
+
+  try {
+    const { data } = await searchRegulations(options);
+    const hits = matchHits(data, targets);
+
+    return {
+      id,
+      question: golden.question,
+      retrieved_ids: data.map((chunk) => String(chunk.id)),
+      hits,
+      expected_count: targets.length,
+      recall: perK(ks, (k) => recallAtK(hits, targets.length, k)),
+      reciprocal_rank: reciprocalRank(hits),
+      ndcg: perK(ks, (k) => ndcgAtK(hits, targets.length, k)),
+      latency_ms: Date.now() - startedAt,
+      error: null
+    };
+  } catch (err) {
+    // 單題失敗以 0 分計，不中斷整體評估
+    return {
+      id,
+      question: golden.question,
+      retrieved_ids: [],
+      hits: [],
+      expected_count: targets.length,
+      recall: perK(ks, () => 0),
+      reciprocal_rank: 0,
+      ndcg: perK(ks, () => 0),
+      latency_ms: Date.now() - startedAt,
+      error: err instanceof Error ? err.message : '未知錯誤'
+    };
+  }
+}
+
+/**
+ * 依序評估所有題目（逐題執行，避免同時壓垮本地模型）
+ */
+export async function runEvaluation(
+  golden: GoldenSet,
+  config: EvalConfig,
+  options: {
+    ks?: number[];
+    onProgress?: (done: number, total: number, result: CaseResult) => void;
+  } = {}
+): Promise<EvalReport> {
+  const ks = options.ks ?? DEFAULT_KS;
+  const { provider, model } = getEmbeddingConfig();
+  const cases: CaseResult[] = [];
+
+  for (let i = 0; i < golden.cases.length; i++) {
+    const result = await evaluateCase(golden.cases[i], i, config, ks);
+    cases.push(result);
+    options.onProgress?.(i + 1, golden.cases.length, result);
+  }
+
+  return {
+    name: config.name,
+    golden: golden.name,
+    config,
+    ks,
+    created_at: new Date().toISOString(),
+    embedding: { provider, model },
+    summary: {
+      cases: cases.length,
+      errors: cases.filter((c) => c.error).length,
+      recall: perK(ks, (k) => mean(cases.map((c) => c.recall[k]))),
+      mrr: mean(cases.map((c) => c.reciprocal_rank)),
+      ndcg: perK(ks, (k) => mean(cases.map((c) => c.ndcg[k]))),
+      avg_latency_ms: mean(cases.map((c) => c.latency_ms))
+    },
+    cases
+  };
+}
+
+function pad(value: string, width: number) {
+  return value + ' '.repeat(Math.max(0, width - value.length));
+}
+
+function formatMetric(value: number | undefined) {
+  return value === undefined ? '-' : value.toFixed(3);
+}
+
+function formatDelta(value: number | undefined, base: number | undefined) {
+  if (value === undefined || base === undefined) return '';
+  const delta = value - base;
+  if (Math.abs(delta) < 0.0005) return ' (=)';
+  return ` (${delta > 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+type Metric = [label: string, get: (report: EvalReport) => number | undefined];
+
+/**
+ * 並排比較多份報告，第一份為基準並標示其餘各項的差異
+ */
+export function formatComparison(reports: EvalReport[]): string {
+  const ks = Array.from(new Set(reports.flatMap((r) => r.ks))).sort(
+    (a, b) => a - b
+  );
+  const rows: Metric[] = [
+    ...ks.map((k): Metric => [`recall@${k}`, (r) => r.summary.recall[k]]),
+    ['MRR', (r) => r.summary.mrr],
+    ...ks.map((k): Metric => [`nDCG@${k}`, (r) => r.summary.ndcg[k]])
+  ];
+
+  const [base] = reports;
+  const header = ['metric', ...reports.map((r) => r.name)];
+  const body = rows.map(([label, get]) => [
+    label,
+    ...reports.map(
+      (r, i) =>
+        formatMetric(get(r)) + (i > 0 ? formatDelta(get(r), get(base)) : '')
+    )
+  ]);
+  const footer = [
+    ['cases', ...reports.map((r) => String(r.summary.cases))],
+    ['errors', ...reports.map((r) => String(r.summary.errors))],
+    [
+      'latency',
+      ...reports.map((r) => `${Math.round(r.summary.avg_latency_ms)} ms`)
+    ],
+    [
+      'embedding',
+      ...reports.map((r) => `${r.embedding.provider}/${r.embedding.model}`)
+    ]
+  ];
+
+  const table = [header, ...body, ...footer];
+  const widths = header.map((_, col) =>
+    Math.max(...table.map((row) => row[col].length))
+  );
+  return table
+    .map((row) => row.map((cell, col) => pad(cell, widths[col])).join('  '))
+    .join('\n');
+}
+
+/**
+ * 列出沒有在前 k 名找到任何標準答案的題目，方便逐題檢查
+ */
+export function formatMisses(report: EvalReport, k: number): string {
+  const misses = report.cases.filter(
+    (c) => c.error || c.hits.slice(0, k).every((hit) => hit < 0)
+  );
+  if (misses.length === 0) return `[${report.name}] 所有題目皆在前 ${k} 名命中`;
+
+  return [
+    `[${report.name}] 前 ${k} 名未命中 ${misses.length} 題：`,
+    ...misses.map(
+      (c) => `  ${c.id} ${c.question}${c.error ? `（錯誤：${c.error}）` : ''}`
+    )
+  ].join('\n');
+}
@@ -0,0 +1,106 @@
+/**
+ * 文件文字擷取 - 將上傳的法規檔案轉為純文字
+ *
+ * 支援格式：PDF、DOCX、Markdown、純文字
+ * 僅供伺服器端（API Route）使用
+ */
+
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+
+export type SourceFormat = 'pdf' | 'docx' | 'markdown' | 'text';
+
+export interface ExtractedDocument {
+  text: string;
+  format: SourceFormat;
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(filename: string) {
+    super(`不支援的檔案格式: ${filename}`);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+/**
+ * 依副檔名（其次 MIME type）判斷檔案格式
+ */
+export function detectFormat(filename: string, mimeType = ''): SourceFormat {
+  const ext = filename.toLowerCase().split('.').pop() || '';
+
+  if (ext === 'pdf' || mimeType === 'application/pdf') return 'pdf';
+  if (ext === 'docx' || mimeType.includes('wordprocessingml')) return 'docx';
+  if (ext === 'md' || ext === 'markdown' || mimeType === 'text/markdown') {
+    return 'markdown';
+  }
+  if (ext === 'txt' || mimeType.startsWith('text/')) return 'text';
+
+  throw new UnsupportedFormatError(filename);
+}
+
+/**
+ * 統一換行並清除多餘空白，避免切塊時產生空段落
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 移除 Markdown 標記，保留標題文字與段落結構
+ */
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractDocx(buffer: Buffer): Promise<string> {
+  const result = await mammoth.extractRawText({ buffer });
+  return result.value;
+}
+
+/**
+ * 擷取檔案文字內容
+ */
+export async function extractText(
+  filename: string,
+  mimeType: string,
+  buffer: Buffer
+): Promise<ExtractedDocument> {
+  const format = detectFormat(filename, mimeType);
+
+  let text: string;
+  switch (format) {
+    case 'pdf':
+      text = await extractPdf(buffer);
+      break;
+    case 'docx':
+      text = await extractDocx(buffer);
+      break;
+    case 'markdown':
+      text = stripMarkdown(buffer.toString('utf-8'));
+      break;
+    default:
+      text = buffer.toString('utf-8');
+  }
+
+  return { text: normalizeText(text), format };
+}
@@ -0,0 +1,168 @@
+/**
+ * 相關性回饋 - 記錄使用者對搜尋結果與回答的評價，提供審核佇列與排序加權
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { getChunksByIds } from './chunks';
+import { DatabaseError } from './errors';
+import type { FeedbackListResponse, FeedbackResponse } from './schemas';
+
+type Feedback = FeedbackResponse['data'];
+
+const FEEDBACK_COLUMNS =
+  'id, query, regulation_id, target, rating, comment, user_name, resolved_at, resolved_by, created_at';
+
+// 計算淨評價時加入的虛擬票數，避免一兩票就大幅改變排序
+const FEEDBACK_PRIOR = 3;
+// 未設定 RAG_FEEDBACK_WEIGHT 時的加權幅度（分數最多增減 20%）
+const DEFAULT_FEEDBACK_WEIGHT = 0.2;
+
+export interface CreateFeedbackInput {
+  query: string;
+  regulation_id?: string | null;
+  target: Feedback['target'];
+  rating: Feedback['rating'];
+  comment?: string;
+  user_name: string | null;
+}
+
+export interface FeedbackListOptions {
+  status?: 'open' | 'resolved';
+  page?: number;
+  pageSize?: number;
+}
+
+export class FeedbackNotFoundError extends Error {
+  constructor(id: number) {
+    super(`找不到回饋紀錄: ${id}`);
+    this.name = 'FeedbackNotFoundError';
+  }
+}
+
+export function getFeedbackWeight(): number {
+  const weight = Number(process.env.RAG_FEEDBACK_WEIGHT);
+  return Number.isFinite(weight) && weight >= 0
+    ? weight
+    : DEFAULT_FEEDBACK_WEIGHT;
+}
+
+export async function createFeedback(
+  input: CreateFeedbackInput
+): Promise<Feedback> {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase
+    .from('search_feedback')
+    .insert({
+      query: input.query,
+      regulation_id: input.regulation_id ?? null,
+      target: input.target,
+      rating: input.rating,
+      comment: input.comment || null,
+      user_name: input.user_name
+    })
+    .select(FEEDBACK_COLUMNS)
+    .single();
+
+  if (error) throw new DatabaseError(`寫入回饋失敗: ${error.message}`);
+  return data;
+}
+
+/**
+ * 負面回饋（倒讚與引用錯誤）的審核佇列，附上目前的 chunk 內容
+ */
+export async function listNegativeFeedback({
+  status = 'open',
+  page = 1,
+  pageSize = 20
+}: FeedbackListOptions = {}): Promise<
+  Pick<FeedbackListResponse, 'data' | 'total'>
+> {
+  const supabase = await getSupabase();
+  const from = (page - 1) * pageSize;
+
+  let query = supabase
+    .from('search_feedback')
+    .select(FEEDBACK_COLUMNS, { count: 'exact' })
+    .neq('rating', 'up')
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  query =
+    status === 'open'
+      ? query.is('resolved_at', null)
+      : query.not('resolved_at', 'is', null);
+
+  const { data, error, count } = await query;
+
+  if (error) throw new DatabaseError(`讀取回饋失敗: ${error.message}`);
+
+  const rows: Feedback[] = data || [];
+  const ids = Array.from(
+    new Set(
+      rows.flatMap((row) => (row.regulation_id ? [row.regulation_id] : []))
+    )
+  );
+  const chunks = new Map(
+    (await getChunksByIds(ids)).map((chunk) => [String(chunk.id), chunk])
+  );
+
+  return {
+    data: rows.map((row) => ({
+      ...row,
+      chunk: (row.regulation_id && chunks.get(row.regulation_id)) || null
+    })),
+    total: count ?? 0
+  };
+}
+
+/**
+ * 標記回饋已處理；已處理的負面回饋不再降低該 chunk 的排序
+ */
+export async function resolveFeedback(
+  id: number,
+  resolvedBy: string | null
+): Promise<Feedback> {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase
+    .from('search_feedback')
+    .update({ resolved_at: new Date().toISOString(), resolved_by: resolvedBy })
+    .eq('id', id)
+    .select(FEEDBACK_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`更新回饋失敗: ${error.message}`);
+  if (!data) throw new FeedbackNotFoundError(id);
+  return data;
+}
+
+/**
+ * 各 chunk 的淨評價，介於 -1 與 1 之間；沒有回饋的 chunk 不在結果中
+ */
+export async function getFeedbackScores(
+  ids: string[]
+): Promise<Map<string, number>> {
+  const supabase = await getSupabase();
+  if (ids.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc('regulation_feedback_scores', {
+    p_ids: ids
+  });
+
+  if (error) throw new DatabaseError(`讀取回饋統計失敗: ${error.message}`);
+
+  return new Map(
+    (data || []).map(
+      (row: {
+        regulation_id: string;
+        up_count: number;
+        down_count: number;
+      }) => {
+        const up = Number(row.up_count);
+        const down = Number(row.down_count);
+        return [row.regulation_id, (up - down) / (up + down + FEEDBACK_PRIOR)];
+      }
+    )
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * 回答生成 - 以檢索到的法規片段為依據，透過 Ollama 本地模型生成回答
+ *
+ * 模型以 [1]、[2] 標註引用，再對應回 chunk 的 id、來源與條號
+ * 僅供伺服器端（API Route）使用
+ */
+
+import type { RetrievedChunk } from './retrieval';
+
+const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
+export const CHAT_MODEL = process.env.CHAT_MODEL || 'qwen2.5:7b';
+
+export type ContextChunk = Pick<
+  RetrievedChunk,
+  'id' | 'content' | 'source' | 'article_no' | 'chunk_idx'
+>;
+
+export interface Citation {
+  /** 回答中的引用編號，對應 [n] */
+  marker: number;
+  id: string;
+  source: string;
+  article_no?: string | null;
+  chunk_idx?: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Ollama 無法連線或生成失敗
+ */
+export class GenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+const SYSTEM_PROMPT = `你是台灣電氣法規助理，只能根據提供的參考資料回答問題。
+規則：
+1. 每個論點後以 [編號] 標註引用的參考資料，例如「……應使用 2.0mm² 以上導線 [1]。」
+2. 參考資料沒有提到的內容，直接說明「參考資料中未找到相關規定」，不要自行推測。
+3. 使用繁體中文，回答簡潔，條號與數值照原文引用。`;
+
+/**
+ * 將 chunks 編號組成參考資料區塊
+ */
+export function buildContext(chunks: ContextChunk[]): string {
+  return chunks
+    .map((chunk, i) => {
+      const label = [chunk.source, chunk.article_no].filter(Boolean).join(' ');
+      return `[${i + 1}] 來源：${label}\n${chunk.content}`;
+    })
+    .join('\n\n');
+}
+
+// 生成回答時帶入的歷史訊息數上限
+const MAX_HISTORY_MESSAGES = 6;
+
+/**
+ * 組成送給聊天模型的訊息；多輪對話時在參考資料前帶入近期歷史
+ */
+export function buildMessages(
+  query: string,
+  chunks: ContextChunk[],
+  history: ChatMessage[] = []
+): ChatMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    ...history.filter((m) => m.role !== 'system').slice(-MAX_HISTORY_MESSAGES),
+    {
+      role: 'user',
+      content: `參考資料：\n\n${buildContext(chunks)}\n\n問題：${query}`
+    }
+  ];
+}
+
+/**
+ * 從回答中找出 [n] 標記並對應回 chunk，忽略超出範圍的編號
+ */
+export function extractCitations(
+  answer: string,
+  chunks: ContextChunk[]
+): Citation[] {
+  const markers = new Set<number>();
+  answer.replace(/\[(\d+)\]/g, (match, value: string) => {
+    const marker = Number(value);
+    if (marker >= 1 && marker <= chunks.length) markers.add(marker);
+    return match;
+  });
+
+  return Array.from(markers)
+    .sort((a, b) => a - b)
+    .map((marker) => {
+      const chunk = chunks[marker - 1];
+      return {
+        marker,
+        id: chunk.id,
+        source: chunk.source,
+        article_no: chunk.article_no,
+        chunk_idx: chunk.chunk_idx
+      };
+    });
+}
+
+/**
+ * POST Ollama /api/chat；連線失敗轉為 GenerationError（使用者中止時原樣拋出）
+ */
+async function postChat(
+  body: { model: string; messages: ChatMessage[]; stream: boolean },
+  signal?: AbortSignal
+): Promise<Response> {
+  try {
+    return await fetch(`${OLLAMA_URL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...body,
+        keep_alive: '5m',
+        options: { temperature: 0.1 }
+      }),
+      signal
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new GenerationError(`無法連線 Ollama: ${message}`);
+  }
+}
+
+/**
+ * 呼叫 Ollama /api/chat 生成回答
+ */
+export async function generateAnswer(
+  query: string,
+  chunks: ContextChunk[],
+  history: ChatMessage[] = [],
+  model = CHAT_MODEL
+): Promise<{ answer: string; citations: Citation[] }> {
+  const response = await postChat({
+    model,
+    messages: buildMessages(query, chunks, history),
+    stream: false
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new GenerationError(`Ollama 生成失敗: ${errorText}`);
+  }
+
+  const result = await response.json();
+  const answer: string = result.message?.content?.trim() || '';
+
+  return { answer, citations: extractCitations(answer, chunks) };
+}
+
+/**
+ * 呼叫 Ollama /api/chat（stream）逐段產生回答文字
+ *
+ * signal 中止時會一併中止上游 Ollama 請求
+ */
+export async function* streamAnswer(
+  query: string,
+  chunks: ContextChunk[],
+  history: ChatMessage[] = [],
+  signal?: AbortSignal,
+  model = CHAT_MODEL
+): AsyncGenerator<string> {
+  const response = await postChat(
+    {
+      model,
+      messages: buildMessages(query, chunks, history),
+      stream: true
+    },
+    signal
+  );
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    throw new GenerationError(`Ollama 生成失敗: ${errorText}`);
+  }
+
+  // Ollama 串流為 NDJSON，每行一個 JSON 物件
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const part = JSON.parse(line);
+        if (part.error)
+          throw new GenerationError(`Ollama 生成失敗: ${part.error}`);
+        if (part.message?.content) yield part.message.content;
+        if (part.done) return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { expandQuery } from './glossary';
+
+const terms = [
+  { preferred: '安培容量', synonyms: ['載流量', '容許電流'] },
+  { preferred: 'mm²', synonyms: ['mm2', '平方毫米'] },
+  { preferred: '平方公尺', synonyms: ['平米', '平方米'] },
+  { preferred: 'PVC管', synonyms: ['塑膠管'] }
+];
+
+describe('expandQuery', () => {
+  it('同義詞改寫為標準用語，並列出同組其他說法', () => {
+    expect(expandQuery('22mm2電線的載流量', terms)).toEqual({
+      original_query: '22mm2電線的載流量',
+      normalized_query: '22mm²電線的安培容量',
+      applied: [
+        {
+          matched: 'mm2',
+          preferred: 'mm²',
+          expanded_terms: ['mm2', '平方毫米']
+        },
+        {
+          matched: '載流量',
+          preferred: '安培容量',
+          expanded_terms: ['載流量', '容許電流']
+        }
+      ],
+      keyword_terms: ['mm2', '平方毫米', '載流量', '容許電流']
+    });
+  });
+
+  it('較長的說法優先比對', () => {
+    expect(expandQuery('2平方毫米', terms).normalized_query).toBe('2mm²');
+    expect(expandQuery('5平方米', terms).normalized_query).toBe('5平方公尺');
+    expect(expandQuery('10平方公尺', terms).normalized_query).toBe(
+      '10平方公尺'
+    );
+  });
+
+  it('單獨的「平方」不改寫，其他面積單位保持原樣', () => {
+    expect(expandQuery('22平方公里', terms).normalized_query).toBe(
+      '22平方公里'
+    );
+    expect(expandQuery('30平方公分', terms).normalized_query).toBe(
+      '30平方公分'
+    );
+    expect(expandQuery('22平方電線', terms).normalized_query).toBe(
+      '22平方電線'
+    );
+  });
+
+  it('英文不分大小寫', () => {
+    const result = expandQuery('pvc管配線', terms);
+    expect(result.normalized_query).toBe('PVC管配線');
+    expect(result.applied[0].matched).toBe('PVC管');
+  });
+
+  it('標準用語本身不改寫但同樣擴充關鍵字', () => {
+    const result = expandQuery('安培容量', terms);
+    expect(result.normalized_query).toBe('安培容量');
+    expect(result.keyword_terms).toEqual(['載流量', '容許電流']);
+  });
+
+  it('同一說法出現多次只列一次', () => {
+    const result = expandQuery('載流量與載流量', terms);
+    expect(result.normalized_query).toBe('安培容量與安培容量');
+    expect(result.applied).toHaveLength(1);
+  });
+
+  it('沒有命中時不改寫', () => {
+    expect(expandQuery('接地線', terms)).toEqual({
+      original_query: '接地線',
+      normalized_query: '接地線',
+      applied: [],
+      keyword_terms: []
+    });
+  });
+});
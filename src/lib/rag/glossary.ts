@@ -0,0 +1,241 @@
+/**
+ * 專業詞彙表 - 維護同義詞與標準用語，搜尋前改寫與擴充查詢
+ *
+ * 例如「載流量」「容許電流」改寫為法規用語「安培容量」，「mm2」「平方毫米」改寫為「mm²」；
+ * 向量與關鍵字檢索都使用改寫後的查詢，關鍵字檢索另外加入同組的其他說法
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { DatabaseError } from './errors';
+import type { GlossaryTermResponse, QueryExpansion } from './schemas';
+
+type GlossaryTerm = GlossaryTermResponse['data'];
+
+const GLOSSARY_COLUMNS =
+  'id, preferred, synonyms, description, updated_by, created_at, updated_at';
+
+// 詞彙表快取時間，避免每次搜尋都查詢
+const GLOSSARY_TTL_MS = 60 * 1000;
+
+let cache: { terms: GlossaryTerm[]; expiresAt: number } | null = null;
+
+export interface GlossaryTermInput {
+  preferred: string;
+  synonyms: string[];
+  description?: string | null;
+  updated_by: string | null;
+}
+
+export class GlossaryTermNotFoundError extends Error {
+  constructor(id: number) {
+    super(`找不到詞彙: ${id}`);
+    this.name = 'GlossaryTermNotFoundError';
+  }
+}
+
+export class GlossaryConflictError extends Error {
+  constructor(term: string, preferred: string) {
+    super(`「${term}」已在詞彙「${preferred}」中使用`);
+    this.name = 'GlossaryConflictError';
+  }
+}
+
+/**
+ * 依標準用語排序列出所有詞彙
+ */
+export async function listGlossaryTerms(
+  options: { fresh?: boolean } = {}
+): Promise<GlossaryTerm[]> {
+  if (!options.fresh && cache && cache.expiresAt > Date.now()) {
+    return cache.terms;
+  }
+
+  const supabase = await getSupabase();
+
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .select(GLOSSARY_COLUMNS)
+    .order('preferred', { ascending: true });
+
+  if (error) throw new DatabaseError(`讀取詞彙表失敗: ${error.message}`);
+
+  const terms: GlossaryTerm[] = data || [];
+  cache = { terms, expiresAt: Date.now() + GLOSSARY_TTL_MS };
+  return terms;
+}
+
+function normalizeInput(input: GlossaryTermInput) {
+  const preferred = input.preferred.trim();
+  const synonyms = Array.from(
+    new Set(input.synonyms.map((s) => s.trim()).filter(Boolean))
+  ).filter((s) => s.toLowerCase() !== preferred.toLowerCase());
+
+  return { ...input, preferred, synonyms };
+}
+
+/**
+ * 同一個說法只能屬於一組詞彙，否則改寫結果不確定
+ */
+async function assertNoConflict(
+  input: ReturnType<typeof normalizeInput>,
+  excludeId?: number
+) {
+  const terms = await listGlossaryTerms({ fresh: true });
+  const used = new Map<string, string>();
+  for (const term of terms) {
+    if (term.id === excludeId) continue;
+    for (const form of [term.preferred, ...term.synonyms]) {
+      used.set(form.toLowerCase(), term.preferred);
+    }
+  }
+
+  for (const form of [input.preferred, ...input.synonyms]) {
+    const owner = used.get(form.toLowerCase());
+    if (owner) throw new GlossaryConflictError(form, owner);
+  }
+}
+
+export async function createGlossaryTerm(
+  input: GlossaryTermInput
+): Promise<GlossaryTerm> {
+  const supabase = await getSupabase();
+  const term = normalizeInput(input);
+  await assertNoConflict(term);
+
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .insert({
+      preferred: term.preferred,
+      synonyms: term.synonyms,
+      description: term.description || null,
+      updated_by: term.updated_by
+    })
+    .select(GLOSSARY_COLUMNS)
+    .single();
+
+  if (error) throw new DatabaseError(`新增詞彙失敗: ${error.message}`);
+
+  invalidateGlossary();
+  return data;
+}
+
+export async function updateGlossaryTerm(
+  id: number,
+  input: GlossaryTermInput
+): Promise<GlossaryTerm> {
+  const supabase = await getSupabase();
+  const term = normalizeInput(input);
+  await assertNoConflict(term, id);
+
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .update({
+      preferred: term.preferred,
+      synonyms: term.synonyms,
+      description: term.description || null,
+      updated_by: term.updated_by,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .select(GLOSSARY_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`更新詞彙失敗: ${error.message}`);
+  if (!data) throw new GlossaryTermNotFoundError(id);
+
+  invalidateGlossary();
+  return data;
+}
+
+export async function deleteGlossaryTerm(id: number) {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase
+    .from('glossary_terms')
+    .delete()
+    .eq('id', id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`刪除詞彙失敗: ${error.message}`);
+  if (!data) throw new GlossaryTermNotFoundError(id);
+
+  invalidateGlossary();
+  return { id };
+}
+
+/**
+ * 詞彙變動後清除快取
+ */
+export function invalidateGlossary() {
+  cache = null;
+}
+
+/**
+ * 以詞彙表改寫查詢：由左至右比對，較長的說法優先（避免較短的說法搶先比對到較長說法的開頭）
+ *
+ * 英文不分大小寫；標準用語本身出現時不改寫，但同樣擴充關鍵字
+ */
+export function expandQuery(
+  query: string,
+  terms: Pick<GlossaryTerm, 'preferred' | 'synonyms'>[]
+): QueryExpansion {
+  const forms = terms
+    .flatMap((term) =>
+      [term.preferred, ...term.synonyms].map((form) => ({ form, term }))
+    )
+    .filter(({ form }) => form.length > 0)
+    .sort((a, b) => b.form.length - a.form.length);
+
+  const lower = query.toLowerCase();
+  const applied: QueryExpansion['applied'] = [];
+  const seen = new Set<string>();
+  let normalized = '';
+  let i = 0;
+
+  while (i < query.length) {
+    const hit = forms.find(({ form }) =>
+      lower.startsWith(form.toLowerCase(), i)
+    );
+    if (!hit) {
+      normalized += query[i];
+      i += 1;
+      continue;
+    }
+
+    const { form, term } = hit;
+    normalized += term.preferred;
+    i += form.length;
+
+    const key = `${form}\u0000${term.preferred}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    applied.push({
+      matched: form,
+      preferred: term.preferred,
+      expanded_terms: [term.preferred, ...term.synonyms].filter(
+        (f) => f !== term.preferred
+      )
+    });
+  }
+
+  return {
+    original_query: query,
+    normalized_query: normalized,
+    applied,
+    keyword_terms: Array.from(new Set(applied.flatMap((a) => a.expanded_terms)))
+  };
+}
+
+/**
+ * 以目前的詞彙表改寫查詢；詞彙表讀取失敗時不改寫
+ */
+export async function expandWithGlossary(query: string) {
+  try {
+    return expandQuery(query, await listGlossaryTerms());
+  } catch (err) {
+    console.error('詞彙表讀取錯誤:', err);
+    return expandQuery(query, []);
+  }
+}
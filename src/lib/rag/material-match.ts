@@ -0,0 +1,91 @@
+/**
+ * 依查詢規格比對材料 - 電壓對應 materials.voltage，導體材質與截面積比對名稱與規格
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { DatabaseError } from './errors';
+import { parseQuantities, quantityKey } from './query-parser';
+import type { MatchedMaterial, QueryQuantity } from './schemas';
+
+const MATERIAL_COLUMNS = 'id, name, unit, price, category, spec, voltage';
+
+// 以資料庫條件篩出的候選上限，截面積再於候選中比對
+const CANDIDATE_LIMIT = 200;
+
+// 中文字以子字串比對；元素符號需前後不接英文字母，避免 Al 比對到 Cable、Metal、Terminal
+const CONDUCTOR_KEYWORDS = {
+  copper: { text: '銅', symbol: 'cu' },
+  aluminum: { text: '鋁', symbol: 'al' }
+} as const;
+
+/**
+ * 名稱或規格提及該導體材質的 PostgREST or 條件
+ */
+function conductorFilter(conductor: keyof typeof CONDUCTOR_KEYWORDS) {
+  const { text, symbol } = CONDUCTOR_KEYWORDS[conductor];
+  // 正規表示式含括號，需以雙引號包住
+  const token = `"(^|[^a-z])${symbol}([^a-z]|$)"`;
+  return ['name', 'spec']
+    .flatMap((column) => [
+      `${column}.ilike.%${text}%`,
+      `${column}.imatch.${token}`
+    ])
+    .join(',');
+}
+
+/**
+ * 回傳符合所有電壓、導體與截面積條件的材料；查詢沒有這些規格時回傳空陣列
+ */
+export async function findMaterialsByQuantities(
+  quantities: QueryQuantity[],
+  limit = 5
+): Promise<MatchedMaterial[]> {
+  const supabase = await getSupabase();
+  const voltages: number[] = [];
+  const conductors: (keyof typeof CONDUCTOR_KEYWORDS)[] = [];
+  const crossSections: QueryQuantity[] = [];
+
+  for (const quantity of quantities) {
+    if (quantity.kind === 'voltage') voltages.push(quantity.value);
+    if (quantity.kind === 'conductor') conductors.push(quantity.value);
+    if (quantity.kind === 'cross_section') crossSections.push(quantity);
+  }
+
+  if (voltages.length + conductors.length + crossSections.length === 0) {
+    return [];
+  }
+
+  let request = supabase
+    .from('materials')
+    .select(MATERIAL_COLUMNS)
+    .order('name', { ascending: true })
+    .limit(CANDIDATE_LIMIT);
+
+  if (voltages.length > 0) request = request.in('voltage', voltages);
+
+  for (const conductor of conductors) {
+    request = request.or(conductorFilter(conductor));
+  }
+
+  const { data, error } = await request;
+  if (error) throw new DatabaseError(`讀取材料失敗: ${error.message}`);
+
+  const wanted = crossSections.map(quantityKey);
+  const matched = (data || []).filter((material) => {
+    if (wanted.length === 0) return true;
+    const keys = new Set(
+      parseQuantities(`${material.name} ${material.spec ?? ''}`).map(
+        quantityKey
+      )
+    );
+    return wanted.every((key) => keys.has(key));
+  });
+
+  return matched.slice(0, limit).map((material) => ({
+    ...material,
+    id: String(material.id),
+    price: Number(material.price)
+  }));
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeText, toTraditional } from './normalize';
+
+describe('normalizeText', () => {
+  it('移除零寬字元並合併空白', () => {
+    expect(normalizeText('  接地​  線　規定 ')).toEqual({
+      text: '接地 線 規定',
+      rules: ['whitespace']
+    });
+  });
+
+  it('multiline 保留換行', () => {
+    expect(normalizeText('第一條\n\n  內容', { multiline: true }).text).toBe(
+      '第一條\n\n內容'
+    );
+  });
+
+  it('全形英數轉半形', () => {
+    const result = normalizeText('ＰＶＣ管１６ｍｍ');
+    expect(result.text).toBe('PVC管16mm');
+    expect(result.rules).toContain('width');
+  });
+
+  it('緊鄰中文的半形標點轉為全形', () => {
+    const result = normalizeText('第12條(配線)');
+    expect(result.text).toBe('第12條（配線）');
+    expect(result.rules).toContain('punctuation');
+  });
+
+  it('統一單位寫法', () => {
+    expect(normalizeText('2㎟').text).toBe('2mm²');
+    expect(normalizeText('5.5mm2 電線').text).toBe('5.5mm² 電線');
+    expect(normalizeText('2mm^2').text).toBe('2mm²');
+    expect(normalizeText('600 V').text).toBe('600V');
+  });
+
+  it('只回報實際改變文字的規則', () => {
+    expect(normalizeText('電線安培容量')).toEqual({
+      text: '電線安培容量',
+      rules: []
+    });
+  });
+});
+
+describe('toTraditional', () => {
+  it('逐字轉換簡體字', () => {
+    expect(toTraditional('电线电缆')).toBe('電線電纜');
+  });
+
+  it('一簡對多繁的字只在詞組中轉換', () => {
+    expect(toTraditional('以后')).toBe('以後');
+    expect(toTraditional('干线')).toBe('幹線');
+    expect(toTraditional('干燥')).toBe('乾燥');
+    expect(toTraditional('皇后')).toBe('皇后');
+  });
+
+  it('不改動原本就是繁體的內容', () => {
+    const text = '用戶用電設備裝置規則第十二條';
+    expect(toTraditional(text)).toBe(text);
+  });
+});
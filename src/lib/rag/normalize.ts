@@ -0,0 +1,360 @@
+/**
+ * 中文文字正規化 - 匯入、更新與搜尋使用同一套規則，讓查詢與法規內容寫法一致
+ *
+ * 規則依序套用：
+ * - whitespace：移除零寬字元、全形空白改為半形、合併連續空白
+ * - width：全形英數與符號轉半形（中文標點保留全形）
+ * - punctuation：緊鄰中文的半形標點轉為全形，例如「第12條(配線)」→「第12條（配線）」
+ * - unit：單位符號統一，例如 ㎟ → mm²、2mm2 → 2mm²、Ω（U+2126）→ Ω
+ * - traditional：簡體字轉為法規使用的繁體字
+ *
+ * 簡繁轉換只收錄在繁體文件中不會出現的簡體字；一簡對多繁或繁體中也會使用的字
+ * （例如「后」「干」「准」）只在詞組中轉換，避免改壞原本就是繁體的法規內容
+ */
+
+import type { NormalizationRule } from './schemas';
+
+export interface NormalizeOptions {
+  /** 保留換行（文件內容）；查詢則把所有空白合併為一個空格 */
+  multiline?: boolean;
+}
+
+export interface NormalizedText {
+  text: string;
+  /** 實際改變了文字的規則 */
+  rules: NormalizationRule[];
+}
+
+// 一對一的簡繁字對，每組前一字為簡體
+const CHAR_PAIRS =
+  '电電 线線 缆纜 压壓 导導 体體 绝絕 缘緣 护護 装裝 设設 备備 规規 则則 条條 ' +
+  '节節 术術 标標 应應 须須 该該 时時 间間 开開 关關 断斷 变變 频頻 载載 负負 ' +
+  '过過 热熱 温溫 湿濕 气氣 灯燈 场場 库庫 厂廠 储儲 输輸 盘盤 柜櫃 铜銅 铝鋁 ' +
+  '铁鐵 钢鋼 锌鋅 镀鍍 锡錫 铅鉛 银銀 属屬 质質 数數 额額 级級 类類 号號 码碼 ' +
+  '单單 总總 计計 测測 试試 验驗 检檢 证證 书書 图圖 纸紙 样樣 说說 门門 户戶 ' +
+  '楼樓 层層 墙牆 顶頂 础礎 桩樁 钻鑽 们們 这這 个個 与與 从從 对對 将將 并並 ' +
+  '会會 来來 还還 进進 运運 动動 机機 构構 处處 办辦 务務 员員 师師 业業 产產 ' +
+  '国國 际際 内內 围圍 环環 积積 长長 宽寬 径徑 圆圓 轴軸 项項 种種 无無 没沒 ' +
+  '给給 让讓 认認 识識 记記 录錄 读讀 写寫 请請 问問 题題 论論 议議 许許 诉訴 ' +
+  '词詞 语語 译譯 话話 调調 谈談 课課 谁誰 诸諸 访訪 确確 实實 现現 发發 闭閉 ' +
+  '闸閘 阀閥 阁閣 阅閱 闪閃 车車 轨軌 软軟 轻輕 较較 辆輛 转轉 连連 马馬 驱驅 ' +
+  '费費 贵貴 资資 购購 货貨 账帳 纤纖 维維 织織 组組 细細 终終 经經 结結 统統 ' +
+  '络絡 绞絞 绕繞 缩縮 编編 网網 纳納 红紅 绿綠 黄黃 蓝藍 铠鎧 锁鎖 链鏈 镜鏡 ' +
+  '钮鈕 针針 铭銘 钉釘 锅鍋 销銷 错錯 锈鏽 见見 观觀 视視 觉覺 览覽 页頁 顺順 ' +
+  '预預 领領 广廣 东東 严嚴 丰豐 临臨 举舉 义義 乐樂 习習 乡鄉 买買 乱亂 争爭 ' +
+  '亏虧 亚亞 亲親 仅僅 仓倉 价價 众眾 优優 伤傷 传傳 伦倫 伪偽 侧側 债債 倾傾 ' +
+  '偿償 儿兒 兑兌 兴興 养養 册冊 军軍 农農 决決 况況 冻凍 净淨 凉涼 减減 凑湊 ' +
+  '凭憑 击擊 刚剛 创創 删刪 别別 剂劑 剧劇 劝勸 劳勞 势勢 区區 医醫 华華 协協 ' +
+  '卖賣 卫衛 却卻 厅廳 历歷 厕廁 县縣 参參 双雙 叙敘 叠疊 吗嗎 启啟 响響 哑啞 ' +
+  '园園 坏壞 块塊 坚堅 坝壩 垫墊 报報 声聲 复複 头頭 夹夾 夺奪 奖獎 学學 宝寶 ' +
+  '审審 寻尋 尔爾 尘塵 尽盡 岁歲 岛島 币幣 带帶 帮幫 庄莊 废廢 异異 弃棄 张張 ' +
+  '弯彎 弹彈 强強 归歸 当當 彻徹 态態 怀懷 恶惡 悬懸 惊驚 惯慣 战戰 执執 扩擴 ' +
+  '扫掃 扬揚 扰擾 抛拋 抢搶 担擔 拟擬 拥擁 择擇 挂掛 挡擋 挤擠 挥揮 损損 换換 ' +
+  '携攜 摄攝 摆擺 摇搖 撑撐 敌敵 旧舊 显顯 晒曬 暂暫 杀殺 杂雜 权權 极極 栏欄 ' +
+  '树樹 桥橋 横橫 欢歡 欧歐 毁毀 毕畢 氢氫 汇匯 沟溝 洁潔 浅淺 济濟 浓濃 润潤 ' +
+  '涨漲 渐漸 湾灣 滤濾 满滿 滚滾 潜潛 灭滅 灵靈 灾災 炉爐 点點 炼煉 烟煙 烧燒 ' +
+  '爱愛 牵牽 犹猶 状狀 独獨 狭狹 画畫 畅暢 疗療 监監 盐鹽 盖蓋 着著 矿礦 砖磚 ' +
+  '碍礙 礼禮 离離 称稱 稳穩 竖豎 竞競 笔筆 简簡 签簽 紧緊 纠糾 纪紀 约約 纯純 ' +
+  '练練 绍紹 绘繪 继繼 续續 综綜 缓緩 罗羅 罚罰 职職 联聯 胀脹 胜勝 脑腦 脱脫 ' +
+  '脚腳 艺藝 药藥 获獲 营營 萤螢 虑慮 虚虛 虫蟲 虽雖 蚀蝕 补補 衬襯 触觸 订訂 ' +
+  '讨討 训訓 讲講 评評 询詢 详詳 误誤 谓謂 谱譜 谢謝 财財 责責 败敗 贮貯 贯貫 ' +
+  '贴貼 贸貿 赔賠 赶趕 趋趨 跃躍 践踐 轮輪 辅輔 辐輻 边邊 达達 迁遷 远遠 违違 ' +
+  '迟遲 适適 选選 递遞 逻邏 遗遺 邻鄰 释釋 鉴鑑 钟鐘 钥鑰 钱錢 钳鉗 铃鈴 铸鑄 ' +
+  '铺鋪 锚錨 锤錘 键鍵 锯鋸 镇鎮 队隊 阳陽 阴陰 阶階 陆陸 陈陳 险險 随隨 隐隱 ' +
+  '难難 雾霧 静靜 颜顏 风風 飞飛 饰飾 馆館 骤驟 齐齊 两兩 亿億 万萬 专專 丝絲 ' +
+  '丢丟 仪儀 伟偉 党黨 励勵 劲勁 厨廚 吨噸 听聽 团團 坠墜 够夠 岗崗 恒恆 ' +
+  '拦攔 掺摻 枢樞 栈棧 栋棟 椭橢 残殘 泻瀉 洒灑 浆漿 涡渦 渗滲 滞滯 烛燭 矫矯 ' +
+  '碱鹼 笼籠 纵縱 纹紋 绑綁 绩績 绪緒 缝縫 缴繳 胶膠 舱艙 衔銜 讯訊 辖轄 邮郵 ' +
+  '钠鈉 锂鋰 镍鎳 韧韌 顾顧 馈饋 谐諧 仑侖 苏蘇 鸣鳴 龙龍 鱼魚 鸟鳥';
+
+// 簡體詞組，含一簡對多繁或繁體中也會使用的字
+const PHRASES: Record<string, string> = {
+  以后: '以後',
+  之后: '之後',
+  然后: '然後',
+  最后: '最後',
+  前后: '前後',
+  后面: '後面',
+  后续: '後續',
+  后者: '後者',
+  后方: '後方',
+  背后: '背後',
+  干线: '幹線',
+  主干: '主幹',
+  干路: '幹路',
+  干管: '幹管',
+  干燥: '乾燥',
+  干式: '乾式',
+  里面: '裡面',
+  这里: '這裡',
+  那里: '那裡',
+  哪里: '哪裡',
+  标准: '標準',
+  准确: '準確',
+  基准: '基準',
+  水准: '水準',
+  准则: '準則',
+  精准: '精準',
+  准备: '準備',
+  制造: '製造',
+  制作: '製作',
+  制品: '製品',
+  制成: '製成',
+  制图: '製圖',
+  制程: '製程',
+  绘制: '繪製',
+  复制: '複製',
+  研制: '研製',
+  预制: '預製',
+  范围: '範圍',
+  规范: '規範',
+  示范: '示範',
+  模范: '模範',
+  防范: '防範',
+  范例: '範例',
+  范本: '範本',
+  范畴: '範疇',
+  根据: '根據',
+  依据: '依據',
+  数据: '數據',
+  据此: '據此',
+  证据: '證據',
+  单据: '單據',
+  大于: '大於',
+  小于: '小於',
+  等于: '等於',
+  低于: '低於',
+  高于: '高於',
+  对于: '對於',
+  由于: '由於',
+  用于: '用於',
+  属于: '屬於',
+  位于: '位於',
+  至于: '至於',
+  关于: '關於',
+  什么: '什麼',
+  怎么: '怎麼',
+  那么: '那麼',
+  这么: '這麼',
+  多么: '多麼',
+  涂装: '塗裝',
+  涂料: '塗料',
+  涂漆: '塗漆',
+  涂布: '塗布',
+  涂覆: '塗覆',
+  涂层: '塗層',
+  建筑: '建築',
+  构筑: '構築',
+  规划: '規劃',
+  划分: '劃分',
+  计划: '計畫',
+  区划: '區劃',
+  划定: '劃定',
+  几个: '幾個',
+  几乎: '幾乎',
+  几何: '幾何',
+  几种: '幾種',
+  几次: '幾次',
+  冲击: '衝擊',
+  缓冲: '緩衝',
+  脉冲: '脈衝',
+  冲突: '衝突',
+  台湾: '臺灣',
+  其余: '其餘',
+  剩余: '剩餘',
+  余量: '餘量',
+  多余: '多餘',
+  采用: '採用',
+  采取: '採取',
+  采购: '採購',
+  采集: '採集',
+  采样: '採樣',
+  关系: '關係',
+  联系: '聯繫',
+  合并: '合併',
+  兼并: '兼併',
+  并入: '併入',
+  恢复: '恢復',
+  修复: '修復',
+  回复: '回覆',
+  答复: '答覆',
+  复原: '復原',
+  往复: '往復',
+  反复: '反覆',
+  复归: '復歸',
+  复位: '復位',
+  头发: '頭髮',
+  日历: '日曆',
+  词汇: '詞彙',
+  汇总: '彙總',
+  汇编: '彙編',
+  尽管: '儘管'
+};
+
+const PHRASE_LENGTHS = Array.from(
+  new Set(Object.keys(PHRASES).map((p) => p.length))
+).sort((a, b) => b - a);
+
+const TRADITIONAL_CHARS = new Map<string, string>(
+  CHAR_PAIRS.split(/\s+/).map((pair) => [pair[0], pair[1]] as [string, string])
+);
+
+// 全形時保留的中文標點與對應的半形標點
+const CJK_PUNCTUATION: Record<string, string> = {
+  ',': '，',
+  ';': '；',
+  ':': '：',
+  '?': '？',
+  '!': '！',
+  '(': '（',
+  ')': '）'
+};
+const KEPT_FULL_WIDTH = new Set(Object.values(CJK_PUNCTUATION));
+
+// 相容區的單位字元
+const UNIT_CHARS: Record<string, string> = {
+  '㎟': 'mm²',
+  '㎡': 'm²',
+  '㎠': 'cm²',
+  '㎣': 'mm³',
+  '㎤': 'cm³',
+  '㎥': 'm³',
+  '㎜': 'mm',
+  '㎝': 'cm',
+  '㎞': 'km',
+  '㎎': 'mg',
+  '㎏': 'kg',
+  '㎐': 'Hz',
+  '㎑': 'kHz',
+  '㎒': 'MHz',
+  '㎃': 'mA',
+  '㎄': 'kA',
+  '㎂': 'μA',
+  '㎷': 'mV',
+  '㎸': 'kV',
+  '㎹': 'MV',
+  '㎽': 'mW',
+  '㎾': 'kW',
+  '㎿': 'MW',
+  '㏀': 'kΩ',
+  '㏁': 'MΩ',
+  '㏈': 'dB',
+  // 歐姆符號、micro 符號與克氏溫標符號
+  '\u2126': 'Ω',
+  '\u00b5': 'μ',
+  '\u212a': 'K'
+};
+
+const UNIT_NAMES =
+  'mm²|mm³|cm²|cm³|m²|m³|mm|cm|km|kg|kHz|MHz|Hz|mA|kA|μA|A|mV|kV|MV|V|mW|kW|MW|kVA|VA|W|kΩ|MΩ|Ω|dB';
+
+const CJK_RE = /[㐀-鿿豈-﫿]/;
+
+function isCjk(char: string | undefined) {
+  return !!char && (CJK_RE.test(char) || KEPT_FULL_WIDTH.has(char));
+}
+
+function cleanWhitespace(text: string, multiline: boolean) {
+  const cleaned = text
+    .replace(/[\u200b-\u200d\ufeff]/g, '')
+    .replace(/[\u3000\u00a0]/g, ' ');
+
+  if (!multiline) return cleaned.replace(/\s+/g, ' ').trim();
+
+  return cleaned
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function foldWidth(text: string) {
+  return text.replace(/[！-～]/g, (char) =>
+    KEPT_FULL_WIDTH.has(char)
+      ? char
+      : String.fromCharCode(char.charCodeAt(0) - 0xfee0)
+  );
+}
+
+function foldPunctuation(text: string) {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const full = CJK_PUNCTUATION[char];
+    result += full && (isCjk(text[i - 1]) || isCjk(text[i + 1])) ? full : char;
+  }
+  return result;
+}
+
+function foldUnits(text: string) {
+  return (
+    text
+      .replace(
+        /[\u3380-\u33df\u2126\u00b5\u212a]/g,
+        (char) => UNIT_CHARS[char] ?? char
+      )
+      // 2mm2、2mm^2 → 2mm²
+      .replace(
+        /(\d) *(mm|cm|m)\^?([23])(?![0-9])/g,
+        (_, digit: string, unit: string, power: string) =>
+          `${digit}${unit}${power === '2' ? '²' : '³'}`
+      )
+      // 數值與單位之間不留空白：600 V → 600V
+      .replace(new RegExp(`(\\d) +(${UNIT_NAMES})(?![A-Za-z])`, 'g'), '$1$2')
+  );
+}
+
+/**
+ * 簡體轉繁體：先比對詞組，再逐字轉換
+ */
+export function toTraditional(text: string) {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const length = PHRASE_LENGTHS.find(
+      (n) => PHRASES[text.slice(i, i + n)] !== undefined
+    );
+    if (length) {
+      result += PHRASES[text.slice(i, i + length)];
+      i += length;
+      continue;
+    }
+    result += TRADITIONAL_CHARS.get(text[i]) ?? text[i];
+    i += 1;
+  }
+
+  return result;
+}
+
+const STEPS: [
+  NormalizationRule,
+  (text: string, multiline: boolean) => string
+][] = [
+  ['whitespace', cleanWhitespace],
+  ['width', foldWidth],
+  ['punctuation', foldPunctuation],
+  ['unit', foldUnits],
+  ['traditional', toTraditional]
+];
+
+/**
+ * 依序套用所有正規化規則，並回報哪些規則改變了文字
+ */
+export function normalizeText(
+  text: string,
+  options: NormalizeOptions = {}
+): NormalizedText {
+  const multiline = options.multiline ?? false;
+  const rules: NormalizationRule[] = [];
+  let current = text;
+
+  for (const [rule, apply] of STEPS) {
+    const next = apply(current, multiline);
+    if (next !== current) rules.push(rule);
+    current = next;
+  }
+
+  return { text: current, rules };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countQuantityMatches,
+  formatQuantity,
+  parseQuantities,
+  quantityKey
+} from './query-parser';
+
+describe('parseQuantities', () => {
+  it('解析截面積與電壓', () => {
+    expect(parseQuantities('2.0mm² 電線 600V 安培容量')).toEqual([
+      { kind: 'cross_section', text: '2.0mm²', value: 2, unit: 'mm²' },
+      { kind: 'voltage', text: '600V', value: 600, unit: 'V' }
+    ]);
+  });
+
+  it('換算為基本單位', () => {
+    expect(parseQuantities('11kV 30mA 2km').map(quantityKey)).toEqual([
+      'voltage:11000',
+      'current:0.03',
+      'length:2000'
+    ]);
+  });
+
+  it('數字後單獨的「平方」視為截面積', () => {
+    expect(parseQuantities('22平方電線').map(quantityKey)).toEqual([
+      'cross_section:22'
+    ]);
+    expect(parseQuantities('截面積5.5平方').map(quantityKey)).toEqual([
+      'cross_section:5.5'
+    ]);
+  });
+
+  it.each([
+    '5平方米',
+    '10平方公尺',
+    '30平方公分',
+    '22平方公里',
+    '100平方英尺',
+    '3平方m'
+  ])('「%s」是面積不是截面積', (query) => {
+    expect(parseQuantities(query)).toEqual([]);
+  });
+
+  it('mm² 不重複解析為長度 mm', () => {
+    expect(parseQuantities('3.5mm2').map(quantityKey)).toEqual([
+      'cross_section:3.5'
+    ]);
+  });
+
+  it('「安培容量」不是電流', () => {
+    expect(parseQuantities('安培容量')).toEqual([]);
+  });
+
+  it('解析導體材質，同一規格只列一次', () => {
+    expect(parseQuantities('銅線 600V 600 V')).toEqual([
+      { kind: 'voltage', text: '600V', value: 600, unit: 'V' },
+      { kind: 'conductor', text: '銅', value: 'copper' }
+    ]);
+  });
+});
+
+describe('formatQuantity', () => {
+  it('數值保留原寫法，導體顯示中文', () => {
+    const [voltage, conductor] = parseQuantities('0.6kV 鋁');
+    expect(formatQuantity(voltage)).toBe('電壓 0.6kV');
+    expect(formatQuantity(conductor)).toBe('導體 鋁');
+  });
+});
+
+describe('countQuantityMatches', () => {
+  it('數值換算後相等即視為相同規格', () => {
+    const quantities = parseQuantities('600V 2mm²');
+
+    expect(countQuantityMatches('額定電壓0.6kV，截面積2平方', quantities)).toBe(
+      2
+    );
+    expect(countQuantityMatches('額定電壓 300V', quantities)).toBe(0);
+    expect(countQuantityMatches('任何內容', [])).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * 查詢規格解析 - 從查詢中取出截面積、電壓、電流、長度與導體材質
+ *
+ * 例如「2.0mm² 電線 600V 安培容量」→ 截面積 2 mm²、電壓 600 V
+ * 解析結果用於提高提及相同規格之法規段落的排序，並依電壓、材質、截面積比對材料
+ *
+ * 純函式，伺服器與瀏覽器共用
+ */
+
+import { normalizeText } from './normalize';
+import type { QueryQuantity } from './schemas';
+
+export type MeasureKind = Exclude<QueryQuantity['kind'], 'conductor'>;
+
+interface UnitPattern {
+  kind: MeasureKind;
+  pattern: string;
+  /** 換算為基本單位的倍數 */
+  scale: number;
+}
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+// 「平方」後接這些單位時是面積（平方公尺、平方公里、平方英尺⋯），不是電線截面積；
+// 接英文字母（22平方m）則由下方比對規則的 (?![A-Za-z]) 排除
+const AREA_UNITS =
+  '公尺|米|公分|公釐|毫米|公里|千米|英尺|英呎|英吋|英里|呎|吋|尺|寸|碼|哩';
+
+// 依序比對，已比對的文字不再參與後面的規則（避免 mm² 被當成長度 mm）
+const UNIT_PATTERNS: UnitPattern[] = [
+  {
+    kind: 'cross_section',
+    // 數字後的「平方」只有在沒有接其他單位時才是 mm²，例如「22平方電線」
+    pattern: `mm²|mm2|平方毫米|平方(?!${AREA_UNITS})`,
+    scale: 1
+  },
+  { kind: 'voltage', pattern: 'kV|KV', scale: 1000 },
+  { kind: 'voltage', pattern: 'V|伏特', scale: 1 },
+  { kind: 'current', pattern: 'kA', scale: 1000 },
+  { kind: 'current', pattern: 'mA', scale: 0.001 },
+  { kind: 'current', pattern: 'A|安培(?!容量)', scale: 1 },
+  { kind: 'length', pattern: 'km|公里', scale: 1000 },
+  { kind: 'length', pattern: 'mm|公釐|毫米', scale: 0.001 },
+  { kind: 'length', pattern: 'cm|公分', scale: 0.01 },
+  { kind: 'length', pattern: 'm|公尺|米', scale: 1 }
+];
+
+const BASE_UNITS: Record<MeasureKind, string> = {
+  cross_section: 'mm²',
+  voltage: 'V',
+  current: 'A',
+  length: 'm'
+};
+
+const CONDUCTORS: { value: 'copper' | 'aluminum'; pattern: RegExp }[] = [
+  { value: 'copper', pattern: /銅|copper|\bCu\b/i },
+  { value: 'aluminum', pattern: /鋁|alumin(?:i)?um|\bAl\b/i }
+];
+
+export const QUANTITY_LABELS: Record<QueryQuantity['kind'], string> = {
+  cross_section: '截面積',
+  voltage: '電壓',
+  current: '電流',
+  length: '長度',
+  conductor: '導體'
+};
+
+export const CONDUCTOR_LABELS = { copper: '銅', aluminum: '鋁' } as const;
+
+/**
+ * 同一規格的識別鍵，例如 voltage:600、conductor:copper
+ */
+export function quantityKey(quantity: QueryQuantity) {
+  return `${quantity.kind}:${quantity.value}`;
+}
+
+/**
+ * 顯示用文字，例如「電壓 600V」「導體 銅」；數值保留使用者輸入的寫法
+ */
+export function formatQuantity(quantity: QueryQuantity) {
+  const label = QUANTITY_LABELS[quantity.kind];
+  return quantity.kind === 'conductor'
+    ? `${label} ${CONDUCTOR_LABELS[quantity.value]}`
+    : `${label} ${quantity.text}`;
+}
+
+function round(value: number) {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * 解析查詢中的規格；同一規格只列一次
+ */
+export function parseQuantities(query: string): QueryQuantity[] {
+  let rest = normalizeText(query).text;
+  const quantities: QueryQuantity[] = [];
+  const seen = new Set<string>();
+
+  const add = (quantity: QueryQuantity) => {
+    const key = quantityKey(quantity);
+    if (seen.has(key)) return;
+    seen.add(key);
+    quantities.push(quantity);
+  };
+
+  for (const { kind, pattern, scale } of UNIT_PATTERNS) {
+    const re = new RegExp(
+      `(^|[^\\d.A-Za-z])${NUMBER}\\s*(?:${pattern})(?![A-Za-z])`,
+      'g'
+    );
+    rest = rest.replace(re, (match: string, prefix: string, num: string) => {
+      add({
+        kind,
+        text: match.slice(prefix.length),
+        value: round(Number(num) * scale),
+        unit: BASE_UNITS[kind]
+      });
+      return `${prefix} `;
+    });
+  }
+
+  for (const { value, pattern } of CONDUCTORS) {
+    const found = rest.match(pattern);
+    if (found) add({ kind: 'conductor', text: found[0], value });
+  }
+
+  return quantities;
+}
+
+/**
+ * 文字中是否提及相同規格（數值換算後相等即視為相同）
+ */
+export function countQuantityMatches(
+  text: string,
+  quantities: QueryQuantity[]
+): number {
+  if (quantities.length === 0) return 0;
+  const mentioned = new Set(parseQuantities(text).map(quantityKey));
+  return quantities.filter((q) => mentioned.has(quantityKey(q))).length;
+}
@@ -0,0 +1,167 @@
+/**
+ * 重新排序（Rerank）- 以本地模型重新評分檢索候選
+ *
+ * 提供者（RERANK_PROVIDER）：
+ * - ollama：以 Ollama 生成模型逐段評分（預設）
+ * - http：相容 TEI / llama.cpp `/rerank` 介面的本地服務
+ * - lexical：字元 bigram 重疊率，不需模型，供離線與測試使用
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import type { RetrievedChunk } from './retrieval';
+
+export interface Reranker {
+  name: string;
+  /** 回傳與 documents 同順序、介於 0～1 的分數 */
+  score: (query: string, documents: string[]) => Promise<number[]>;
+}
+
+export type RerankProvider = 'ollama' | 'http' | 'lexical';
+
+const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
+
+/**
+ * Ollama 生成模型評分：要求模型只輸出 0～10 的整數
+ */
+export function createOllamaReranker(model: string): Reranker {
+  const scoreOne = async (query: string, document: string) => {
+    const response = await fetch(`${OLLAMA_URL}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        prompt: `請判斷下列法規段落與問題的相關程度，只輸出 0 到 10 的整數，不要任何說明。\n\n問題：${query}\n\n段落：${document}\n\n分數：`,
+        stream: false,
+        keep_alive: '5m',
+        options: { temperature: 0, num_predict: 4 }
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Ollama rerank 失敗: ${errorText}`);
+    }
+
+    const result = await response.json();
+    const value = Number(String(result.response).match(/\d+(?:\.\d+)?/)?.[0]);
+    return Number.isFinite(value) ? Math.min(Math.max(value / 10, 0), 1) : 0;
+  };
+
+  return {
+    name: `ollama:${model}`,
+    score: async (query, documents) => {
+      // 依序評分，避免本地模型同時載入多個請求
+      const scores: number[] = [];
+      for (const document of documents) {
+        scores.push(await scoreOne(query, document));
+      }
+      return scores;
+    }
+  };
+}
+
+/**
+ * 通用 `/rerank` 服務（TEI、llama.cpp `--reranking`、Jina 相容格式）
+ */
+export function createHttpReranker(url: string, model: string): Reranker {
+  return {
+    name: `http:${model}`,
+    score: async (query, documents) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, query, documents })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Rerank 服務失敗: ${errorText}`);
+      }
+
+      const result = await response.json();
+      const items: {
+        index: number;
+        relevance_score?: number;
+        score?: number;
+      }[] = Array.isArray(result) ? result : result.results || [];
+
+      const scores = new Array<number>(documents.length).fill(0);
+      for (const item of items) {
+        scores[item.index] = item.relevance_score ?? item.score ?? 0;
+      }
+      return scores;
+    }
+  };
+}
+
+function bigrams(text: string): Set<string> {
+  const compact = text.toLowerCase().replace(/\s+/g, '');
+  const grams = new Set<string>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    grams.add(compact.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * 字元 bigram 覆蓋率：查詢的 bigram 有多少比例出現在段落中
+ */
+export function createLexicalReranker(): Reranker {
+  return {
+    name: 'lexical',
+    score: async (query, documents) => {
+      const queryGrams = bigrams(query);
+      if (queryGrams.size === 0) return documents.map(() => 0);
+
+      return documents.map((document) => {
+        const documentGrams = bigrams(document);
+        let hits = 0;
+        queryGrams.forEach((gram) => {
+          if (documentGrams.has(gram)) hits++;
+        });
+        return hits / queryGrams.size;
+      });
+    }
+  };
+}
+
+/**
+ * 依環境變數建立 reranker
+ */
+export function getReranker(): Reranker {
+  const provider = (process.env.RERANK_PROVIDER || 'ollama') as RerankProvider;
+  const model = process.env.RERANK_MODEL || 'qwen2.5:3b';
+
+  switch (provider) {
+    case 'http':
+      return createHttpReranker(
+        process.env.RERANK_URL || 'http://localhost:8080/rerank',
+        model
+      );
+    case 'lexical':
+      return createLexicalReranker();
+    default:
+      return createOllamaReranker(model);
+  }
+}
+
+/**
+ * 重新評分候選並依 rerank_score 排序，保留原本的 similarity
+ */
+export async function rerankChunks(
+  query: string,
+  candidates: RetrievedChunk[],
+  reranker: Reranker = getReranker()
+): Promise<RetrievedChunk[]> {
+  if (candidates.length === 0) return candidates;
+
+  const scores = await reranker.score(
+    query,
+    candidates.map((chunk) => chunk.content)
+  );
+
+  return candidates
+    .map((chunk, i) => ({ ...chunk, rerank_score: scores[i] ?? 0 }))
+    .sort((a, b) => (b.rerank_score || 0) - (a.rerank_score || 0));
+}
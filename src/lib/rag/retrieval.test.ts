@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  rankingScore,
+  reciprocalRankFusion,
+  type RetrievedChunk
+} from './retrieval';
+
+function hit(
+  id: string,
+  retriever: 'vector' | 'keyword',
+  score: number
+): RetrievedChunk {
+  return {
+    id,
+    content: id,
+    source: '測試',
+    similarity: retriever === 'vector' ? score : 0,
+    ...(retriever === 'keyword' && { keyword_score: score }),
+    retrievers: [retriever]
+  };
+}
+
+describe('reciprocalRankFusion', () => {
+  const vector = [hit('a', 'vector', 0.9), hit('b', 'vector', 0.8)];
+  const keyword = [hit('b', 'keyword', 3), hit('c', 'keyword', 2)];
+
+  it('依 Σ 1 / (k + rank) 累加分數並排序', () => {
+    const fused = reciprocalRankFusion([vector, keyword], 60);
+
+    expect(fused.map((c) => c.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].fusion_score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[1].fusion_score).toBeCloseTo(1 / 61);
+    expect(fused[2].fusion_score).toBeCloseTo(1 / 62);
+  });
+
+  it('合併同一 chunk 的相似度、關鍵字分數與檢索器', () => {
+    const b = reciprocalRankFusion([vector, keyword]).find((c) => c.id === 'b');
+
+    expect(b).toMatchObject({
+      similarity: 0.8,
+      keyword_score: 3,
+      retrievers: ['vector', 'keyword']
+    });
+  });
+
+  it('不修改輸入的清單', () => {
+    reciprocalRankFusion([vector, keyword]);
+    expect(vector[0].fusion_score).toBeUndefined();
+  });
+});
+
+describe('rankingScore', () => {
+  it('依 rerank、RRF、向量相似度、關鍵字分數的順序取值', () => {
+    const chunk = hit('a', 'keyword', 4);
+
+    expect(rankingScore(chunk)).toBe(4);
+    expect(rankingScore({ ...chunk, similarity: 0.7 })).toBe(0.7);
+    expect(rankingScore({ ...chunk, fusion_score: 0.03 })).toBe(0.03);
+    expect(
+      rankingScore({ ...chunk, fusion_score: 0.03, rerank_score: 0.9 })
+    ).toBe(0.9);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * 法規檢索 - 向量、關鍵字與混合（Reciprocal Rank Fusion）
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { formatArticleNo } from './article-chunker';
+import { getRagDatabase } from './db';
+import { toVectorLiteral } from './embedding';
+import type { Retriever, SearchMode } from './schemas';
+
+export type { Retriever, SearchMode };
+
+export const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+export interface RetrievedChunk {
+  id: string;
+  content: string;
+  source: string;
+  article_no?: string | null;
+  chunk_idx?: number;
+  doc_type?: string | null;
+  metadata?: Record<string, unknown>;
+  /** 向量相似度（僅向量檢索命中時有值，否則為 0） */
+  similarity: number;
+  keyword_score?: number;
+  /** RRF 融合分數（僅混合模式） */
+  fusion_score?: number;
+  /** 重新排序分數（僅啟用 rerank 時） */
+  rerank_score?: number;
+  /** 回饋淨評價 -1～1（僅啟用回饋加權且有回饋時） */
+  feedback_score?: number;
+  /** 內容提及的查詢規格數（僅查詢含規格時） */
+  quantity_matches?: number;
+  /** 找到此結果的檢索器 */
+  retrievers: Retriever[];
+}
+
+export interface RetrievalFilters {
+  /** 單一文件類型（舊參數，與 doc_types 合併） */
+  doc_type?: string;
+  sources?: string[];
+  doc_types?: string[];
+  chapters?: string[];
+  tags?: string[];
+  /** 條號主號範圍（含端點），「第12條之1」視為 12 */
+  article_from?: number;
+  article_to?: number;
+  /** 施行日期範圍（YYYY-MM-DD，含端點） */
+  effective_from?: string;
+  effective_to?: string;
+}
+
+export type FacetName = 'source' | 'doc_type' | 'chapter' | 'tag';
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type Facets = Record<FacetName, FacetCount[]>;
+
+// RRF 常數，論文建議值 60
+const RRF_K = 60;
+
+// 問句常見的虛詞，用來切開沒有空白的中文查詢
+const STOPWORDS =
+  /請問|多少|什麼|甚麼|如何|怎麼|是否|哪些|哪個|規定|的|是|嗎|呢|為|與|及|和|或|在|有/g;
+
+export class RpcError extends Error {
+  constructor(
+    public rpc: string,
+    public detail: string
+  ) {
+    super(`資料庫搜尋失敗: ${detail}`);
+    this.name = 'RpcError';
+  }
+}
+
+/**
+ * 以 REST API 呼叫 Supabase RPC
+ */
+async function callRpc<T>(
+  name: string,
+  body: Record<string, unknown>
+): Promise<T[]> {
+  const { url, key } = await getRagDatabase();
+  const response = await fetch(`${url}/rest/v1/rpc/${name}`, {
+    method: 'POST',
+    headers: {
+      apikey: key,
+      Authorization: `Bearer ${key}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  const responseText = await response.text();
+
+  if (!response.ok) {
+    console.error(`Supabase RPC ${name} 錯誤:`, responseText);
+    throw new RpcError(name, responseText);
+  }
+
+  try {
+    return (JSON.parse(responseText) as T[]) || [];
+  } catch {
+    throw new RpcError(
+      name,
+      `Invalid JSON response: ${responseText.slice(0, 200)}`
+    );
+  }
+}
+
+/**
+ * 跳脫 ILIKE 萬用字元
+ */
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * 從查詢字串拆出關鍵字：條號、數值規格與中文詞段
+ */
+export function extractKeywords(query: string): string[] {
+  const terms: string[] = [];
+  let rest = query.replace(/[０-９]/g, (c) =>
+    String.fromCharCode(c.charCodeAt(0) - 0xfee0)
+  );
+
+  // 條號，例如「第 12 條」「第十二條之一」→ 第12條、第12條之1
+  rest = rest.replace(
+    /第\s*([0-9一二三四五六七八九十百千零〇]+)\s*條(?:\s*之\s*([0-9一二三四五六七八九十]+))?/g,
+    (_, main: string, sub?: string) => {
+      terms.push(formatArticleNo(main, sub));
+      return ' ';
+    }
+  );
+
+  // 數值規格，例如 5.5mm²、600V、30A
+  rest = rest.replace(
+    /\d+(?:\.\d+)?\s*(?:mm²|mm2|mm|kV|V|kVA|kW|A|W|Hz|m)(?![A-Za-z])/gi,
+    (spec: string) => {
+      terms.push(spec.replace(/\s+/g, ''));
+      return ' ';
+    }
+  );
+
+  for (const token of rest.split(/[\s,，。、；;：:？?！!（）()「」]+/)) {
+    for (const part of token.split(STOPWORDS)) {
+      if (part.length >= 2) terms.push(part);
+    }
+  }
+
+  return Array.from(new Set(terms)).slice(0, 8);
+}
+
+const FILTER_KEYS = [
+  'sources',
+  'chapters',
+  'tags',
+  'article_from',
+  'article_to',
+  'effective_from',
+  'effective_to'
+] as const;
+
+/**
+ * 轉成 RPC 的 filters jsonb，未設定的條件不放入
+ */
+export function toFilterJson(
+  filters: RetrievalFilters
+): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+  const docTypes = [
+    ...(filters.doc_types ?? []),
+    ...(filters.doc_type ? [filters.doc_type] : [])
+  ];
+
+  if (docTypes.length > 0) json.doc_types = Array.from(new Set(docTypes));
+  for (const key of FILTER_KEYS) {
+    const value = filters[key];
+    if (value === undefined || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    json[key] = value;
+  }
+  return json;
+}
+
+/**
+ * 向量檢索（search_regulations_filtered RPC）
+ */
+export async function vectorSearch(
+  embedding: number[],
+  matchCount: number,
+  matchThreshold: number,
+  filters: RetrievalFilters = {}
+): Promise<RetrievedChunk[]> {
+  const rows = await callRpc<Omit<RetrievedChunk, 'retrievers'>>(
+    'search_regulations_filtered',
+    {
+      query_embedding: toVectorLiteral(embedding),
+      match_threshold: matchThreshold,
+      match_count: matchCount,
+      filters: toFilterJson(filters)
+    }
+  );
+
+  return rows.map((row) => ({
+    ...row,
+    similarity: row.similarity || 0,
+    retrievers: ['vector']
+  }));
+}
+
+/**
+ * 關鍵字檢索（keyword_search_regulations RPC，pg_trgm）
+ */
+export async function keywordSearch(
+  query: string,
+  matchCount: number,
+  filters: RetrievalFilters = {},
+  extraTerms: string[] = []
+): Promise<RetrievedChunk[]> {
+  // extraTerms 為詞彙表擴充的同義說法
+  const terms = Array.from(new Set([...extractKeywords(query), ...extraTerms]));
+  if (terms.length === 0) return [];
+
+  const rows = await callRpc<Omit<RetrievedChunk, 'retrievers' | 'similarity'>>(
+    'keyword_search_regulations',
+    {
+      query_terms: terms.map(escapeLike),
+      match_count: matchCount,
+      filters: toFilterJson(filters)
+    }
+  );
+
+  return rows.map((row) => ({
+    ...row,
+    similarity: 0,
+    retrievers: ['keyword']
+  }));
+}
+
+/**
+ * 篩選範圍內各來源、文件類型、章與標籤的 chunk 數
+ *
+ * 每個維度只套用其他維度的條件，勾選後仍能看到同維度其他選項的數量
+ */
+export async function getFacets(
+  filters: RetrievalFilters = {}
+): Promise<Facets> {
+  const rows = await callRpc<{
+    facet: FacetName;
+    value: string;
+    chunk_count: number | string;
+  }>('regulation_facets', { filters: toFilterJson(filters) });
+
+  const facets: Facets = { source: [], doc_type: [], chapter: [], tag: [] };
+  for (const row of rows) {
+    facets[row.facet]?.push({
+      value: row.value,
+      count: Number(row.chunk_count)
+    });
+  }
+  return facets;
+}
+
+/**
+ * 各階段的排序分數：rerank > RRF 融合 > 向量相似度 > 關鍵字分數
+ */
+export function rankingScore(chunk: RetrievedChunk): number {
+  return (
+    chunk.rerank_score ??
+    chunk.fusion_score ??
+    (chunk.similarity || chunk.keyword_score || 0)
+  );
+}
+
+/**
+ * Reciprocal Rank Fusion：score = Σ 1 / (k + rank)
+ *
+ * 同一 chunk 出現在多個清單時合併欄位並累加分數
+ */
+export function reciprocalRankFusion(
+  lists: RetrievedChunk[][],
+  k = RRF_K
+): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+
+  for (const list of lists) {
+    list.forEach((hit, index) => {
+      const score = 1 / (k + index + 1);
+      const existing = fused.get(hit.id);
+
+      if (!existing) {
+        fused.set(hit.id, { ...hit, fusion_score: score });
+        return;
+      }
+
+      fused.set(hit.id, {
+        ...existing,
+        similarity: Math.max(existing.similarity, hit.similarity),
+        keyword_score: existing.keyword_score ?? hit.keyword_score,
+        fusion_score: (existing.fusion_score || 0) + score,
+        retrievers: Array.from(
+          new Set([...existing.retrievers, ...hit.retrievers])
+        )
+      });
+    });
+  }
+
+  return Array.from(fused.values()).sort(
+    (a, b) => (b.fusion_score || 0) - (a.fusion_score || 0)
+  );
+}
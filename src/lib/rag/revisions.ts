@@ -0,0 +1,127 @@
+/**
+ * 法規修訂紀錄 - 更新內容前保存舊版本，供比對與還原
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { DatabaseError } from './errors';
+import { embedText, getEmbeddingProvider, toVectorLiteral } from './embedding';
+
+export type RevisionAction = 'update' | 'restore';
+
+export interface RegulationRevision {
+  id: number;
+  regulation_id: string;
+  content: string;
+  editor: string | null;
+  action: RevisionAction;
+  created_at: string;
+}
+
+export interface UpdateContentOptions {
+  id: string;
+  content: string;
+  editor?: string | null;
+  action?: RevisionAction;
+  regenerateEmbedding?: boolean;
+}
+
+export class RegulationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`找不到法規 chunk: ${id}`);
+    this.name = 'RegulationNotFoundError';
+  }
+}
+
+/**
+ * 列出某個 chunk 的修訂紀錄（新到舊）
+ */
+export async function listRevisions(
+  regulationId: string
+): Promise<RegulationRevision[]> {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase
+    .from('regulation_revisions')
+    .select('id, regulation_id, content, editor, action, created_at')
+    .eq('regulation_id', regulationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new DatabaseError(`讀取修訂紀錄失敗: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * 取得單筆修訂紀錄
+ */
+export async function getRevision(
+  revisionId: number
+): Promise<RegulationRevision | null> {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase
+    .from('regulation_revisions')
+    .select('id, regulation_id, content, editor, action, created_at')
+    .eq('id', revisionId)
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`讀取修訂紀錄失敗: ${error.message}`);
+  return data;
+}
+
+/**
+ * 更新 chunk 內容：先寫入舊內容的修訂紀錄，再更新內容（可選擇重新生成向量）
+ */
+export async function updateRegulationContent({
+  id,
+  content,
+  editor = null,
+  action = 'update',
+  regenerateEmbedding = true
+}: UpdateContentOptions) {
+  const supabase = await getSupabase();
+  const { data: current, error: readError } = await supabase
+    .from('regulations')
+    .select('id, content')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (readError) throw new DatabaseError(`讀取失敗: ${readError.message}`);
+  if (!current) throw new RegulationNotFoundError(id);
+
+  const updateData: Record<string, unknown> = { content };
+
+  // 重新生成 embedding（先於寫入修訂紀錄，失敗時不留下多餘版本）
+  if (regenerateEmbedding) {
+    const provider = getEmbeddingProvider();
+    const embedding = await embedText(content, provider);
+    updateData.embedding = toVectorLiteral(embedding);
+    updateData.embedding_model = provider.model;
+    updateData.embedding_dim = embedding.length;
+  }
+
+  // 內容沒變時不產生新版本
+  if (current.content !== content) {
+    const { error: revisionError } = await supabase
+      .from('regulation_revisions')
+      .insert({
+        regulation_id: String(id),
+        content: current.content,
+        editor,
+        action
+      });
+
+    if (revisionError) {
+      throw new DatabaseError(`寫入修訂紀錄失敗: ${revisionError.message}`);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('regulations')
+    .update(updateData)
+    .eq('id', id)
+    .select('id, source, content, doc_type')
+    .single();
+
+  if (error) throw new DatabaseError(`更新失敗: ${error.message}`);
+  return data;
+}
@@ -0,0 +1,72 @@
+/**
+ * 追問改寫 - 依對話歷史把追問改寫成可獨立檢索的完整問題
+ *
+ * 例如歷史問過「2.0mm² 電線的安培容量」，追問「那 3.5mm² 呢?」
+ * 改寫為「3.5mm² 電線的安培容量是多少？」後再做 embedding 與檢索
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { CHAT_MODEL, type ChatMessage } from './generate';
+
+const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
+const REWRITE_MODEL = process.env.REWRITE_MODEL || CHAT_MODEL;
+
+// 只參考最近幾則訊息，避免 prompt 過長
+const MAX_HISTORY_MESSAGES = 6;
+
+const REWRITE_PROMPT = `你負責改寫電氣法規知識庫的搜尋問題。
+根據對話歷史，把使用者最後的追問改寫成不需上下文也能理解的完整問題。
+保留原本的數值、單位與條號；若追問本身已完整，原樣輸出。
+只輸出改寫後的問題，不要回答問題，也不要任何說明。`;
+
+/**
+ * 取最近的對話紀錄並轉為文字
+ */
+function formatHistory(history: ChatMessage[]): string {
+  return history
+    .filter((m) => m.role !== 'system')
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((m) => `${m.role === 'user' ? '使用者' : '助理'}：${m.content}`)
+    .join('\n');
+}
+
+/**
+ * 改寫追問；沒有歷史時直接回傳原問題
+ */
+export async function rewriteQuery(
+  query: string,
+  history: ChatMessage[] = []
+): Promise<string> {
+  if (history.length === 0) return query;
+
+  const response = await fetch(`${OLLAMA_URL}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: REWRITE_MODEL,
+      messages: [
+        { role: 'system', content: REWRITE_PROMPT },
+        {
+          role: 'user',
+          content: `對話歷史：\n${formatHistory(history)}\n\n追問：${query}`
+        }
+      ],
+      stream: false,
+      keep_alive: '5m',
+      options: { temperature: 0 }
+    })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Ollama 改寫失敗: ${errorText}`);
+  }
+
+  const result = await response.json();
+  const rewritten = String(result.message?.content || '')
+    .split('\n')[0]
+    .replace(/^(改寫後的問題|問題)[:：]\s*/, '')
+    .trim();
+
+  return rewritten || query;
+}
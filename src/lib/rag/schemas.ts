@@ -0,0 +1,808 @@
+/**
+ * RAG API 請求與回應的 zod schema、錯誤代碼
+ *
+ * 伺服器端用來驗證請求，前端共用型別與錯誤代碼
+ */
+
+import * as z from 'zod';
+
+// ---------------------------------------------------------------------------
+// 錯誤
+// ---------------------------------------------------------------------------
+
+export const RAG_ERROR_CODES = [
+  'VALIDATION_ERROR',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'UNDO_EXPIRED',
+  'UNSUPPORTED_FORMAT',
+  'FILE_TOO_LARGE',
+  'EMPTY_DOCUMENT',
+  'EMBEDDING_UNAVAILABLE',
+  'EMBEDDING_MODEL_MISMATCH',
+  'EMBEDDING_DIMENSION_MISMATCH',
+  'GENERATION_UNAVAILABLE',
+  'DB_RPC_FAILED',
+  'DB_ERROR',
+  'INTERNAL_ERROR'
+] as const;
+
+export type RagErrorCode = (typeof RAG_ERROR_CODES)[number];
+
+/**
+ * 所有 RAG API 失敗時的回應格式；error 保留人類可讀訊息，code 供程式判斷
+ */
+export const errorEnvelopeSchema = z.object({
+  success: z.literal(false),
+  code: z.enum(RAG_ERROR_CODES),
+  error: z.string(),
+  details: z
+    .array(z.object({ path: z.string(), message: z.string() }))
+    .optional()
+});
+
+export type ErrorEnvelope = z.infer<typeof errorEnvelopeSchema>;
+
+// ---------------------------------------------------------------------------
+// 共用
+// ---------------------------------------------------------------------------
+
+export const searchModeSchema = z.enum(['vector', 'keyword', 'hybrid']);
+export const retrieverSchema = z.enum(['vector', 'keyword']);
+
+export const chatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string()
+});
+
+// 空白訊息（例如被中斷的回答）直接略過，不視為錯誤
+export const historySchema = z
+  .array(chatMessageSchema)
+  .default([])
+  .transform((messages) => messages.filter((m) => m.content.trim() !== ''));
+
+const nonEmptyString = z.string().trim().min(1, '不可為空白');
+
+const idSchema = z.union([z.string(), z.number()]).transform(String);
+
+export const chunkSchema = z.object({
+  id: idSchema,
+  content: z.string(),
+  source: z.string(),
+  article_no: z.string().nullish(),
+  chunk_idx: z.number().optional(),
+  doc_type: z.string().nullish(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  embedding_model: z.string().nullish(),
+  embedding_dim: z.number().nullish(),
+  created_at: z.string().optional()
+});
+
+export const retrievedChunkSchema = chunkSchema.extend({
+  similarity: z.number(),
+  keyword_score: z.number().optional(),
+  fusion_score: z.number().optional(),
+  rerank_score: z.number().optional(),
+  feedback_score: z.number().optional(),
+  // 內容提及的查詢規格數（僅查詢含規格時）
+  quantity_matches: z.number().optional(),
+  retrievers: z.array(retrieverSchema)
+});
+
+// 頁面顯示用的搜尋結果（見 features/rag/utils/search-results 的轉換）
+export const searchResultSchema = retrievedChunkSchema
+  .pick({
+    id: true,
+    content: true,
+    source: true,
+    similarity: true,
+    chunk_idx: true,
+    rerank_score: true,
+    feedback_score: true,
+    quantity_matches: true
+  })
+  .extend({
+    article_no: z.string().optional(),
+    doc_type: z.string().optional(),
+    chapter: z.string().optional(),
+    retrievers: z.array(retrieverSchema).optional()
+  });
+
+export const citationSchema = z.object({
+  marker: z.number(),
+  id: idSchema,
+  source: z.string(),
+  article_no: z.string().nullish(),
+  chunk_idx: z.number().optional()
+});
+
+// ---------------------------------------------------------------------------
+// 搜尋與回答
+// ---------------------------------------------------------------------------
+
+// 搜尋篩選條件，/search 與 /answer 共用
+const filterValues = z.array(nonEmptyString).max(50).optional();
+
+const retrievalFilterFields = {
+  doc_type: z.string().optional(),
+  sources: filterValues,
+  doc_types: filterValues,
+  chapters: filterValues,
+  tags: filterValues,
+  article_from: z.number().int().min(1).optional(),
+  article_to: z.number().int().min(1).optional(),
+  effective_from: z.iso.date().optional(),
+  effective_to: z.iso.date().optional()
+};
+
+type FilterRanges = {
+  article_from?: number;
+  article_to?: number;
+  effective_from?: string;
+  effective_to?: string;
+};
+
+function refineFilterRanges<T extends z.ZodType<FilterRanges>>(schema: T) {
+  return schema
+    .refine(
+      (f) =>
+        f.article_from === undefined ||
+        f.article_to === undefined ||
+        f.article_from <= f.article_to,
+      { message: '條號起點不可大於終點', path: ['article_to'] }
+    )
+    .refine(
+      (f) =>
+        !f.effective_from ||
+        !f.effective_to ||
+        f.effective_from <= f.effective_to,
+      { message: '施行日期起點不可晚於終點', path: ['effective_to'] }
+    );
+}
+
+// 查詢中解析出的規格；數值換算為基本單位（mm²、V、A、m）
+export const queryQuantitySchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.enum(['cross_section', 'voltage', 'current', 'length']),
+    text: z.string(),
+    value: z.number(),
+    unit: z.string()
+  }),
+  z.object({
+    kind: z.literal('conductor'),
+    text: z.string(),
+    value: z.enum(['copper', 'aluminum'])
+  })
+]);
+
+const searchRequestFields = {
+  ...retrievalFilterFields,
+  query: nonEmptyString,
+  match_count: z.number().int().min(1).max(50).optional(),
+  match_threshold: z.number().min(0).max(1).optional(),
+  mode: searchModeSchema.default('hybrid'),
+  rerank: z.boolean().optional(),
+  rerank_top_n: z.number().int().min(1).max(100).optional(),
+  feedback_boost: z.boolean().optional(),
+  // 以詞彙表改寫查詢，預設啟用
+  glossary: z.boolean().optional(),
+  // 要套用的規格；未提供時由伺服器解析查詢
+  quantities: z.array(queryQuantitySchema).max(20).optional(),
+  history: historySchema
+};
+
+export const searchRequestSchema = refineFilterRanges(
+  z.object(searchRequestFields)
+);
+
+// 文字正規化規則，見 normalize.ts
+export const normalizationRuleSchema = z.enum([
+  'whitespace',
+  'width',
+  'punctuation',
+  'unit',
+  'traditional'
+]);
+
+export const textNormalizationSchema = z.object({
+  original: z.string(),
+  normalized: z.string(),
+  rules: z.array(normalizationRuleSchema)
+});
+
+export const queryExpansionSchema = z.object({
+  original_query: z.string(),
+  // 同義詞改寫為標準用語後的查詢，向量與關鍵字檢索都使用
+  normalized_query: z.string(),
+  applied: z.array(
+    z.object({
+      matched: z.string(),
+      preferred: z.string(),
+      // 關鍵字檢索額外加入的說法
+      expanded_terms: z.array(z.string())
+    })
+  ),
+  keyword_terms: z.array(z.string())
+});
+
+// 依查詢規格比對到的材料
+export const matchedMaterialSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  unit: z.string(),
+  price: z.number(),
+  category: z.string().nullable(),
+  spec: z.string().nullable(),
+  voltage: z.number().nullable()
+});
+
+export const facetCountSchema = z.object({
+  value: z.string(),
+  count: z.number()
+});
+
+export const facetsSchema = z.object({
+  source: z.array(facetCountSchema),
+  doc_type: z.array(facetCountSchema),
+  chapter: z.array(facetCountSchema),
+  tag: z.array(facetCountSchema)
+});
+
+export const searchResponseSchema = z.object({
+  success: z.literal(true),
+  query: z.string(),
+  data: z.array(retrievedChunkSchema),
+  mode: searchModeSchema,
+  rewritten_query: z.string().nullable(),
+  reranker: z.string().nullable(),
+  rerank_error: z.string().nullable(),
+  embedding_dimension: z.number().nullable(),
+  // 正規化後的查詢，供除錯
+  text_normalization: textNormalizationSchema,
+  // 詞彙表沒有命中或未啟用時為 null
+  query_expansion: queryExpansionSchema.nullable(),
+  // 實際套用的查詢規格
+  quantities: z.array(queryQuantitySchema),
+  // 符合電壓、導體與截面積的材料；查詢失敗時為 null
+  materials: z.array(matchedMaterialSchema).nullable(),
+  // 篩選範圍內各維度的 chunk 數；統計失敗時為 null，不影響搜尋結果
+  facets: facetsSchema.nullable()
+});
+
+export const answerRequestSchema = refineFilterRanges(
+  z.object({
+    ...searchRequestFields,
+    chunk_ids: z.array(idSchema).optional(),
+    match_count: z.number().int().min(1).max(20).default(5),
+    stream: z.boolean().default(false)
+  })
+);
+
+export const answerResponseSchema = z.object({
+  success: z.literal(true),
+  query: z.string(),
+  data: z.object({
+    answer: z.string(),
+    citations: z.array(citationSchema),
+    model: z.string().nullable()
+  })
+});
+
+// 串流回答（SSE）各事件的 data
+export const answerStreamEventSchemas = {
+  token: z.object({ content: z.string() }),
+  citation: z.object({ citation: citationSchema }),
+  done: answerResponseSchema.shape.data,
+  error: z.object({ error: z.string(), code: z.enum(RAG_ERROR_CODES) })
+};
+
+// ---------------------------------------------------------------------------
+// 內容維護
+// ---------------------------------------------------------------------------
+
+export const updateRequestSchema = z.object({
+  id: idSchema,
+  content: nonEmptyString,
+  regenerate_embedding: z.boolean().default(true),
+  editor: z.string().optional()
+});
+
+export const updateResponseSchema = z.object({
+  success: z.literal(true),
+  data: chunkSchema.pick({
+    id: true,
+    source: true,
+    content: true,
+    doc_type: true
+  }),
+  embedding_regenerated: z.boolean(),
+  // 內容寫入前套用的正規化規則
+  normalization_rules: z.array(normalizationRuleSchema)
+});
+
+export const chunkListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20),
+  source: z.string().optional(),
+  doc_type: z.string().optional()
+});
+
+export const chunkListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(chunkSchema),
+  total: z.number(),
+  page: z.number(),
+  page_size: z.number()
+});
+
+export const chunkContextQuerySchema = z.object({
+  source: nonEmptyString,
+  chunk_idx: z.coerce.number().int().min(0),
+  before: z.coerce.number().int().min(0).max(10).default(2),
+  after: z.coerce.number().int().min(0).max(10).default(2)
+});
+
+export const chunkContextResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    hit: chunkSchema,
+    before: z.array(chunkSchema),
+    after: z.array(chunkSchema),
+    // 不屬於任何條文（沒有條號）時為 null
+    article: z
+      .object({ article_no: z.string(), chunks: z.array(chunkSchema) })
+      .nullable()
+  })
+});
+
+export const chunkCreateRequestSchema = z.object({
+  content: nonEmptyString,
+  source: nonEmptyString,
+  doc_type: z.string().trim().nullish(),
+  article_no: z.string().trim().nullish(),
+  chunk_idx: z.number().int().min(0).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  tags: z.array(nonEmptyString).optional(),
+  effective_date: z.iso.date().optional()
+});
+
+// 路徑參數的 chunk id：regulations.id 為整數或 uuid，其他格式直接拒絕而不送進資料庫
+export const chunkIdSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i,
+    'chunk id 格式錯誤'
+  );
+
+export const chunkResponseSchema = z.object({
+  success: z.literal(true),
+  data: chunkSchema
+});
+
+export const chunkDeleteResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({ id: z.string(), undo_until: z.string() }),
+  undo_window_ms: z.number()
+});
+
+// 標籤以逗號分隔，例如「室內配線, 接地」
+const tagListSchema = z
+  .string()
+  .optional()
+  .transform((value) =>
+    Array.from(
+      new Set(
+        (value ?? '')
+          .split(/[,，、]/)
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      )
+    )
+  );
+
+export const ingestFormSchema = z.object({
+  source: z.string().trim().optional(),
+  doc_type: z.string().trim().optional(),
+  tags: tagListSchema,
+  effective_date: z.union([z.iso.date(), z.literal('')]).optional(),
+  replace: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true')
+});
+
+export const ingestResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    source: z.string(),
+    doc_type: z.string().nullable(),
+    format: z.string(),
+    chunk_count: z.number(),
+    article_count: z.number(),
+    inserted: z.number(),
+    replaced: z.boolean(),
+    // 切塊前套用於全文的正規化規則
+    normalization_rules: z.array(normalizationRuleSchema)
+  })
+});
+
+// ---------------------------------------------------------------------------
+// 來源瀏覽
+// ---------------------------------------------------------------------------
+
+export const sourceSummarySchema = z.object({
+  source: z.string(),
+  doc_types: z.array(z.string()),
+  chunk_count: z.number(),
+  article_count: z.number(),
+  updated_at: z.string()
+});
+
+export const sourceListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(sourceSummarySchema)
+});
+
+export const sourceDocumentQuerySchema = z.object({
+  source: nonEmptyString
+});
+
+export const sourceDocumentResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    source: z.string(),
+    chunks: z.array(chunkSchema)
+  })
+});
+
+// ---------------------------------------------------------------------------
+// 修訂紀錄
+// ---------------------------------------------------------------------------
+
+export const revisionSchema = z.object({
+  id: z.number(),
+  regulation_id: z.string(),
+  content: z.string(),
+  editor: z.string().nullable(),
+  action: z.enum(['update', 'restore']),
+  created_at: z.string()
+});
+
+export const revisionListQuerySchema = z.object({
+  regulation_id: nonEmptyString
+});
+
+export const revisionListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(revisionSchema)
+});
+
+export const restoreRequestSchema = z.object({
+  revision_id: z.coerce.number().int().positive(),
+  editor: z.string().optional()
+});
+
+export const restoreResponseSchema = updateResponseSchema
+  .omit({ embedding_regenerated: true, normalization_rules: true })
+  .extend({ restored_from: z.number() });
+
+// ---------------------------------------------------------------------------
+// Embedding 模型
+// ---------------------------------------------------------------------------
+
+export const embeddingStatSchema = z.object({
+  embedding_model: z.string().nullable(),
+  embedding_dim: z.number().nullable(),
+  chunk_count: z.number()
+});
+
+export const embeddingStatusResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    provider: z.string(),
+    model: z.string(),
+    dimension: z.number(),
+    stats: z.array(embeddingStatSchema)
+  })
+});
+
+export const reembedRequestSchema = z.object({
+  model: nonEmptyString,
+  // 目標模型的向量維度；未指定時以模型實際輸出判斷
+  dimension: z.number().int().positive().optional(),
+  batch_size: z.number().int().min(1).max(128).default(32)
+});
+
+export const reembedResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    model: z.string(),
+    dimension: z.number(),
+    processed: z.number(),
+    remaining: z.number(),
+    // 全部 chunk 數，前端以 total - remaining 顯示累計進度
+    total: z.number(),
+    done: z.boolean()
+  })
+});
+
+// ---------------------------------------------------------------------------
+// 搜尋分析
+// ---------------------------------------------------------------------------
+
+// 前端以使用者時區的日界線換算成 ISO 時間
+const dateRangeFields = {
+  from: z.iso.datetime({ offset: true }),
+  to: z.iso.datetime({ offset: true })
+};
+
+const isValidRange = (q: { from: string; to: string }) =>
+  new Date(q.from) < new Date(q.to);
+const invalidRange = { message: '起始時間必須早於結束時間', path: ['to'] };
+
+export const analyticsQuerySchema = z
+  .object({
+    ...dateRangeFields,
+    low_similarity: z.coerce.number().min(0).max(1).default(0.5),
+    limit: z.coerce.number().int().min(1).max(100).default(20)
+  })
+  .refine(isValidRange, invalidRange);
+
+export const analyticsExportQuerySchema = z
+  .object(dateRangeFields)
+  .refine(isValidRange, invalidRange);
+
+export const searchLogSummarySchema = z.object({
+  total_searches: z.number(),
+  unique_queries: z.number(),
+  zero_result_count: z.number(),
+  low_similarity_count: z.number(),
+  error_count: z.number(),
+  avg_latency_ms: z.number().nullable(),
+  p50_latency_ms: z.number().nullable(),
+  p90_latency_ms: z.number().nullable(),
+  p99_latency_ms: z.number().nullable()
+});
+
+export const queryStatSchema = z.object({
+  query: z.string(),
+  search_count: z.number(),
+  avg_result_count: z.number(),
+  avg_top_similarity: z.number().nullable(),
+  avg_latency_ms: z.number(),
+  last_searched_at: z.string()
+});
+
+// 各組織的搜尋次數；org 為 null 表示未設定組織的紀錄
+export const organizationStatSchema = z.object({
+  org: z.string().nullable(),
+  search_count: z.number()
+});
+
+export const analyticsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    summary: searchLogSummarySchema,
+    top_queries: z.array(queryStatSchema),
+    zero_result_queries: z.array(queryStatSchema),
+    low_similarity_queries: z.array(queryStatSchema),
+    organizations: z.array(organizationStatSchema)
+  })
+});
+
+// ---------------------------------------------------------------------------
+// 相關性回饋
+// ---------------------------------------------------------------------------
+
+export const feedbackRatingSchema = z.enum(['up', 'down', 'wrong_citation']);
+export const feedbackTargetSchema = z.enum(['result', 'answer']);
+
+export const feedbackCreateRequestSchema = z
+  .object({
+    query: nonEmptyString,
+    // 對整個回答的讚／倒讚沒有對應的 chunk
+    regulation_id: idSchema.nullish(),
+    target: feedbackTargetSchema,
+    rating: feedbackRatingSchema,
+    comment: z.string().trim().max(500).optional()
+  })
+  .refine((f) => f.target === 'answer' || !!f.regulation_id, {
+    message: '搜尋結果的回饋必須指定 chunk',
+    path: ['regulation_id']
+  })
+  .refine((f) => f.rating !== 'wrong_citation' || !!f.regulation_id, {
+    message: '引用錯誤必須指定被引用的 chunk',
+    path: ['regulation_id']
+  });
+
+export const feedbackSchema = z.object({
+  id: z.number(),
+  query: z.string(),
+  regulation_id: z.string().nullable(),
+  target: feedbackTargetSchema,
+  rating: feedbackRatingSchema,
+  comment: z.string().nullable(),
+  user_name: z.string().nullable(),
+  resolved_at: z.string().nullable(),
+  resolved_by: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const feedbackIdSchema = z.coerce.number().int().positive();
+
+export const feedbackResponseSchema = z.object({
+  success: z.literal(true),
+  data: feedbackSchema
+});
+
+export const feedbackListQuerySchema = z.object({
+  status: z.enum(['open', 'resolved']).default('open'),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export const feedbackListResponseSchema = z.object({
+  success: z.literal(true),
+  // 審核佇列只包含負面回饋，並附上目前的 chunk 內容（已刪除時為 null）
+  data: z.array(feedbackSchema.extend({ chunk: chunkSchema.nullable() })),
+  total: z.number(),
+  page: z.number(),
+  page_size: z.number()
+});
+
+// ---------------------------------------------------------------------------
+// 詞彙表
+// ---------------------------------------------------------------------------
+
+export const glossaryTermSchema = z.object({
+  id: z.number(),
+  preferred: z.string(),
+  synonyms: z.array(z.string()),
+  description: z.string().nullable(),
+  updated_by: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export const glossaryTermRequestSchema = z.object({
+  preferred: nonEmptyString,
+  synonyms: z.array(z.string().trim().max(100)).max(50).default([]),
+  description: z.string().trim().max(500).nullish()
+});
+
+export const glossaryIdSchema = z.coerce.number().int().positive();
+
+export const glossaryTermResponseSchema = z.object({
+  success: z.literal(true),
+  data: glossaryTermSchema
+});
+
+export const glossaryListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(glossaryTermSchema)
+});
+
+export const glossaryDeleteResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({ id: z.number() })
+});
+
+export const glossaryPreviewQuerySchema = z.object({
+  query: nonEmptyString
+});
+
+export const glossaryPreviewResponseSchema = z.object({
+  success: z.literal(true),
+  data: queryExpansionSchema
+});
+
+// ---------------------------------------------------------------------------
+// 驗證
+// ---------------------------------------------------------------------------
+
+export const loginRequestSchema = z.object({
+  api_key: nonEmptyString
+});
+
+export const sessionSchema = z.object({
+  mode: z.enum(['local', 'off']),
+  user: z.string().nullable(),
+  role: z.string().nullable(),
+  can_edit: z.boolean(),
+  public_search: z.boolean()
+});
+
+export const loginResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    user: z.string(),
+    role: z.string(),
+    can_edit: z.boolean()
+  })
+});
+
+export const sessionResponseSchema = z.object({
+  success: z.literal(true),
+  data: sessionSchema
+});
+
+export const logoutResponseSchema = z.object({
+  success: z.literal(true)
+});
+
+export type SearchMode = z.infer<typeof searchModeSchema>;
+export type Retriever = z.infer<typeof retrieverSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type SearchResult = z.infer<typeof searchResultSchema>;
+export type Citation = z.infer<typeof citationSchema>;
+export type Revision = z.infer<typeof revisionSchema>;
+export type EmbeddingStatus = EmbeddingStatusResponse['data'];
+export type Session = z.infer<typeof sessionSchema>;
+export type SearchRequest = z.input<typeof searchRequestSchema>;
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+export type Facets = z.infer<typeof facetsSchema>;
+export type AnswerRequest = z.input<typeof answerRequestSchema>;
+export type AnswerResponse = z.infer<typeof answerResponseSchema>;
+export type UpdateRequest = z.input<typeof updateRequestSchema>;
+export type UpdateResponse = z.infer<typeof updateResponseSchema>;
+export type ChunkListQuery = z.input<typeof chunkListQuerySchema>;
+export type ChunkListResponse = z.infer<typeof chunkListResponseSchema>;
+export type ChunkContextQuery = z.input<typeof chunkContextQuerySchema>;
+export type ChunkContextResponse = z.infer<typeof chunkContextResponseSchema>;
+export type ChunkCreateRequest = z.input<typeof chunkCreateRequestSchema>;
+export type ChunkResponse = z.infer<typeof chunkResponseSchema>;
+export type ChunkDeleteResponse = z.infer<typeof chunkDeleteResponseSchema>;
+export interface IngestRequest {
+  file: File;
+  source?: string;
+  doc_type?: string;
+  /** 逗號分隔的標籤 */
+  tags?: string;
+  effective_date?: string;
+  replace?: boolean;
+}
+export type IngestResponse = z.infer<typeof ingestResponseSchema>;
+export type SourceSummary = z.infer<typeof sourceSummarySchema>;
+export type SourceListResponse = z.infer<typeof sourceListResponseSchema>;
+export type SourceDocumentResponse = z.infer<
+  typeof sourceDocumentResponseSchema
+>;
+export type RevisionListResponse = z.infer<typeof revisionListResponseSchema>;
+export type RestoreRequest = z.input<typeof restoreRequestSchema>;
+export type RestoreResponse = z.infer<typeof restoreResponseSchema>;
+export type EmbeddingStatusResponse = z.infer<
+  typeof embeddingStatusResponseSchema
+>;
+export type ReembedRequest = z.input<typeof reembedRequestSchema>;
+export type ReembedResponse = z.infer<typeof reembedResponseSchema>;
+export type AnalyticsQuery = z.input<typeof analyticsQuerySchema>;
+export type AnalyticsExportQuery = z.input<typeof analyticsExportQuerySchema>;
+export type SearchLogSummary = z.infer<typeof searchLogSummarySchema>;
+export type QueryStat = z.infer<typeof queryStatSchema>;
+export type OrganizationStat = z.infer<typeof organizationStatSchema>;
+export type AnalyticsResponse = z.infer<typeof analyticsResponseSchema>;
+export type FeedbackRating = z.infer<typeof feedbackRatingSchema>;
+export type FeedbackCreateRequest = z.input<typeof feedbackCreateRequestSchema>;
+export type FeedbackResponse = z.infer<typeof feedbackResponseSchema>;
+export type FeedbackListQuery = z.input<typeof feedbackListQuerySchema>;
+export type FeedbackListResponse = z.infer<typeof feedbackListResponseSchema>;
+export type QueryQuantity = z.infer<typeof queryQuantitySchema>;
+export type MatchedMaterial = z.infer<typeof matchedMaterialSchema>;
+export type NormalizationRule = z.infer<typeof normalizationRuleSchema>;
+export type TextNormalization = z.infer<typeof textNormalizationSchema>;
+export type QueryExpansion = z.infer<typeof queryExpansionSchema>;
+export type GlossaryTermRequest = z.input<typeof glossaryTermRequestSchema>;
+export type GlossaryTermResponse = z.infer<typeof glossaryTermResponseSchema>;
+export type GlossaryListResponse = z.infer<typeof glossaryListResponseSchema>;
+export type GlossaryDeleteResponse = z.infer<
+  typeof glossaryDeleteResponseSchema
+>;
+export type GlossaryPreviewResponse = z.infer<
+  typeof glossaryPreviewResponseSchema
+>;
+export type LoginRequest = z.input<typeof loginRequestSchema>;
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+export type SessionResponse = z.infer<typeof sessionResponseSchema>;
@@ -0,0 +1,231 @@
+/**
+ * 法規搜尋流程 - 檢索、融合、重新排序
+ *
+ * /api/rag/search 與 /api/rag/answer 共用
+ */
+
+import {
+  keywordSearch,
+  rankingScore,
+  reciprocalRankFusion,
+  vectorSearch,
+  type RetrievalFilters,
+  type RetrievedChunk,
+  type SearchMode
+} from './retrieval';
+import { embedText, getEmbeddingConfig } from './embedding';
+import { assertEmbeddingModelMatches } from './embedding-stats';
+import { getFeedbackScores, getFeedbackWeight } from './feedback';
+import { expandWithGlossary } from './glossary';
+import { normalizeText } from './normalize';
+import { countQuantityMatches, parseQuantities } from './query-parser';
+import { getReranker, rerankChunks } from './rerank';
+import { rewriteQuery } from './rewrite';
+import type { ChatMessage } from './generate';
+import type {
+  QueryExpansion,
+  QueryQuantity,
+  TextNormalization
+} from './schemas';
+
+// 混合模式下每個檢索器取回的候選倍數
+const CANDIDATE_MULTIPLIER = 3;
+// 啟用 rerank 時預設送進 reranker 的候選數
+const DEFAULT_RERANK_TOP_N = 20;
+// 每提及一項查詢規格，排序分數增加的比例
+const QUANTITY_BOOST = 0.15;
+
+export interface SearchOptions extends RetrievalFilters {
+  query: string;
+  match_count?: number;
+  match_threshold?: number;
+  mode?: SearchMode;
+  rerank?: boolean;
+  rerank_top_n?: number;
+  /** 依使用者回饋調整排序 */
+  feedback_boost?: boolean;
+  /** 以詞彙表改寫查詢（預設啟用） */
+  glossary?: boolean;
+  /** 要套用的查詢規格；未提供時解析查詢 */
+  quantities?: QueryQuantity[];
+  /** 多輪對話歷史；有值時先將 query 改寫為獨立問題 */
+  history?: ChatMessage[];
+}
+
+export interface SearchOutcome {
+  data: RetrievedChunk[];
+  mode: SearchMode;
+  /** 依歷史改寫後實際用於檢索的問題（未改寫時為 null） */
+  rewritten_query: string | null;
+  /** 簡繁、全半形、單位與空白正規化的結果 */
+  text_normalization: TextNormalization;
+  /** 詞彙表改寫結果（沒有命中或未啟用時為 null） */
+  query_expansion: QueryExpansion | null;
+  /** 用於加權排序的查詢規格 */
+  quantities: QueryQuantity[];
+  reranker: string | null;
+  rerank_error: string | null;
+  embedding_dimension: number | null;
+}
+
+/**
+ * 規格與回饋加權一次計算後重新排序：
+ * 分數 = 排序分數 × (1 + 規格權重 × 提及數) × (1 + 回饋權重 × 淨評價)
+ */
+function applyRankingBoosts(
+  chunks: RetrievedChunk[],
+  quantities: QueryQuantity[],
+  feedbackScores: Map<string, number> | null
+): RetrievedChunk[] {
+  const feedbackWeight = feedbackScores ? getFeedbackWeight() : 0;
+
+  return chunks
+    .map((chunk, index) => {
+      const matches = countQuantityMatches(chunk.content, quantities);
+      const feedback = feedbackScores?.get(String(chunk.id));
+      return {
+        chunk: {
+          ...chunk,
+          ...(matches > 0 && { quantity_matches: matches }),
+          ...(feedback !== undefined && { feedback_score: feedback })
+        },
+        index,
+        score:
+          rankingScore(chunk) *
+          (1 + QUANTITY_BOOST * matches) *
+          (1 + feedbackWeight * (feedback ?? 0))
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ chunk }) => chunk);
+}
+
+/**
+ * 執行完整搜尋流程
+ */
+export async function searchRegulations(
+  options: SearchOptions
+): Promise<SearchOutcome> {
+  const {
+    query,
+    match_count = 5,
+    match_threshold = 0,
+    mode = 'hybrid',
+    rerank = false,
+    rerank_top_n = DEFAULT_RERANK_TOP_N,
+    feedback_boost = false,
+    glossary = true,
+    quantities,
+    history = [],
+    ...filters
+  } = options;
+
+  let rewritten: string | null = null;
+  if (history.length > 0) {
+    try {
+      rewritten = await rewriteQuery(query, history);
+    } catch (err) {
+      // 改寫失敗時仍以原問題檢索
+      console.error('追問改寫錯誤:', err);
+    }
+  }
+  // 與匯入時相同的正規化，再套用詞彙表
+  const original = rewritten || query;
+  const normalized = normalizeText(original);
+  const expansion = glossary ? await expandWithGlossary(normalized.text) : null;
+  const queryExpansion = expansion?.applied.length ? expansion : null;
+  const searchQuery = queryExpansion?.normalized_query || normalized.text;
+  const appliedQuantities = quantities ?? parseQuantities(normalized.text);
+
+  const matchCount = Number(match_count);
+  // 啟用 rerank 時先取較多候選，重新評分後再截成 match_count
+  const resultCount = rerank
+    ? Math.max(Number(rerank_top_n), matchCount)
+    : matchCount;
+  // 加權可能讓 match_count 之外的候選排進結果，因此同樣多取候選
+  const boosting = appliedQuantities.length > 0 || feedback_boost;
+  const candidateCount =
+    mode === 'hybrid' || boosting
+      ? resultCount * CANDIDATE_MULTIPLIER
+      : resultCount;
+
+  let embedding: number[] | null = null;
+  let vectorHits: RetrievedChunk[] = [];
+  let keywordHits: RetrievedChunk[] = [];
+
+  if (mode !== 'keyword') {
+    // 資料庫向量與查詢模型不一致時，相似度沒有意義
+    await assertEmbeddingModelMatches(getEmbeddingConfig());
+
+    // 生成 embedding 向量
+    embedding = await embedText(searchQuery);
+    vectorHits = await vectorSearch(
+      embedding,
+      candidateCount,
+      Number(match_threshold),
+      filters
+    );
+  }
+
+  if (mode !== 'vector') {
+    keywordHits = await keywordSearch(
+      searchQuery,
+      candidateCount,
+      filters,
+      queryExpansion?.keyword_terms
+    );
+  }
+
+  let data: RetrievedChunk[];
+  if (mode === 'hybrid') {
+    data = reciprocalRankFusion([vectorHits, keywordHits]);
+  } else {
+    data = mode === 'vector' ? vectorHits : keywordHits;
+  }
+
+  let rerankerName: string | null = null;
+  let rerankError: string | null = null;
+
+  if (rerank) {
+    // 只有送進 reranker 的候選有 rerank 分數，加權也只在這些候選之間排序
+    data = data.slice(0, resultCount);
+    const reranker = getReranker();
+    try {
+      data = await rerankChunks(searchQuery, data, reranker);
+      rerankerName = reranker.name;
+    } catch (err) {
+      // reranker 無法使用時保留原排序，不讓整個搜尋失敗
+      console.error('Rerank 錯誤:', err);
+      rerankError = err instanceof Error ? err.message : '未知錯誤';
+    }
+  }
+
+  if (boosting && data.length > 0) {
+    let feedbackScores: Map<string, number> | null = null;
+    if (feedback_boost) {
+      try {
+        feedbackScores = await getFeedbackScores(data.map((c) => String(c.id)));
+      } catch (err) {
+        // 回饋統計無法讀取時只套用規格加權
+        console.error('回饋加權錯誤:', err);
+      }
+    }
+    data = applyRankingBoosts(data, appliedQuantities, feedbackScores);
+  }
+
+  return {
+    data: data.slice(0, matchCount),
+    mode,
+    rewritten_query: rewritten,
+    text_normalization: {
+      original,
+      normalized: normalized.text,
+      rules: normalized.rules
+    },
+    query_expansion: queryExpansion,
+    quantities: appliedQuantities,
+    reranker: rerankerName,
+    rerank_error: rerankError,
+    embedding_dimension: embedding?.length ?? null
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * 法規來源瀏覽 - 來源清單與依 chunk_idx 重組的整份文件
+ *
+ * 僅供伺服器端（API Route）使用
+ */
+
+import { getSupabase } from './db';
+import { DatabaseError } from './errors';
+
+// Supabase REST 單次最多回傳的筆數
+const PAGE_SIZE = 1000;
+
+const DOCUMENT_COLUMNS =
+  'id, content, source, article_no, chunk_idx, doc_type, metadata, created_at';
+
+export class SourceNotFoundError extends Error {
+  constructor(source: string) {
+    super(`找不到法規來源: ${source}`);
+    this.name = 'SourceNotFoundError';
+  }
+}
+
+/**
+ * 所有來源及其 chunk 數、條文數與最後更新時間
+ */
+export async function listSources() {
+  const supabase = await getSupabase();
+  const { data, error } = await supabase.rpc('regulation_sources');
+
+  if (error) throw new DatabaseError(`讀取來源清單失敗: ${error.message}`);
+
+  return ((data || []) as Record<string, unknown>[]).map((row) => ({
+    source: String(row.source),
+    doc_types: (row.doc_types as string[] | null) ?? [],
+    chunk_count: Number(row.chunk_count),
+    article_count: Number(row.article_count),
+    updated_at: String(row.updated_at)
+  }));
+}
+
+/**
+ * 依 chunk_idx 順序讀出同一來源的所有 chunk（分批讀取，不含向量）
+ */
+export async function getSourceDocument(source: string) {
+  const supabase = await getSupabase();
+  const chunks = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('regulations')
+      .select(DOCUMENT_COLUMNS)
+      .eq('source', source)
+      .order('chunk_idx', { ascending: true })
+      // chunk_idx 可能重複，以 id 固定順序，分批時才不會重複或遺漏
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new DatabaseError(`讀取文件失敗: ${error.message}`);
+    chunks.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  if (chunks.length === 0) throw new SourceNotFoundError(source);
+  return { source, chunks };
+}
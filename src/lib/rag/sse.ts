@@ -0,0 +1,61 @@
+/**
+ * Server-Sent Events 編碼與解析
+ *
+ * 伺服器端以 encodeEvent 輸出，瀏覽器端以 readEventStream 讀取 fetch 回應
+ */
+
+export interface StreamEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * 編碼單一 SSE 事件
+ */
+export function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive'
+};
+
+/**
+ * 逐一讀取 fetch 回應中的 SSE 事件
+ */
+export async function* readEventStream(
+  response: Response
+): AsyncGenerator<StreamEvent> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        let event = 'message';
+        let data = '';
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        if (data) yield { event, data: JSON.parse(data) };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
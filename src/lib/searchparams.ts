@@ -4,13 +4,17 @@ import {
   parseAsInteger,
   parseAsString
 } from 'nuqs/server';
+import { getSortingStateParser } from '@/lib/parsers';
 
 export const searchParams = {
   page: parseAsInteger.withDefault(1),
   perPage: parseAsInteger.withDefault(10),
   name: parseAsString,
   gender: parseAsString,
-  category: parseAsString
+  category: parseAsString,
+  voltage: parseAsString,
+  price: parseAsString,
+  sort: getSortingStateParser().withDefault([])
   // advanced filter
   // filters: getFiltersStateParser().withDefault([]),
   // joinOperator: parseAsStringEnum(['and', 'or']).withDefault('and')
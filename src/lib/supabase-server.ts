@@ -0,0 +1,33 @@
+/**
+ * Supabase 伺服器端 Client - 使用 service role key，不受 RLS 限制
+ *
+ * 法規、修訂紀錄、回饋、詞彙表與單價資料表都啟用了 RLS，只能經由這個 client 寫入
+ * 僅供伺服器端（API Route、Server Component）使用，前端請改用 @/lib/supabase；
+ * RAG 資料存取模組經由 @/lib/rag/db 取得這個 client
+ *
+ * 使用方式：
+ *   import { supabase } from '@/lib/supabase-server'
+ */
+
+import 'server-only';
+
+import { createClient } from '@supabase/supabase-js';
+import { supabaseUrl } from '@/lib/supabase';
+
+export { supabaseUrl };
+
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// 沒有 service role key 時所有資料表都無法存取，啟動時直接失敗而不是等到第一次查詢
+if (!serviceKey) {
+  throw new Error('未設定 SUPABASE_SERVICE_ROLE_KEY，伺服器端無法存取資料庫');
+}
+
+export const supabaseServiceKey: string = serviceKey;
+
+export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
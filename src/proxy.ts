@@ -1,26 +1,115 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { errorJson } from '@/lib/rag/errors';
+import {
+  authenticate,
+  canEdit,
+  getAuthConfig,
+  isEditorOnlyRequest,
+  isIdentifiedOnlyRequest,
+  isReadOnlyRequest,
+  ORG_HEADER,
+  ROLE_HEADER,
+  SESSION_COOKIE,
+  USER_HEADER
+} from '@/lib/rag/auth';
 
-// RAG 相關路由完全跳過 Clerk（不連外網）
+// RAG 相關路由完全跳過 Clerk（不連外網），改用本地驗證
 const isLocalOnlyRoute = createRouteMatcher([
   '/dashboard/rag(.*)',
   '/api/rag(.*)'
 ]);
 
+// RAG 登入相關路由不需驗證
+const isRagAuthRoute = createRouteMatcher([
+  '/dashboard/rag/login',
+  '/api/rag/auth(.*)'
+]);
+
 // 公開路由
 const isPublicRoute = createRouteMatcher(['/', '/auth(.*)']);
 
 const isProtectedRoute = createRouteMatcher(['/dashboard(.*)']);
 
+// 與 dashboard 頁面相同以 Clerk 驗證的 API
+const isProtectedApiRoute = createRouteMatcher(['/api/materials(.*)']);
+
+/**
+ * RAG 路由的本地驗證：API key 或簽章 session cookie
+ *
+ * 驗證通過後把使用者名稱與角色放進 request header 轉給 API Route
+ */
+async function handleRagRoute(req: NextRequest) {
+  const config = getAuthConfig();
+  const headers = new Headers(req.headers);
+
+  // 不接受外部直接帶入的身分 header
+  headers.delete(USER_HEADER);
+  headers.delete(ROLE_HEADER);
+  headers.delete(ORG_HEADER);
+
+  if (config.org) headers.set(ORG_HEADER, encodeURIComponent(config.org));
+
+  if (config.mode === 'off' || isRagAuthRoute(req)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const user = await authenticate(
+    req.headers,
+    req.cookies.get(SESSION_COOKIE)?.value
+  );
+  const isApi = req.nextUrl.pathname.startsWith('/api/');
+  const readOnly =
+    !isApi || isReadOnlyRequest(req.method, req.nextUrl.pathname);
+  const anonymousAllowed =
+    readOnly &&
+    config.publicSearch &&
+    !isIdentifiedOnlyRequest(req.method, req.nextUrl.pathname);
+
+  if (!user && !anonymousAllowed) {
+    if (!isApi) {
+      const loginUrl = new URL('/dashboard/rag/login', req.url);
+      loginUrl.searchParams.set('next', req.nextUrl.pathname);
+      return NextResponse.redirect(loginUrl);
+    }
+    return errorJson('UNAUTHORIZED', '請先登入或提供 API key');
+  }
+
+  if (!readOnly && !canEdit(user, config)) {
+    return errorJson('FORBIDDEN', '沒有修改法規資料的權限');
+  }
+
+  if (
+    isEditorOnlyRequest(req.method, req.nextUrl.pathname) &&
+    !canEdit(user, config)
+  ) {
+    return errorJson('FORBIDDEN', '沒有檢視此資料的權限');
+  }
+
+  if (user) {
+    headers.set(USER_HEADER, encodeURIComponent(user.name));
+    headers.set(ROLE_HEADER, user.role);
+  }
+
+  return NextResponse.next({ request: { headers } });
+}
+
 export default clerkMiddleware(async (auth, req: NextRequest) => {
-  // RAG 路由完全跳過，不經過 Clerk
+  // RAG 路由不經過 Clerk
   if (isLocalOnlyRoute(req)) {
-    return NextResponse.next();
+    return handleRagRoute(req);
   }
 
   // 公開路由不需要認證
   if (isPublicRoute(req)) return;
 
+  // API 未登入時回傳統一的錯誤格式，而不是導向登入頁
+  if (isProtectedApiRoute(req)) {
+    const { userId } = await auth();
+    if (!userId) return errorJson('UNAUTHORIZED', '請先登入');
+    return;
+  }
+
   // 其他 dashboard 路由需要認證
   if (isProtectedRoute(req)) await auth.protect();
 });
@@ -8,6 +8,10 @@
 import { create } from 'zustand';
 import { supabase, Document, Regulation } from '@/lib/supabase';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import { ragClient } from '@/lib/rag/client';
+import { getErrorMessage } from '@/features/rag/utils/api-error';
+import { toSearchResults } from '@/features/rag/utils/search-results';
+import type { SearchResult } from '@/types/rag';
 
 interface RagState {
   // 狀態
@@ -18,7 +22,7 @@ interface RagState {
   error: string | null;
 
   // 查詢結果
-  searchResults: Document[];
+  searchResults: SearchResult[];
   lastQuery: string | null;
 
   // Actions
@@ -82,18 +86,10 @@ export const useRagStore = create<RagState>((set, get) => ({
     set({ isLoading: true, error: null, lastQuery: query });
     try {
       // 呼叫後端 API 進行向量搜尋
-      const response = await fetch('/api/rag/search', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query, limit })
-      });
-
-      if (!response.ok) throw new Error('搜尋失敗');
-
-      const { results } = await response.json();
-      set({ searchResults: results, isLoading: false });
+      const { data } = await ragClient.search({ query, match_count: limit });
+      set({ searchResults: toSearchResults(data), isLoading: false });
     } catch (err) {
-      set({ error: (err as Error).message, isLoading: false });
+      set({ error: getErrorMessage(err, '搜尋失敗'), isLoading: false });
     }
   },
 
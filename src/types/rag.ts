@@ -0,0 +1,14 @@
+/**
+ * RAG 知識庫前端共用型別
+ *
+ * 皆由 @/lib/rag/schemas 的 zod schema 推導，與 API 回應保持一致
+ */
+
+export type {
+  ChatMessage,
+  Citation as AnswerCitation,
+  Retriever,
+  SearchMode,
+  SearchResult,
+  Session as RagSession
+} from '@/lib/rag/schemas';
@@ -0,0 +1,6 @@
+-- 法規 chunk 結構資訊：所屬章、節與條文段次（由 article-chunker 產生）
+alter table public.regulations
+  add column if not exists metadata jsonb not null default '{}'::jsonb;
+
+create index if not exists regulations_source_chunk_idx
+  on public.regulations (source, chunk_idx);
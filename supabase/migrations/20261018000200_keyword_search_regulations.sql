@@ -0,0 +1,50 @@
+-- 關鍵字檢索：以 pg_trgm 加速 ILIKE 子字串比對，補足向量搜尋對條號、規格的盲點
+create extension if not exists pg_trgm;
+
+create index if not exists regulations_content_trgm_idx
+  on public.regulations using gin (content gin_trgm_ops);
+
+create index if not exists regulations_article_no_idx
+  on public.regulations (article_no);
+
+-- query_terms 由 API 端拆詞並跳脫 % _ \
+-- keyword_score：命中詞數／總詞數，條號完全相符再加權一次
+create or replace function public.keyword_search_regulations(
+  query_terms text[],
+  match_count int default 10,
+  filter_doc_type text default null
+)
+returns table (
+  id public.regulations.id%type,
+  content text,
+  source text,
+  article_no text,
+  chunk_idx int,
+  doc_type text,
+  keyword_score float
+)
+language sql stable
+as $$
+  select
+    r.id,
+    r.content,
+    r.source,
+    r.article_no,
+    r.chunk_idx,
+    r.doc_type,
+    (
+      select
+        count(*) filter (where r.content ilike '%' || t || '%')
+        + count(*) filter (where r.article_no = t)
+      from unnest(query_terms) as t
+    )::float / greatest(cardinality(query_terms), 1) as keyword_score
+  from public.regulations r
+  where (filter_doc_type is null or r.doc_type = filter_doc_type)
+    and exists (
+      select 1
+      from unnest(query_terms) as t
+      where r.content ilike '%' || t || '%' or r.article_no = t
+    )
+  order by keyword_score desc, r.source, r.chunk_idx
+  limit match_count;
+$$;
@@ -0,0 +1,30 @@
+-- 記錄每個 chunk 的向量由哪個模型產生，供搜尋時檢查一致性與批次重新生成
+alter table public.regulations
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dim int;
+
+-- 既有資料皆由 bge-m3（1024 維）產生
+update public.regulations
+set embedding_model = 'bge-m3',
+    embedding_dim = 1024
+where embedding is not null
+  and embedding_model is null;
+
+create index if not exists regulations_embedding_model_idx
+  on public.regulations (embedding_model);
+
+-- 各模型的 chunk 數量（僅計算已有向量的 chunk）
+create or replace function public.regulation_embedding_stats()
+returns table (
+  embedding_model text,
+  embedding_dim int,
+  chunk_count bigint
+)
+language sql stable
+as $$
+  select r.embedding_model, r.embedding_dim, count(*) as chunk_count
+  from public.regulations r
+  where r.embedding is not null
+  group by r.embedding_model, r.embedding_dim
+  order by chunk_count desc;
+$$;
@@ -0,0 +1,15 @@
+-- 法規內容修訂紀錄：每次更新前保存舊內容，可比對差異並還原
+create table if not exists public.regulation_revisions (
+  id bigint generated always as identity primary key,
+  regulation_id text not null,
+  -- 本次修改前的內容
+  content text not null,
+  editor text,
+  -- update：編輯對話框儲存；restore：從歷史版本還原
+  action text not null default 'update'
+    check (action in ('update', 'restore')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists regulation_revisions_regulation_idx
+  on public.regulation_revisions (regulation_id, created_at desc);
@@ -0,0 +1,15 @@
+-- 已刪除的法規 chunk：保留完整資料（含向量），在復原期限內可移回 regulations
+create table if not exists public.regulation_trash
+  (like public.regulations including defaults);
+
+alter table public.regulation_trash
+  add column if not exists deleted_at timestamptz not null default now();
+
+alter table public.regulation_trash
+  drop constraint if exists regulation_trash_pkey;
+
+alter table public.regulation_trash
+  add constraint regulation_trash_pkey primary key (id);
+
+create index if not exists regulation_trash_deleted_at_idx
+  on public.regulation_trash (deleted_at);
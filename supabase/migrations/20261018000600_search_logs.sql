@@ -0,0 +1,102 @@
+-- 搜尋紀錄：每次呼叫 /api/rag/search 寫入一筆，供搜尋分析使用
+create table if not exists public.search_logs (
+  id bigint generated always as identity primary key,
+  query text not null,
+  mode text not null,
+  -- doc_type、match_count、rerank 等搜尋條件
+  filters jsonb not null default '{}'::jsonb,
+  result_count int not null default 0,
+  -- 最高向量相似度（純關鍵字搜尋或無結果時為 null）
+  top_similarity double precision,
+  latency_ms int not null,
+  -- 搜尋失敗時的錯誤代碼
+  error_code text,
+  user_name text,
+  user_role text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists search_logs_created_at_idx
+  on public.search_logs (created_at desc);
+
+-- 區間內的搜尋總覽與延遲百分位數
+create or replace function public.search_log_summary(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_low_similarity double precision default 0.5
+)
+returns table (
+  total_searches bigint,
+  unique_queries bigint,
+  zero_result_count bigint,
+  low_similarity_count bigint,
+  error_count bigint,
+  avg_latency_ms double precision,
+  p50_latency_ms double precision,
+  p90_latency_ms double precision,
+  p99_latency_ms double precision
+)
+language sql stable
+as $$
+  select
+    count(*) as total_searches,
+    count(distinct lower(btrim(l.query))) as unique_queries,
+    count(*) filter (
+      where l.error_code is null and l.result_count = 0
+    ) as zero_result_count,
+    count(*) filter (
+      where l.result_count > 0 and l.top_similarity < p_low_similarity
+    ) as low_similarity_count,
+    count(*) filter (where l.error_code is not null) as error_count,
+    avg(l.latency_ms)::double precision as avg_latency_ms,
+    percentile_cont(0.5) within group (order by l.latency_ms) as p50_latency_ms,
+    percentile_cont(0.9) within group (order by l.latency_ms) as p90_latency_ms,
+    percentile_cont(0.99) within group (order by l.latency_ms) as p99_latency_ms
+  from public.search_logs l
+  where l.created_at >= p_from
+    and l.created_at < p_to;
+$$;
+
+-- 區間內依查詢字串彙總（忽略大小寫與前後空白）
+-- p_kind：all 全部、zero_result 無結果、low_similarity 最高相似度低於門檻
+create or replace function public.search_log_queries(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_kind text default 'all',
+  p_low_similarity double precision default 0.5,
+  p_limit int default 20
+)
+returns table (
+  query text,
+  search_count bigint,
+  avg_result_count double precision,
+  avg_top_similarity double precision,
+  avg_latency_ms double precision,
+  last_searched_at timestamptz
+)
+language sql stable
+as $$
+  select
+    (array_agg(btrim(l.query) order by l.created_at desc))[1] as query,
+    count(*) as search_count,
+    avg(l.result_count)::double precision as avg_result_count,
+    avg(l.top_similarity) as avg_top_similarity,
+    avg(l.latency_ms)::double precision as avg_latency_ms,
+    max(l.created_at) as last_searched_at
+  from public.search_logs l
+  where l.created_at >= p_from
+    and l.created_at < p_to
+    and l.error_code is null
+    and (
+      p_kind = 'all'
+      or (p_kind = 'zero_result' and l.result_count = 0)
+      or (
+        p_kind = 'low_similarity'
+        and l.result_count > 0
+        and l.top_similarity < p_low_similarity
+      )
+    )
+  group by lower(btrim(l.query))
+  order by search_count desc, last_searched_at desc
+  limit p_limit;
+$$;
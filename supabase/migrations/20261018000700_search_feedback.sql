@@ -0,0 +1,43 @@
+-- 搜尋結果與回答的相關性回饋，供編輯審核與排序加權
+create table if not exists public.search_feedback (
+  id bigint generated always as identity primary key,
+  query text not null,
+  -- 對整個回答的讚／倒讚沒有對應的 chunk
+  regulation_id text,
+  target text not null check (target in ('result', 'answer')),
+  rating text not null check (rating in ('up', 'down', 'wrong_citation')),
+  comment text,
+  user_name text,
+  -- 編輯處理完畢後標記，不再出現在審核佇列也不再降低排序
+  resolved_at timestamptz,
+  resolved_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists search_feedback_regulation_idx
+  on public.search_feedback (regulation_id);
+
+-- 審核佇列：未處理的負面回饋
+create index if not exists search_feedback_open_idx
+  on public.search_feedback (created_at desc)
+  where resolved_at is null and rating <> 'up';
+
+-- 各 chunk 的回饋統計；已處理的負面回饋不列入
+create or replace function public.regulation_feedback_scores(p_ids text[])
+returns table (
+  regulation_id text,
+  up_count bigint,
+  down_count bigint
+)
+language sql stable
+as $$
+  select
+    f.regulation_id,
+    count(*) filter (where f.rating = 'up') as up_count,
+    count(*) filter (
+      where f.rating <> 'up' and f.resolved_at is null
+    ) as down_count
+  from public.search_feedback f
+  where f.regulation_id = any(p_ids)
+  group by f.regulation_id;
+$$;
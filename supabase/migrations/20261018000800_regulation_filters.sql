@@ -0,0 +1,183 @@
+-- 搜尋篩選：來源、文件類型、條號範圍、章、標籤、施行日期，並提供各維度的分面計數
+--
+-- 章（chapter）由切塊時寫入 metadata；標籤與施行日期於匯入或新增 chunk 時寫入
+-- metadata.tags（字串陣列）與 metadata.effective_date（YYYY-MM-DD）
+--
+-- filters 為 jsonb，未出現的鍵代表不篩選：
+--   sources / doc_types / chapters / tags  字串陣列（任一相符）
+--   article_from / article_to              條號主號範圍（含端點，「第12條之1」視為 12）
+--   effective_from / effective_to          施行日期範圍（含端點）
+
+create index if not exists regulations_source_idx
+  on public.regulations (source);
+
+create index if not exists regulations_chapter_idx
+  on public.regulations ((metadata ->> 'chapter'));
+
+create index if not exists regulations_tags_idx
+  on public.regulations using gin ((metadata -> 'tags'));
+
+-- 條號主號，例如「第12條之1」→ 12；不是條文時為 null
+create or replace function public.regulation_article_num(article_no text)
+returns int
+language sql immutable
+as $$
+  select substring(article_no from '^第([0-9]+)條')::int;
+$$;
+
+create index if not exists regulations_article_num_idx
+  on public.regulations (public.regulation_article_num(article_no));
+
+create or replace function public.jsonb_text_array(value jsonb)
+returns text[]
+language sql immutable
+as $$
+  select coalesce(array(select jsonb_array_elements_text(value)), '{}');
+$$;
+
+create or replace function public.regulation_matches_filters(
+  r public.regulations,
+  filters jsonb
+)
+returns boolean
+language sql stable
+as $$
+  select
+    (not filters ? 'sources'
+      or r.source = any (public.jsonb_text_array(filters -> 'sources')))
+    and (not filters ? 'doc_types'
+      or r.doc_type = any (public.jsonb_text_array(filters -> 'doc_types')))
+    and (not filters ? 'chapters'
+      or r.metadata ->> 'chapter' = any (public.jsonb_text_array(filters -> 'chapters')))
+    and (not filters ? 'tags'
+      or coalesce(r.metadata -> 'tags', '[]') ?| public.jsonb_text_array(filters -> 'tags'))
+    and (not filters ? 'article_from'
+      or public.regulation_article_num(r.article_no) >= (filters ->> 'article_from')::int)
+    and (not filters ? 'article_to'
+      or public.regulation_article_num(r.article_no) <= (filters ->> 'article_to')::int)
+    -- ISO 日期字串可直接比較大小
+    and (not filters ? 'effective_from'
+      or r.metadata ->> 'effective_date' >= filters ->> 'effective_from')
+    and (not filters ? 'effective_to'
+      or r.metadata ->> 'effective_date' <= filters ->> 'effective_to');
+$$;
+
+-- 向量檢索（含篩選）
+create or replace function public.search_regulations_filtered(
+  query_embedding vector,
+  match_threshold float default 0,
+  match_count int default 5,
+  filters jsonb default '{}'
+)
+returns table (
+  id public.regulations.id%type,
+  content text,
+  source text,
+  article_no text,
+  chunk_idx int,
+  doc_type text,
+  metadata jsonb,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    r.id,
+    r.content,
+    r.source,
+    r.article_no,
+    r.chunk_idx,
+    r.doc_type,
+    r.metadata,
+    1 - (r.embedding <=> query_embedding) as similarity
+  from public.regulations r
+  where r.embedding is not null
+    and public.regulation_matches_filters(r, filters)
+    and 1 - (r.embedding <=> query_embedding) >= match_threshold
+  order by r.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- 關鍵字檢索改以 filters 篩選（取代原本的 filter_doc_type）
+drop function if exists public.keyword_search_regulations(text[], int, text);
+
+create or replace function public.keyword_search_regulations(
+  query_terms text[],
+  match_count int default 10,
+  filters jsonb default '{}'
+)
+returns table (
+  id public.regulations.id%type,
+  content text,
+  source text,
+  article_no text,
+  chunk_idx int,
+  doc_type text,
+  metadata jsonb,
+  keyword_score float
+)
+language sql stable
+as $$
+  select
+    r.id,
+    r.content,
+    r.source,
+    r.article_no,
+    r.chunk_idx,
+    r.doc_type,
+    r.metadata,
+    (
+      select
+        count(*) filter (where r.content ilike '%' || t || '%')
+        + count(*) filter (where r.article_no = t)
+      from unnest(query_terms) as t
+    )::float / greatest(cardinality(query_terms), 1) as keyword_score
+  from public.regulations r
+  where public.regulation_matches_filters(r, filters)
+    and exists (
+      select 1
+      from unnest(query_terms) as t
+      where r.content ilike '%' || t || '%' or r.article_no = t
+    )
+  order by keyword_score desc, r.source, r.chunk_idx
+  limit match_count;
+$$;
+
+-- 分面計數：每個維度套用「其他維度」的篩選，已勾選的選項仍看得到其他選項的數量
+create or replace function public.regulation_facets(filters jsonb default '{}')
+returns table (facet text, value text, chunk_count bigint)
+language sql stable
+as $$
+  select 'source', r.source, count(*)
+  from public.regulations r
+  where public.regulation_matches_filters(r, filters - 'sources')
+  group by r.source
+
+  union all
+
+  select 'doc_type', r.doc_type, count(*)
+  from public.regulations r
+  where r.doc_type is not null
+    and public.regulation_matches_filters(r, filters - 'doc_types')
+  group by r.doc_type
+
+  union all
+
+  select 'chapter', r.metadata ->> 'chapter', count(*)
+  from public.regulations r
+  where r.metadata ? 'chapter'
+    and public.regulation_matches_filters(r, filters - 'chapters')
+  group by r.metadata ->> 'chapter'
+
+  union all
+
+  select 'tag', tag, count(*)
+  from public.regulations r
+  cross join lateral jsonb_array_elements_text(
+    coalesce(r.metadata -> 'tags', '[]')
+  ) as tag
+  where public.regulation_matches_filters(r, filters - 'tags')
+  group by tag
+
+  order by 1, 3 desc, 2;
+$$;
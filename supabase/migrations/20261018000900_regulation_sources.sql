@@ -0,0 +1,27 @@
+-- 法規來源清單：每個 source 的 chunk 數、條文數與最後更新時間
+-- 最後更新取新增時間與修訂紀錄中較晚者（編輯內容不會改動 created_at）
+create or replace function public.regulation_sources()
+returns table (
+  source text,
+  doc_types text[],
+  chunk_count bigint,
+  article_count bigint,
+  updated_at timestamptz
+)
+language sql stable
+as $$
+  select
+    r.source,
+    array_remove(array_agg(distinct r.doc_type), null) as doc_types,
+    count(*) as chunk_count,
+    count(distinct r.article_no) as article_count,
+    greatest(max(r.created_at), max(v.last_revised_at)) as updated_at
+  from public.regulations r
+  left join lateral (
+    select max(rev.created_at) as last_revised_at
+    from public.regulation_revisions rev
+    where rev.regulation_id = r.id::text
+  ) v on true
+  group by r.source
+  order by r.source;
+$$;
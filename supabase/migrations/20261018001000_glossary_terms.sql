@@ -0,0 +1,29 @@
+-- 專業詞彙表：現場常用說法（synonyms）對應法規用語（preferred）
+-- 搜尋前把查詢中的同義詞改寫為標準用語，關鍵字檢索另外加入同組的其他說法
+create table if not exists public.glossary_terms (
+  id bigint generated always as identity primary key,
+  preferred text not null,
+  synonyms text[] not null default '{}',
+  description text,
+  updated_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists glossary_terms_preferred_idx
+  on public.glossary_terms (lower(preferred));
+
+-- 常見的說法差異
+insert into public.glossary_terms (preferred, synonyms, description)
+select v.preferred, v.synonyms, v.description
+from (
+  values
+    ('安培容量', array['載流量', '容許電流'], '導線可連續通過的電流'),
+    ('mm²', array['mm2', '平方毫米', '平方'], '導線截面積單位'),
+    -- 較長的說法優先比對，避免「平方公尺」被改寫成「mm²公尺」
+    ('平方公尺', array['平米'], '面積單位')
+) as v(preferred, synonyms, description)
+where not exists (
+  select 1 from public.glossary_terms g
+  where lower(g.preferred) = lower(v.preferred)
+);
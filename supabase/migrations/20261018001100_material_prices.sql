@@ -0,0 +1,35 @@
+-- 材料單價歷史：每次單價變動（含新增材料時的初始單價）寫入一筆
+create table if not exists public.material_price_history (
+  id bigint generated always as identity primary key,
+  material_id text not null,
+  price numeric not null,
+  -- 新增材料或回填的第一筆為 null
+  previous_price numeric,
+  changed_by text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists material_price_history_material_idx
+  on public.material_price_history (material_id, changed_at desc);
+
+-- 既有材料以目前單價作為第一筆紀錄
+insert into public.material_price_history (material_id, price, changed_at)
+select m.id::text, m.price, coalesce(m.updated_at, now())
+from public.materials m
+where not exists (
+  select 1 from public.material_price_history h
+  where h.material_id = m.id::text
+);
+
+-- 價格警示：關注的材料在 period_days 天內漲跌超過 threshold_pct% 時顯示於儀表板
+create table if not exists public.material_price_alerts (
+  id bigint generated always as identity primary key,
+  material_id text not null,
+  threshold_pct numeric not null check (threshold_pct > 0),
+  period_days integer not null check (period_days between 1 and 365),
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists material_price_alerts_material_idx
+  on public.material_price_alerts (material_id);
@@ -0,0 +1,38 @@
+-- 法規、修訂紀錄、回饋、詞彙表與單價資料表啟用 RLS
+-- 寫入一律經由伺服器端的 service role client；anon 只保留前端需要的法規讀取（筆數與即時更新）
+alter table public.regulations enable row level security;
+alter table public.regulation_revisions enable row level security;
+-- like 建立的資料表不會複製 RLS 設定，需個別啟用
+alter table public.regulation_trash enable row level security;
+alter table public.search_feedback enable row level security;
+alter table public.glossary_terms enable row level security;
+alter table public.material_price_history enable row level security;
+alter table public.material_price_alerts enable row level security;
+
+drop policy if exists regulations_select on public.regulations;
+create policy regulations_select on public.regulations
+  for select to anon, authenticated using (true);
+
+-- service role 本身會略過 RLS，明確列出 policy 讓存取範圍一目了然
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'regulations',
+    'regulation_revisions',
+    'regulation_trash',
+    'search_feedback',
+    'glossary_terms',
+    'material_price_history',
+    'material_price_alerts'
+  ]
+  loop
+    execute format('drop policy if exists %I on public.%I', t || '_service_role', t);
+    execute format(
+      'create policy %I on public.%I for all to service_role using (true) with check (true)',
+      t || '_service_role',
+      t
+    );
+  end loop;
+end $$;
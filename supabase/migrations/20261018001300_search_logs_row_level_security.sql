@@ -0,0 +1,6 @@
+-- 搜尋紀錄含查詢內容與使用者，只由伺服器端以 service role 寫入與彙總
+alter table public.search_logs enable row level security;
+
+drop policy if exists search_logs_service_role on public.search_logs;
+create policy search_logs_service_role on public.search_logs
+  for all to service_role using (true) with check (true);
@@ -0,0 +1,14 @@
+-- 單獨的「平方」無法判斷單位（「22平方公里」會被改寫成「22mm²公里」），從 mm² 的同義詞移除；
+-- 「22平方」這類電線截面積由 query-parser 依數字後接「平方」且未接其他單位判斷
+update public.glossary_terms
+set synonyms = array_remove(synonyms, '平方'),
+    updated_at = now()
+where lower(preferred) = 'mm²'
+  and '平方' = any (synonyms);
+
+-- 「平方米」統一為「平方公尺」
+update public.glossary_terms
+set synonyms = synonyms || array['平方米'],
+    updated_at = now()
+where preferred = '平方公尺'
+  and not ('平方米' = any (synonyms));
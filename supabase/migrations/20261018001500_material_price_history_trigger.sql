@@ -0,0 +1,74 @@
+-- 單價紀錄改由資料庫觸發器寫入：API 以外的寫入同樣留下紀錄，且 OLD/NEW 與材料寫入在同一交易內
+alter table public.materials
+  add column if not exists updated_by text;
+
+-- 已刪除材料留下的紀錄與警示無法建立外鍵，先行清除
+delete from public.material_price_history h
+where not exists (
+  select 1 from public.materials m where m.id::text = h.material_id::text
+);
+
+delete from public.material_price_alerts a
+where not exists (
+  select 1 from public.materials m where m.id::text = a.material_id::text
+);
+
+-- material_id 改為與 materials.id 同型別（依既有資料表決定），刪除材料時一併刪除單價紀錄與警示
+do $$
+declare
+  id_type text;
+begin
+  select format_type(a.atttypid, a.atttypmod) into id_type
+  from pg_attribute a
+  where a.attrelid = 'public.materials'::regclass and a.attname = 'id';
+
+  execute format(
+    'alter table public.material_price_history
+       alter column material_id type %1$s using material_id::%1$s',
+    id_type
+  );
+  execute format(
+    'alter table public.material_price_alerts
+       alter column material_id type %1$s using material_id::%1$s',
+    id_type
+  );
+end $$;
+
+alter table public.material_price_history
+  drop constraint if exists material_price_history_material_id_fkey,
+  add constraint material_price_history_material_id_fkey
+    foreign key (material_id) references public.materials (id) on delete cascade;
+
+alter table public.material_price_alerts
+  drop constraint if exists material_price_alerts_material_id_fkey,
+  add constraint material_price_alerts_material_id_fkey
+    foreign key (material_id) references public.materials (id) on delete cascade;
+
+-- 新增材料記錄初始單價；單價變動時記錄前後單價，changed_by 取自 materials.updated_by
+-- security definer：不論寫入者的權限，紀錄都能寫進啟用 RLS 的 material_price_history
+create or replace function public.record_material_price_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.price is distinct from old.price then
+    insert into public.material_price_history (
+      material_id, price, previous_price, changed_by
+    )
+    values (
+      new.id,
+      new.price,
+      case when tg_op = 'UPDATE' then old.price end,
+      new.updated_by
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists materials_price_history on public.materials;
+create trigger materials_price_history
+  after insert or update of price on public.materials
+  for each row execute function public.record_material_price_change();
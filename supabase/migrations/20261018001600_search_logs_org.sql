@@ -0,0 +1,25 @@
+-- 搜尋紀錄加上使用者所屬的組織，供依組織分析
+alter table public.search_logs
+  add column if not exists org text;
+
+create index if not exists search_logs_org_created_at_idx
+  on public.search_logs (org, created_at desc);
+
+-- 區間內各組織的搜尋次數
+create or replace function public.search_log_organizations(
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns table (
+  org text,
+  search_count bigint
+)
+language sql stable
+as $$
+  select l.org, count(*) as search_count
+  from public.search_logs l
+  where l.created_at >= p_from
+    and l.created_at < p_to
+  group by l.org
+  order by search_count desc, l.org nulls last;
+$$;